@@ -75,23 +75,45 @@ export default defineConfig({
               label: "Validation — collecting errors",
               slug: "guides/validation",
             },
+            { label: "Decoder — parsing untrusted input", slug: "guides/decoder" },
             { label: "Deferred — infallible async values", slug: "guides/deferred" },
             { label: "Task — lazy async", slug: "guides/task" },
+            { label: "Lazy — deferred values", slug: "guides/lazy" },
             {
               label: "RemoteData — loading states",
               slug: "guides/remote-data",
             },
             { label: "These — inclusive OR", slug: "guides/these" },
+            { label: "Resource — guaranteed cleanup", slug: "guides/resource" },
+            { label: "Schedule — retry and repeat policies", slug: "guides/schedule" },
+            {
+              label: "CircuitBreaker — failing fast",
+              slug: "guides/circuit-breaker",
+            },
+            { label: "RateLimiter — call quotas", slug: "guides/rate-limiter" },
             { label: "Lens — nested updates", slug: "guides/lens" },
             { label: "Optional — nullable paths", slug: "guides/optional" },
+            { label: "Prism — focusing on cases", slug: "guides/prism" },
+            { label: "Iso — reversible conversions", slug: "guides/iso" },
+            { label: "Traversal — many foci at once", slug: "guides/traversal" },
             { label: "Reader — deferred dependencies", slug: "guides/reader" },
+            { label: "ReaderTask — async dependencies", slug: "guides/reader-task" },
             { label: "Brand — distinguishing values", slug: "guides/brand" },
             { label: "Refinement — type predicates", slug: "guides/refinement" },
             { label: "Predicate — boolean checks", slug: "guides/predicate" },
+            { label: "Equality — comparing values", slug: "guides/equality" },
+            { label: "Ordering — sorting values", slug: "guides/ordering" },
+            { label: "Combinable — combining values", slug: "guides/combinable" },
             { label: "State — threading state", slug: "guides/state" },
             { label: "Logged — values with logs", slug: "guides/logged" },
             { label: "Arr — array utilities", slug: "guides/arr" },
             { label: "Rec — record utilities", slug: "guides/rec" },
+            { label: "Struct — typed object fields", slug: "guides/struct" },
+            { label: "Map — keyed collections", slug: "guides/map" },
+            { label: "Set — unique values", slug: "guides/set" },
+            { label: "Tuple — working with pairs", slug: "guides/tuple" },
+            { label: "Iter — lazy sequences", slug: "guides/iter" },
+            { label: "AsyncIter — async streams", slug: "guides/async-iter" },
 
           ],
         },
@@ -0,0 +1,30 @@
+import { Result } from "../Core/Result.ts";
+
+// Internal module — not exported from the package. Shared by `debounce` and `throttle`.
+
+/** A Task waiting for the outcome of the call it was collapsed into. */
+export type Waiter<E, B> = (result: Result<E, B>) => void;
+
+/**
+ * Makes the call and hands its outcome to every waiting Task: `Ok` with its value, or `Err`
+ * with `onError` applied to what it threw or rejected with. Never rejects.
+ */
+export const settle = <A extends readonly unknown[], B, E>(
+  f: (...args: A) => B,
+  args: A,
+  onError: (error: unknown) => E,
+  callers: readonly Waiter<E, Awaited<B>>[],
+): void => {
+  let outcome: Promise<Awaited<B>>;
+  try {
+    outcome = Promise.resolve(f(...args));
+  } catch (error) {
+    outcome = Promise.reject(error);
+  }
+  outcome
+    .then(
+      (b): Result<E, Awaited<B>> => Result.ok(b),
+      (error) => Result.err(onError(error)),
+    )
+    .then((result) => callers.forEach((resolve) => resolve(result)));
+};
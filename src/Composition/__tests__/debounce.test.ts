@@ -0,0 +1,96 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Deferred } from "../../Core/Deferred.ts";
+import { Result } from "../../Core/Result.ts";
+import { debounce } from "../debounce.ts";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const toMessage = (error: unknown) => (error as Error).message;
+
+// --- debounce ---
+
+Deno.test("debounce - calls once with the latest arguments after the wait", async () => {
+  const calls: string[] = [];
+  const search = debounce(
+    (query: string) => {
+      calls.push(query);
+      return query.toUpperCase();
+    },
+    20,
+    toMessage,
+  );
+
+  const results = await Promise.all([
+    Deferred.toPromise(search("a")()),
+    Deferred.toPromise(search("ab")()),
+    Deferred.toPromise(search("abc")()),
+  ]);
+
+  assertEquals(calls, ["abc"]);
+  assertEquals(results, [Result.ok("ABC"), Result.ok("ABC"), Result.ok("ABC")]);
+});
+
+Deno.test("debounce - does nothing until the Task is run", async () => {
+  let callCount = 0;
+  const debounced = debounce(() => callCount++, 10, toMessage);
+
+  debounced();
+  await sleep(30);
+  assertStrictEquals(callCount, 0);
+});
+
+Deno.test("debounce - calls again for a later burst", async () => {
+  const calls: number[] = [];
+  const debounced = debounce((n: number) => calls.push(n), 10, toMessage);
+
+  await debounced(1)();
+  await debounced(2)();
+  assertEquals(calls, [1, 2]);
+});
+
+Deno.test("debounce - resolves with the value of a returned Promise", async () => {
+  const debounced = debounce((n: number) => Promise.resolve(n * 2), 10, toMessage);
+  assertEquals(await debounced(21)(), Result.ok(42));
+});
+
+Deno.test("debounce - resolves every waiting Task with Err when the function throws", async () => {
+  const debounced = debounce(
+    (_query: string): string => {
+      throw new Error("search failed");
+    },
+    10,
+    toMessage,
+  );
+
+  const results = await Promise.all([
+    Deferred.toPromise(debounced("a")()),
+    Deferred.toPromise(debounced("ab")()),
+  ]);
+
+  assertEquals(results, [Result.err("search failed"), Result.err("search failed")]);
+});
+
+Deno.test("debounce - resolves with Err when the returned Promise rejects", async () => {
+  const debounced = debounce(() => Promise.reject(new Error("offline")), 10, toMessage);
+  assertEquals(await debounced()(), Result.err("offline"));
+});
+
+Deno.test("debounce - aborting every waiting Task cancels the call", async () => {
+  let callCount = 0;
+  const debounced = debounce(() => callCount++, 10, toMessage);
+  const controller = new AbortController();
+
+  debounced()(controller.signal);
+  controller.abort();
+  await sleep(30);
+  assertStrictEquals(callCount, 0);
+});
+
+Deno.test("debounce - an aborted Task does not cancel the others", async () => {
+  const debounced = debounce((n: number) => n, 10, toMessage);
+  const controller = new AbortController();
+
+  debounced(1)(controller.signal);
+  const other = debounced(2)();
+  controller.abort();
+  assertEquals(await other, Result.ok(2));
+});
@@ -0,0 +1,89 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Deferred } from "../../Core/Deferred.ts";
+import { Result } from "../../Core/Result.ts";
+import { throttle } from "../throttle.ts";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const toMessage = (error: unknown) => (error as Error).message;
+
+// --- throttle ---
+
+Deno.test("throttle - calls straight away, then once more with the latest arguments", async () => {
+  const calls: number[] = [];
+  const throttled = throttle(
+    (n: number) => {
+      calls.push(n);
+      return n * 10;
+    },
+    20,
+    toMessage,
+  );
+
+  const results = await Promise.all([
+    Deferred.toPromise(throttled(1)()),
+    Deferred.toPromise(throttled(2)()),
+    Deferred.toPromise(throttled(3)()),
+  ]);
+
+  assertEquals(calls, [1, 3]);
+  assertEquals(results, [Result.ok(10), Result.ok(30), Result.ok(30)]);
+  await sleep(30);
+});
+
+Deno.test("throttle - makes no trailing call when nothing arrived during the wait", async () => {
+  let callCount = 0;
+  const throttled = throttle(() => ++callCount, 10, toMessage);
+
+  assertEquals(await throttled()(), Result.ok(1));
+  await sleep(30);
+  assertStrictEquals(callCount, 1);
+});
+
+Deno.test("throttle - calls straight away again once the wait has passed", async () => {
+  const calls: number[] = [];
+  const throttled = throttle((n: number) => calls.push(n), 10, toMessage);
+
+  await throttled(1)();
+  await sleep(20);
+  await throttled(2)();
+  assertEquals(calls, [1, 2]);
+  await sleep(20);
+});
+
+Deno.test("throttle - resolves the waiting Tasks with Err when the function throws", async () => {
+  const throttled = throttle(
+    (n: number): number => {
+      if (n > 1) throw new Error(`failed ${n}`);
+      return n;
+    },
+    10,
+    toMessage,
+  );
+
+  const results = await Promise.all([
+    Deferred.toPromise(throttled(1)()),
+    Deferred.toPromise(throttled(2)()),
+    Deferred.toPromise(throttled(3)()),
+  ]);
+
+  assertEquals(results, [Result.ok(1), Result.err("failed 3"), Result.err("failed 3")]);
+  await sleep(20);
+});
+
+Deno.test("throttle - resolves with Err when the returned Promise rejects", async () => {
+  const throttled = throttle(() => Promise.reject(new Error("offline")), 10, toMessage);
+  assertEquals(await throttled()(), Result.err("offline"));
+  await sleep(20);
+});
+
+Deno.test("throttle - aborting every waiting Task drops the trailing call", async () => {
+  const calls: number[] = [];
+  const throttled = throttle((n: number) => calls.push(n), 10, toMessage);
+  const controller = new AbortController();
+
+  await throttled(1)();
+  throttled(2)(controller.signal);
+  controller.abort();
+  await sleep(30);
+  assertEquals(calls, [1]);
+});
@@ -0,0 +1,60 @@
+import { Deferred } from "../Core/Deferred.ts";
+import type { Result } from "../Core/Result.ts";
+import type { TaskResult } from "../Core/TaskResult.ts";
+import { settle, type Waiter } from "./InternalCalls.ts";
+
+/**
+ * Creates a debounced version of a function: a call only happens once `ms` milliseconds
+ * have passed without another one, and then only with the latest arguments.
+ *
+ * The debounced function returns a TaskResult. Running it counts as a call and restarts the
+ * wait; every Task run during the wait resolves with the outcome of the one call that
+ * eventually happens: `Ok` with its result — the value, if `f` returns a Promise — or `Err`
+ * with `onError` applied to what `f` threw or rejected with. Aborting a Task's signal
+ * withdraws it: it never resolves, and if no other Task is waiting the pending call is
+ * cancelled.
+ *
+ * @example
+ * ```ts
+ * const search = debounce((query: string) => api.search(query), 300, toApiError);
+ *
+ * input.addEventListener("input", async () => {
+ *   const results = await search(input.value)();
+ *   render(results); // one request once the user stops typing; every keystroke gets its results
+ * });
+ * ```
+ */
+export const debounce = <A extends readonly unknown[], B, E>(
+  f: (...args: A) => B,
+  ms: number,
+  onError: (error: unknown) => E,
+): (...args: A) => TaskResult<E, Awaited<B>> => {
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+  let latest: A;
+  let waiting: Waiter<E, Awaited<B>>[] = [];
+
+  const fire = () => {
+    timerId = undefined;
+    const callers = waiting;
+    waiting = [];
+    settle(f, latest, onError, callers);
+  };
+
+  return (...args: A): TaskResult<E, Awaited<B>> => (signal) =>
+    Deferred.fromPromise(
+      new Promise<Result<E, Awaited<B>>>((resolve) => {
+        if (signal?.aborted) return;
+        latest = args;
+        waiting.push(resolve);
+        clearTimeout(timerId);
+        timerId = setTimeout(fire, ms);
+        signal?.addEventListener("abort", () => {
+          waiting = waiting.filter((r) => r !== resolve);
+          if (waiting.length === 0) {
+            clearTimeout(timerId);
+            timerId = undefined;
+          }
+        }, { once: true });
+      }),
+    );
+};
@@ -1,6 +1,7 @@
 export * from "./compose.ts";
 export * from "./converge.ts";
 export * from "./curry.ts";
+export * from "./debounce.ts";
 export * from "./flip.ts";
 export * from "./fn.ts";
 export * from "./flow.ts";
@@ -10,4 +11,5 @@ export * from "./not.ts";
 export * from "./on.ts";
 export * from "./pipe.ts";
 export * from "./tap.ts";
+export * from "./throttle.ts";
 export * from "./uncurry.ts";
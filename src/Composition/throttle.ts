@@ -0,0 +1,59 @@
+import { Deferred } from "../Core/Deferred.ts";
+import type { Result } from "../Core/Result.ts";
+import type { TaskResult } from "../Core/TaskResult.ts";
+import { settle, type Waiter } from "./InternalCalls.ts";
+
+/**
+ * Creates a throttled version of a function: it is called at most once every `ms`
+ * milliseconds. The first call happens straight away; calls made while it is cooling down
+ * are collapsed into one call, with the latest arguments, at the end of the wait.
+ *
+ * The throttled function returns a TaskResult. Running it counts as a call; the Task
+ * resolves with the outcome of the call it ends up part of — the immediate one, or the
+ * collapsed one at the end of the wait: `Ok` with its result — the value, if `f` returns a
+ * Promise — or `Err` with `onError` applied to what `f` threw or rejected with. Aborting the
+ * signal of a Task that is still waiting withdraws it: it never resolves, and if no other
+ * Task is waiting the collapsed call is dropped.
+ *
+ * @example
+ * ```ts
+ * const savePosition = throttle((offset: number) => api.saveScroll(offset), 1000, toApiError);
+ *
+ * window.addEventListener("scroll", () => savePosition(window.scrollY)());
+ * // saves at most once a second, and always the final position
+ * ```
+ */
+export const throttle = <A extends readonly unknown[], B, E>(
+  f: (...args: A) => B,
+  ms: number,
+  onError: (error: unknown) => E,
+): (...args: A) => TaskResult<E, Awaited<B>> => {
+  let coolingDown = false;
+  let latest: A;
+  let waiting: Waiter<E, Awaited<B>>[] = [];
+
+  const call = (args: A, callers: readonly Waiter<E, Awaited<B>>[]) => {
+    coolingDown = true;
+    settle(f, args, onError, callers);
+    setTimeout(() => {
+      coolingDown = false;
+      if (waiting.length === 0) return;
+      const next = waiting;
+      waiting = [];
+      call(latest, next);
+    }, ms);
+  };
+
+  return (...args: A): TaskResult<E, Awaited<B>> => (signal) =>
+    Deferred.fromPromise(
+      new Promise<Result<E, Awaited<B>>>((resolve) => {
+        if (signal?.aborted) return;
+        if (!coolingDown) return call(args, [resolve]);
+        latest = args;
+        waiting.push(resolve);
+        signal?.addEventListener("abort", () => {
+          waiting = waiting.filter((r) => r !== resolve);
+        }, { once: true });
+      }),
+    );
+};
@@ -1,5 +1,9 @@
+import { Combinable } from "./Combinable.ts";
 import { Deferred } from "./Deferred.ts";
+import { Equality } from "./Equality.ts";
+import { linkedController } from "./InternalAbort.ts";
 import { Option } from "./Option.ts";
+import { Ordering } from "./Ordering.ts";
 import { Result } from "./Result.ts";
 import { Task } from "./Task.ts";
 import { isNonEmptyList, NonEmptyList } from "../Types/NonEmptyList.ts";
@@ -216,6 +220,61 @@ export namespace Arr {
     return result;
   };
 
+  /**
+   * Removes duplicate elements using an Equality, keeping the first occurrence.
+   * Use this when elements are objects that `uniq` would compare by reference.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   [{ x: 1 }, { x: 1 }, { x: 2 }],
+   *   Arr.uniqWith(Equality.struct({ x: Equality.number }))
+   * ); // [{ x: 1 }, { x: 2 }]
+   * ```
+   */
+  export const uniqWith = <A>(eq: Equality<A>) => (data: readonly A[]): readonly A[] => {
+    const result: A[] = [];
+    for (const a of data) {
+      if (!result.some((b) => eq(a, b))) result.push(a);
+    }
+    return result;
+  };
+
+  /**
+   * Returns true if the array contains an element equal to the value.
+   *
+   * @example
+   * ```ts
+   * pipe([{ x: 1 }, { x: 2 }], Arr.includesWith(pointEquality)({ x: 2 })); // true
+   * ```
+   */
+  export const includesWith = <A>(eq: Equality<A>) => (value: A) => (data: readonly A[]): boolean =>
+    data.some((a) => eq(a, value));
+
+  /**
+   * Returns the elements of the array that are not equal to any element of `other`.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3, 4], Arr.difference(Equality.number)([2, 4])); // [1, 3]
+   * ```
+   */
+  export const difference =
+    <A>(eq: Equality<A>) => (other: readonly A[]) => (data: readonly A[]): readonly A[] =>
+      data.filter((a) => !other.some((b) => eq(a, b)));
+
+  /**
+   * Returns the elements of the array that are equal to some element of `other`.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3, 4], Arr.intersection(Equality.number)([4, 2, 6])); // [2, 4]
+   * ```
+   */
+  export const intersection =
+    <A>(eq: Equality<A>) => (other: readonly A[]) => (data: readonly A[]): readonly A[] =>
+      data.filter((a) => other.some((b) => eq(a, b)));
+
   /**
    * Sorts an array using a comparison function. Returns a new array.
    *
@@ -228,6 +287,71 @@ export namespace Arr {
     <A>(compare: (a: A, b: A) => number) => (data: readonly A[]): readonly A[] =>
       [...data].sort(compare);
 
+  /**
+   * Sorts an array using an Ordering. Returns a new array. The sort is stable, so elements
+   * the Ordering considers tied keep their original order.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   people,
+   *   Arr.sortWith(Ordering.combine(byLastName, byFirstName))
+   * );
+   * ```
+   */
+  export const sortWith = <A>(ord: Ordering<A>) => (data: readonly A[]): readonly A[] =>
+    [...data].sort(ord);
+
+  /**
+   * Inserts a value into an array already sorted by the same Ordering, keeping it sorted.
+   * The value goes after any elements it is tied with. Returns a new array.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 3, 5], Arr.sortedInsert(Ordering.number)(4)); // [1, 3, 4, 5]
+   * ```
+   */
+  export const sortedInsert =
+    <A>(ord: Ordering<A>) => (value: A) => (data: readonly A[]): readonly A[] => {
+      let low = 0;
+      let high = data.length;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (ord(data[mid], value) <= 0) low = mid + 1;
+        else high = mid;
+      }
+      return [...data.slice(0, low), value, ...data.slice(low)];
+    };
+
+  /**
+   * Returns the smallest element according to the Ordering, or None for an empty array.
+   * When several elements are tied, the first one wins.
+   *
+   * @example
+   * ```ts
+   * pipe([3, 1, 2], Arr.min(Ordering.number)); // Some(1)
+   * pipe([], Arr.min(Ordering.number)); // None
+   * ```
+   */
+  export const min = <A>(ord: Ordering<A>) => (data: readonly A[]): Option<A> =>
+    data.length > 0
+      ? Option.some(data.reduce((acc, a) => (ord(a, acc) < 0 ? a : acc)))
+      : Option.none();
+
+  /**
+   * Returns the largest element according to the Ordering, or None for an empty array.
+   * When several elements are tied, the first one wins.
+   *
+   * @example
+   * ```ts
+   * pipe([3, 1, 2], Arr.max(Ordering.number)); // Some(3)
+   * ```
+   */
+  export const max = <A>(ord: Ordering<A>) => (data: readonly A[]): Option<A> =>
+    data.length > 0
+      ? Option.some(data.reduce((acc, a) => (ord(a, acc) > 0 ? a : acc)))
+      : Option.none();
+
   // --- Combine ---
 
   /**
@@ -333,6 +457,32 @@ export namespace Arr {
   export const reduce = <A, B>(initial: B, f: (acc: B, a: A) => B) => (data: readonly A[]): B =>
     data.reduce(f, initial);
 
+  /**
+   * Combines every element with a Combinable, starting from its empty value.
+   * An empty array gives the empty value.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3], Arr.combineAll(Combinable.sum)); // 6
+   * pipe([] as number[], Arr.combineAll(Combinable.max)); // -Infinity
+   * ```
+   */
+  export const combineAll = <A>(combinable: Combinable<A>) => (data: readonly A[]): A =>
+    data.reduce((acc, a) => combinable.combine(acc, a), combinable.empty);
+
+  /**
+   * Maps every element and combines the results with a Combinable, in one pass.
+   *
+   * @example
+   * ```ts
+   * pipe(orders, Arr.foldMap(Combinable.sum)(o => o.total)); // total revenue
+   * pipe(users, Arr.foldMap(Combinable.any)(u => u.isAdmin)); // true if any user is an admin
+   * ```
+   */
+  export const foldMap =
+    <B>(combinable: Combinable<B>) => <A>(f: (a: A) => B) => (data: readonly A[]): B =>
+      data.reduce((acc, a) => combinable.combine(acc, f(a)), combinable.empty);
+
   // --- Traverse / Sequence ---
 
   /**
@@ -397,7 +547,23 @@ export namespace Arr {
    */
   export const traverseTask =
     <A, B>(f: (a: A) => Task<B>) => (data: readonly A[]): Task<readonly B[]> =>
-      Task.from(() => Promise.all(data.map((a) => Deferred.toPromise(f(a)()))));
+      Task.from((signal) => Promise.all(data.map((a) => Deferred.toPromise(f(a)(signal)))));
+
+  /**
+   * Maps each element to a Task and runs them with at most `limit` in flight at once.
+   * Results keep the input order regardless of completion order.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   userIds,
+   *   Arr.traverseTaskLimited(fetchProfile, 5)
+   * )(); // Deferred<Profile[]> — never more than 5 requests at a time
+   * ```
+   */
+  export const traverseTaskLimited =
+    <A, B>(f: (a: A) => Task<B>, limit: number) => (data: readonly A[]): Task<readonly B[]> =>
+      Task.allLimited(limit)(data.map((a): Task<B> => (signal) => f(a)(signal)));
 
   /**
    * Collects an array of Options into an Option of array.
@@ -451,16 +617,82 @@ export namespace Arr {
   export const traverseTaskResult =
     <E, A, B>(f: (a: A) => Task<Result<E, B>>) =>
     (data: readonly A[]): Task<Result<E, readonly B[]>> =>
-      Task.from(async () => {
+      Task.from(async (signal) => {
         const result: B[] = [];
         for (const a of data) {
-          const r = await Deferred.toPromise(f(a)());
+          const r = await Deferred.toPromise(f(a)(signal));
           if (Result.isErr(r)) return r;
           result.push(r.value);
         }
         return Result.ok(result);
       });
 
+  /**
+   * Maps each element to a TaskResult and runs them with at most `limit` in flight at once.
+   * Returns Ok of all results in input order if every one succeeds.
+   *
+   * By default the traversal fails fast: after the first Err no new work is started, the
+   * Tasks still running are aborted, and that Err is returned straight away. With
+   * `failFast: false` every element runs, and the Err of the earliest failing element in
+   * input order is returned.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   orderIds,
+   *   Arr.traverseTaskResultLimited(chargeOrder, 4)
+   * )(); // Deferred<Ok(receipts)> or Deferred<Err(firstFailure)>
+   *
+   * pipe(
+   *   orderIds,
+   *   Arr.traverseTaskResultLimited(chargeOrder, 4, { failFast: false })
+   * )(); // every order is attempted before the result is reported
+   * ```
+   */
+  export const traverseTaskResultLimited = <E, A, B>(
+    f: (a: A) => Task<Result<E, B>>,
+    limit: number,
+    options: { failFast?: boolean } = {},
+  ) =>
+  (data: readonly A[]): Task<Result<E, readonly B[]>> =>
+    Task.from((signal) =>
+      new Promise<Result<E, readonly B[]>>((resolve) => {
+        const failFast = options.failFast ?? true;
+        const { controller, release } = linkedController(signal);
+        const results: Result<E, B>[] = new Array(data.length);
+        let next = 0;
+        let done = 0;
+        let stopped = false;
+        const finish = (): void => {
+          release();
+          const values: B[] = [];
+          for (const r of results) {
+            if (Result.isErr(r)) return resolve(r);
+            values.push(r.value);
+          }
+          resolve(Result.ok(values));
+        };
+        const launch = (): void => {
+          const i = next++;
+          Deferred.toPromise(f(data[i])(controller.signal)).then((r) => {
+            if (stopped) return;
+            results[i] = r;
+            done++;
+            if (failFast && Result.isErr(r)) {
+              stopped = true;
+              release();
+              controller.abort();
+              resolve(r);
+            } else if (done === data.length) finish();
+            else if (next < data.length) launch();
+          });
+        };
+        if (data.length === 0) finish();
+        const width = Math.min(Math.max(1, Math.floor(limit) || 1), data.length);
+        for (let k = 0; k < width; k++) launch();
+      })
+    );
+
   /**
    * Collects an array of TaskResults into a TaskResult of array.
    * Returns the first Err if any element is Err, runs sequentially.
@@ -566,4 +798,24 @@ export namespace Arr {
       while (i < data.length && predicate(data[i])) i++;
       return data.slice(i);
     };
+
+  /**
+   * Creates a Set from the elements of an array, dropping duplicates.
+   *
+   * @example
+   * ```ts
+   * pipe(["read", "write", "read"], Arr.toSet); // Set { "read", "write" }
+   * ```
+   */
+  export const toSet = <A>(data: readonly A[]): ReadonlySet<A> => new Set(data);
+
+  /**
+   * Creates an array from the elements of a Set, in insertion order.
+   *
+   * @example
+   * ```ts
+   * Arr.fromSet(new Set([3, 1, 2])); // [3, 1, 2]
+   * ```
+   */
+  export const fromSet = <A>(data: ReadonlySet<A>): readonly A[] => [...data];
 }
@@ -0,0 +1,384 @@
+import { Deferred } from "./Deferred.ts";
+import { linkedController } from "./InternalAbort.ts";
+import { Option } from "./Option.ts";
+import { Result } from "./Result.ts";
+import { Task } from "./Task.ts";
+import { TaskResult } from "./TaskResult.ts";
+
+/**
+ * A stream of values that arrive over time. Any `AsyncIterable` is an `AsyncIter` — async
+ * generators, Deno and Node readable streams, `ReadableStream` — and every transformation
+ * returns a new `AsyncIter` without touching the source. Values are pulled one at a time,
+ * so nothing is read until a terminal operation (`toTask`, `toTaskResult`) runs, and only as
+ * much is read as the pipeline needs.
+ *
+ * Failures travel through the stream as `Result` values: `mapTaskResult` and `fromPaginated`
+ * stop producing after the first `Err`, and `toTaskResult` stops reading at it. The source
+ * itself is expected not to throw, in the same way a `Task` is expected not to reject.
+ *
+ * AsyncIters returned by this module can be consumed more than once; each run re-reads the
+ * source, which only repeats the values if the source itself can be iterated again.
+ *
+ * @example
+ * ```ts
+ * const users = pipe(
+ *   AsyncIter.fromPaginated(undefined, fetchUsersPage),
+ *   AsyncIter.take(500),
+ *   AsyncIter.toTaskResult,
+ * ); // TaskResult<ApiError, readonly User[]> — nothing fetched yet
+ *
+ * await users(); // fetches only the pages needed for the first 500 users
+ * ```
+ */
+export type AsyncIter<A> = AsyncIterable<A>;
+
+/**
+ * One page of a paginated API, as returned by the `fetchPage` function given to
+ * `AsyncIter.fromPaginated`: the page's items, and the cursor of the next page, or None on the
+ * last page.
+ */
+export type Page<C, A> = { readonly items: readonly A[]; readonly next: Option<C> };
+
+// Internal helper — not exported. The key under which AsyncIters created by this module keep
+// a way to start them with the consumer's AbortSignal.
+const startWithSignal = Symbol("startWithSignal");
+
+// Internal type — not exported. An AsyncIter created by this module.
+type Signalled<A> = AsyncIter<A> & {
+  readonly [startWithSignal]: (signal?: AbortSignal) => AsyncIterator<A>;
+};
+
+// Internal helper — not exported. Wraps an async generator function as a re-iterable
+// AsyncIter, so the pipeline restarts from the source on every run. The generator receives
+// the signal of the Task consuming the stream, when there is one.
+const fromGenerator = <A>(f: (signal?: AbortSignal) => AsyncGenerator<A>): AsyncIter<A> => {
+  const iter: Signalled<A> = {
+    [Symbol.asyncIterator]: () => f(),
+    [startWithSignal]: f,
+  };
+  return iter;
+};
+
+// Internal helper — not exported. Hands the consumer's signal on to a stream created by this
+// module, so the Tasks it runs are aborted along with the consumer. Other streams are
+// returned unchanged.
+const withSignal = <A>(data: AsyncIter<A>, signal?: AbortSignal): AsyncIter<A> =>
+  startWithSignal in data
+    ? { [Symbol.asyncIterator]: () => (data as Signalled<A>)[startWithSignal](signal) }
+    : data;
+
+// Internal helper — not exported. Runs `f` for up to `concurrency` source values at once and
+// yields the results in source order, stopping after the first result for which `stop` returns
+// true. When the stream stops early, Tasks still in flight are aborted and the source is closed.
+const mapConcurrent = <A, B>(
+  data: AsyncIter<A>,
+  f: (a: A) => Task<B>,
+  concurrency: number,
+  stop: (b: B) => boolean,
+): AsyncIter<B> =>
+  fromGenerator(async function* (signal) {
+    const { controller, release } = linkedController(signal);
+    const source = withSignal(data, signal)[Symbol.asyncIterator]();
+    const width = Math.max(concurrency, 1);
+    const running: Promise<B>[] = [];
+    let exhausted = false;
+    try {
+      while (true) {
+        while (!exhausted && running.length < width) {
+          const next = await source.next();
+          if (next.done) exhausted = true;
+          else running.push(Deferred.toPromise(f(next.value)(controller.signal)));
+        }
+        const head = running.shift();
+        if (head === undefined) return;
+        const b = await head;
+        yield b;
+        if (stop(b)) return;
+      }
+    } finally {
+      release();
+      controller.abort();
+      if (!exhausted) await source.return?.();
+    }
+  });
+
+export namespace AsyncIter {
+  /**
+   * Creates an AsyncIter that emits the values of a synchronous iterable.
+   *
+   * @example
+   * ```ts
+   * AsyncIter.fromIterable([1, 2, 3]);
+   * ```
+   */
+  export const fromIterable = <A>(values: Iterable<A>): AsyncIter<A> =>
+    fromGenerator(async function* () {
+      yield* values;
+    });
+
+  /**
+   * Streams the items of a paginated API. `fetchPage` receives a cursor and returns the page's
+   * items together with the cursor of the next page, or None on the last page. Pages are
+   * fetched lazily, one at a time, only when the consumer needs more items.
+   *
+   * Each item is emitted as `Ok`. If a page fails, its `Err` is emitted and no further pages
+   * are fetched.
+   *
+   * @example
+   * ```ts
+   * const fetchPage = (cursor: string | undefined) =>
+   *   pipe(
+   *     TaskResult.tryCatch((signal) => api.listUsers({ cursor, signal }), toApiError),
+   *     TaskResult.map((res) => ({ items: res.users, next: Option.fromNullable(res.nextCursor) })),
+   *   );
+   *
+   * AsyncIter.fromPaginated(undefined, fetchPage); // AsyncIter<Result<ApiError, User>>
+   * ```
+   */
+  export const fromPaginated = <C, E, A>(
+    initial: C,
+    fetchPage: (cursor: C) => TaskResult<E, Page<C, A>>,
+  ): AsyncIter<Result<E, A>> =>
+    fromGenerator(async function* (signal) {
+      const { controller, release } = linkedController(signal);
+      try {
+        let cursor: Option<C> = Option.some(initial);
+        while (Option.isSome(cursor)) {
+          const page: Result<E, Page<C, A>> = await Deferred.toPromise(
+            fetchPage(cursor.value)(controller.signal),
+          );
+          if (Result.isErr(page)) {
+            yield page;
+            return;
+          }
+          for (const item of page.value.items) yield Result.ok(item);
+          cursor = page.value.next;
+        }
+      } finally {
+        release();
+        controller.abort();
+      }
+    });
+
+  /**
+   * Transforms each value.
+   *
+   * @example
+   * ```ts
+   * pipe(lines, AsyncIter.map(line => line.trim()));
+   * ```
+   */
+  export const map = <A, B>(f: (a: A) => B) => (data: AsyncIter<A>): AsyncIter<B> =>
+    fromGenerator(async function* (signal) {
+      for await (const a of withSignal(data, signal)) yield f(a);
+    });
+
+  /**
+   * Keeps the values that satisfy the predicate.
+   *
+   * @example
+   * ```ts
+   * pipe(lines, AsyncIter.filter(line => line !== ""));
+   * ```
+   */
+  export const filter = <A>(predicate: (a: A) => boolean) => (data: AsyncIter<A>): AsyncIter<A> =>
+    fromGenerator(async function* (signal) {
+      for await (const a of withSignal(data, signal)) if (predicate(a)) yield a;
+    });
+
+  /**
+   * Runs a Task for each value and emits the results in source order. With a `concurrency`
+   * above 1, up to that many Tasks run at once while earlier results are still being
+   * consumed. Defaults to one at a time.
+   *
+   * @example
+   * ```ts
+   * pipe(userIds, AsyncIter.mapTask(fetchAvatar, { concurrency: 4 }));
+   * ```
+   */
+  export const mapTask =
+    <A, B>(f: (a: A) => Task<B>, options: { concurrency?: number } = {}) =>
+    (data: AsyncIter<A>): AsyncIter<B> =>
+      mapConcurrent(data, f, options.concurrency ?? 1, () => false);
+
+  /**
+   * Runs a TaskResult for each value and emits the results in source order, with up to
+   * `concurrency` running at once (default 1). The stream ends right after the first `Err`:
+   * no further values are read and Tasks still in flight are aborted.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   orderIds,
+   *   AsyncIter.mapTaskResult(chargeOrder, { concurrency: 2 }),
+   *   AsyncIter.toTaskResult,
+   * ); // TaskResult<PaymentError, readonly Receipt[]>
+   * ```
+   */
+  export const mapTaskResult =
+    <E, A, B>(f: (a: A) => TaskResult<E, B>, options: { concurrency?: number } = {}) =>
+    (data: AsyncIter<A>): AsyncIter<Result<E, B>> =>
+      mapConcurrent(data, f, options.concurrency ?? 1, Result.isErr);
+
+  /**
+   * Emits the first `n` values and stops reading the source after that.
+   *
+   * @example
+   * ```ts
+   * pipe(events, AsyncIter.take(10));
+   * ```
+   */
+  export const take = (n: number) => <A>(data: AsyncIter<A>): AsyncIter<A> =>
+    fromGenerator(async function* (signal) {
+      if (n <= 0) return;
+      let taken = 0;
+      for await (const a of withSignal(data, signal)) {
+        yield a;
+        if (++taken >= n) return;
+      }
+    });
+
+  /**
+   * Reads up to `size` values ahead of the consumer, so a slow producer and a slow consumer
+   * can work at the same time instead of taking turns.
+   *
+   * @example
+   * ```ts
+   * pipe(readLines(file), AsyncIter.buffer(100), AsyncIter.mapTask(saveLine));
+   * ```
+   */
+  export const buffer = (size: number) => <A>(data: AsyncIter<A>): AsyncIter<A> =>
+    fromGenerator(async function* (signal) {
+      const source = withSignal(data, signal)[Symbol.asyncIterator]();
+      const ahead: A[] = [];
+      let reading: Promise<void> | undefined;
+      let done = false;
+      // Reads one value at a time, and keeps reading until `size` values are waiting.
+      const read = () => {
+        reading = source.next().then((next) => {
+          reading = undefined;
+          if (done || next.done) {
+            done = true;
+            return;
+          }
+          ahead.push(next.value);
+          if (ahead.length < size) read();
+        });
+      };
+      try {
+        while (true) {
+          if (ahead.length === 0) {
+            if (done) return;
+            if (reading === undefined) read();
+            await reading;
+            continue;
+          }
+          const value = ahead.shift()!;
+          if (reading === undefined && !done && ahead.length < size) read();
+          yield value;
+        }
+      } finally {
+        if (!done) {
+          done = true;
+          await source.return?.();
+        }
+      }
+    });
+
+  /**
+   * Groups values into arrays of size `n`. The last chunk may be smaller.
+   *
+   * @example
+   * ```ts
+   * pipe(rows, AsyncIter.chunk(500), AsyncIter.mapTask(insertBatch));
+   * ```
+   */
+  export const chunk = (n: number) => <A>(data: AsyncIter<A>): AsyncIter<readonly A[]> =>
+    fromGenerator(async function* (signal) {
+      let current: A[] = [];
+      for await (const a of withSignal(data, signal)) {
+        current.push(a);
+        if (current.length >= n) {
+          yield current;
+          current = [];
+        }
+      }
+      if (current.length > 0) yield current;
+    });
+
+  /**
+   * Reads several streams at once and emits their values in the order they arrive. Ends when
+   * every stream has ended.
+   *
+   * @example
+   * ```ts
+   * AsyncIter.merge(ordersFromEu, ordersFromUs);
+   * ```
+   */
+  export const merge = <A>(...streams: readonly AsyncIter<A>[]): AsyncIter<A> =>
+    fromGenerator(async function* (signal) {
+      const sources = streams.map((s) => withSignal(s, signal)[Symbol.asyncIterator]());
+      const pending = new Map<number, Promise<readonly [number, IteratorResult<A>]>>();
+      const pull = (i: number): void => {
+        pending.set(i, sources[i].next().then((next) => [i, next] as const));
+      };
+      sources.forEach((_, i) => pull(i));
+      try {
+        while (pending.size > 0) {
+          const [i, next] = await Promise.race(pending.values());
+          if (next.done) {
+            pending.delete(i);
+          } else {
+            pull(i);
+            yield next.value;
+          }
+        }
+      } finally {
+        for (const i of pending.keys()) sources[i].return?.();
+      }
+    });
+
+  /**
+   * Runs the stream and collects every value. Aborting the signal stops reading, aborts the
+   * Tasks the stream is running — in `mapTask`, `mapTaskResult` and `fromPaginated` — and
+   * closes the stream. Never use this on an endless stream without a `take` first.
+   *
+   * @example
+   * ```ts
+   * const names = await pipe(users, AsyncIter.map(u => u.name), AsyncIter.toTask)();
+   * ```
+   */
+  export const toTask = <A>(data: AsyncIter<A>): Task<readonly A[]> =>
+    Task.from(async (signal) => {
+      const values: A[] = [];
+      for await (const a of withSignal(data, signal)) {
+        values.push(a);
+        if (signal?.aborted) break;
+      }
+      return values;
+    });
+
+  /**
+   * Runs a stream of Results and collects the `Ok` values. Stops at the first `Err` and
+   * returns it, closing the stream so no further values are produced. Aborting the signal
+   * also stops reading, aborts the Tasks the stream is running and closes the stream.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   AsyncIter.fromPaginated(undefined, fetchUsersPage),
+   *   AsyncIter.toTaskResult,
+   * ); // TaskResult<ApiError, readonly User[]>
+   * ```
+   */
+  export const toTaskResult = <E, A>(data: AsyncIter<Result<E, A>>): TaskResult<E, readonly A[]> =>
+    Task.from(async (signal) => {
+      const values: A[] = [];
+      for await (const result of withSignal(data, signal)) {
+        if (Result.isErr(result)) return result;
+        values.push(result.value);
+        if (signal?.aborted) break;
+      }
+      return Result.ok(values);
+    });
+}
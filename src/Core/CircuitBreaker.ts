@@ -0,0 +1,241 @@
+import { Deferred } from "./Deferred.ts";
+import { Result } from "./Result.ts";
+import { Task } from "./Task.ts";
+import type { TaskResult } from "./TaskResult.ts";
+
+/**
+ * The state of a CircuitBreaker:
+ * - `Closed` — calls go through and their outcomes are counted.
+ * - `Open` — calls are rejected straight away with a `CircuitOpen` error.
+ * - `HalfOpen` — the cool-down has passed; the next call goes through as a trial, and its
+ *   outcome decides whether the circuit closes again or reopens. A trial that is aborted, or
+ *   still running after another cool-down, is given up and the next call becomes the trial.
+ */
+export type CircuitState = "Closed" | "Open" | "HalfOpen";
+
+/**
+ * Returned instead of calling the protected function while the circuit is open, or while a
+ * half-open trial call is still running. `retryAfter` is the time, in milliseconds, until
+ * the circuit lets a trial call through.
+ */
+export type CircuitOpen = {
+  readonly kind: "CircuitOpen";
+  readonly retryAfter: number;
+};
+
+/**
+ * Stops calling a failing service for a while instead of adding to its load. A breaker
+ * counts the outcomes of the calls made through it and, once too many fail, opens: further
+ * calls fail straight away with a `CircuitOpen` error. After the cool-down, one trial call
+ * is let through — if it succeeds the circuit closes, otherwise it opens for another
+ * cool-down.
+ *
+ * Protect any number of functions with the same breaker to have them trip together — for
+ * example every endpoint of one downstream service. The `CircuitOpen` error is added to
+ * each function's error type.
+ *
+ * @example
+ * ```ts
+ * const breaker = CircuitBreaker.make<ApiError>({
+ *   consecutiveFailures: 5,
+ *   cooldown: 30_000,
+ *   onStateChange: (from, to) => log.info(`payments circuit: ${from} -> ${to}`),
+ * });
+ *
+ * const charge = CircuitBreaker.protect(breaker)(chargeCard);
+ * // (card: Card, amount: number) => TaskResult<ApiError | CircuitOpen, Receipt>
+ * ```
+ */
+export type CircuitBreaker<E> = {
+  readonly protect: <Args extends readonly unknown[], F extends E, A>(
+    f: (...args: Args) => TaskResult<F, A>,
+  ) => (...args: Args) => TaskResult<F | CircuitOpen, A>;
+  readonly state: () => CircuitState;
+  readonly reset: () => void;
+};
+
+export namespace CircuitBreaker {
+  /**
+   * Creates a closed CircuitBreaker. Choose when it trips with either:
+   * - `consecutiveFailures` — opens after that many failures in a row, or
+   * - `failureRate` and `window` — opens when at least `failureRate` (between 0 and 1) of
+   *   the last `window` calls failed, once at least `minimumCalls` (default `window`) calls
+   *   have been counted.
+   *
+   * `cooldown` is how long, in milliseconds, the circuit stays open before letting a trial
+   * call through. Every `Err` counts as a failure unless `isFailure` says otherwise; an `Err`
+   * it rejects — a "not found", say — counts as a success, since the service did respond.
+   *
+   * `onStateChange` is called on every change of state. The breaker sets no timers: an open
+   * circuit becomes half-open on the first call or `state` check after the cool-down, and
+   * the time is read from `now` (default `Date.now`), so a test can drive it with a fake
+   * clock.
+   *
+   * @example
+   * ```ts
+   * const breaker = CircuitBreaker.make({
+   *   failureRate: 0.5,
+   *   window: 20,
+   *   minimumCalls: 10,
+   *   cooldown: 10_000,
+   *   isFailure: (e: ApiError) => e.status >= 500,
+   * });
+   * ```
+   */
+  export const make = <E = unknown>(
+    options:
+      & (
+        | { consecutiveFailures: number }
+        | { failureRate: number; window: number; minimumCalls?: number }
+      )
+      & {
+        cooldown: number;
+        isFailure?: (error: E) => boolean;
+        onStateChange?: (from: CircuitState, to: CircuitState) => void;
+        now?: () => number;
+      },
+  ): CircuitBreaker<E> => {
+    const now = options.now ?? Date.now;
+    let current: CircuitState = "Closed";
+    // When the circuit next lets a call through: the end of the cool-down while open, and
+    // the time a running trial is given up while half-open.
+    let retryAt = 0;
+    // The half-open trial in flight, if any. Compared by identity, so the outcome of a trial
+    // that was given up is ignored.
+    let trial: object | undefined;
+    let consecutive = 0;
+    let outcomes: readonly boolean[] = [];
+
+    const moveTo = (to: CircuitState) => {
+      consecutive = 0;
+      outcomes = [];
+      trial = undefined;
+      if (to === current) return;
+      const from = current;
+      current = to;
+      options.onStateChange?.(from, to);
+    };
+
+    const state = (): CircuitState => {
+      if (current === "Open" && now() >= retryAt) moveTo("HalfOpen");
+      return current;
+    };
+
+    const open = () => {
+      retryAt = now() + options.cooldown;
+      moveTo("Open");
+    };
+
+    const record = (failed: boolean, ownTrial: object | undefined) => {
+      if (ownTrial !== undefined) {
+        if (ownTrial !== trial) return;
+        if (failed) open();
+        else moveTo("Closed");
+        return;
+      }
+      // A call that started before the circuit opened says nothing about the trial.
+      if (current !== "Closed") return;
+      if ("consecutiveFailures" in options) {
+        consecutive = failed ? consecutive + 1 : 0;
+        if (consecutive >= options.consecutiveFailures) open();
+        return;
+      }
+      outcomes = [...outcomes, failed].slice(-options.window);
+      const failures = outcomes.filter((f) => f).length;
+      if (
+        outcomes.length >= (options.minimumCalls ?? options.window) &&
+        failures / outcomes.length >= options.failureRate
+      ) open();
+    };
+
+    return {
+      protect: <Args extends readonly unknown[], F extends E, A>(
+        f: (...args: Args) => TaskResult<F, A>,
+      ) =>
+      (...args: Args): TaskResult<F | CircuitOpen, A> =>
+        Task.from(async (signal) => {
+          const status = state();
+          if (
+            status === "Open" || (status === "HalfOpen" && trial !== undefined && now() < retryAt)
+          ) {
+            return Result.err({ kind: "CircuitOpen", retryAfter: Math.max(0, retryAt - now()) });
+          }
+          const ownTrial = status === "HalfOpen" ? {} : undefined;
+          const giveUp = () => {
+            if (trial === ownTrial) trial = undefined;
+          };
+          if (ownTrial !== undefined) {
+            trial = ownTrial;
+            retryAt = now() + options.cooldown;
+            signal?.addEventListener("abort", giveUp, { once: true });
+          }
+          let failed = true;
+          try {
+            const result = await Deferred.toPromise(f(...args)(signal));
+            failed = Result.isErr(result) && (options.isFailure?.(result.error) ?? true);
+            return result;
+          } finally {
+            signal?.removeEventListener("abort", giveUp);
+            record(failed, ownTrial);
+          }
+        }),
+      state,
+      reset: () => moveTo("Closed"),
+    };
+  };
+
+  /**
+   * Wraps a function returning a TaskResult so that every call goes through the breaker.
+   * While the circuit is open the function is not called, and the TaskResult resolves to
+   * `Err(CircuitOpen)` straight away.
+   *
+   * @example
+   * ```ts
+   * const getUser = CircuitBreaker.protect(breaker)(fetchUser);
+   * // (id: string) => TaskResult<ApiError | CircuitOpen, User>
+   * ```
+   */
+  export const protect =
+    <E>(breaker: CircuitBreaker<E>) =>
+    <Args extends readonly unknown[], F extends E, A>(
+      f: (...args: Args) => TaskResult<F, A>,
+    ): (...args: Args) => TaskResult<F | CircuitOpen, A> => breaker.protect(f);
+
+  /**
+   * Returns the current state of the breaker. An open circuit whose cool-down has passed is
+   * reported, and moves, to `HalfOpen`.
+   *
+   * @example
+   * ```ts
+   * CircuitBreaker.state(breaker); // "Closed" | "Open" | "HalfOpen"
+   * ```
+   */
+  export const state = <E>(breaker: CircuitBreaker<E>): CircuitState => breaker.state();
+
+  /**
+   * Closes the circuit and forgets every counted outcome, whatever the current state.
+   *
+   * @example
+   * ```ts
+   * CircuitBreaker.reset(breaker); // e.g. after the downstream service was redeployed
+   * ```
+   */
+  export const reset = <E>(breaker: CircuitBreaker<E>): void => breaker.reset();
+
+  /**
+   * Returns true if an error is the `CircuitOpen` error returned by a protected function.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   getUser(id),
+   *   TaskResult.recover((e) =>
+   *     CircuitBreaker.isCircuitOpen(e) ? cachedUser(id) : TaskResult.err(e)
+   *   ),
+   * ); // serve from the cache while the circuit is open
+   * ```
+   */
+  export const isCircuitOpen = (error: unknown): error is CircuitOpen =>
+    typeof error === "object" && error !== null &&
+    (error as { readonly kind?: unknown }).kind === "CircuitOpen";
+}
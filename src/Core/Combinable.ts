@@ -0,0 +1,187 @@
+import { Option } from "./Option.ts";
+
+/**
+ * A way of combining two values of type `A` into one, together with the `empty` value that
+ * leaves anything unchanged when combined with it.
+ *
+ * `combine` must be associative — `combine(combine(a, b), c)` equals
+ * `combine(a, combine(b, c))` — and `empty` must be neutral — `combine(empty, a)` and
+ * `combine(a, empty)` both equal `a`. These two rules are what make it safe to combine a
+ * whole list in one step, starting from `empty`, which is what `Arr.combineAll` and
+ * `Arr.foldMap` do.
+ *
+ * (In other libraries this is called a monoid.)
+ *
+ * @example
+ * ```ts
+ * type Totals = { count: number; revenue: number; customers: readonly string[] };
+ *
+ * const totals = Combinable.struct<Totals>({
+ *   count: Combinable.sum,
+ *   revenue: Combinable.sum,
+ *   customers: Combinable.array(),
+ * });
+ *
+ * pipe(
+ *   orders,
+ *   Arr.foldMap(totals)(o => ({ count: 1, revenue: o.total, customers: [o.customerId] })),
+ * ); // { count: 3, revenue: 240, customers: ["c1", "c2", "c1"] }
+ * ```
+ */
+export type Combinable<A> = {
+  readonly combine: (a: A, b: A) => A;
+  readonly empty: A;
+};
+
+export namespace Combinable {
+  /**
+   * Builds a Combinable from a combine function and its neutral value.
+   *
+   * @example
+   * ```ts
+   * const longest = Combinable.make((a: string, b: string) => (b.length > a.length ? b : a), "");
+   * pipe(["pipe", "pipeline", "flow"], Arr.combineAll(longest)); // "pipeline"
+   * ```
+   */
+  export const make = <A>(combine: (a: A, b: A) => A, empty: A): Combinable<A> => ({
+    combine,
+    empty,
+  });
+
+  /**
+   * Concatenates strings. The empty value is `""`.
+   */
+  export const string: Combinable<string> = make((a, b) => a + b, "");
+
+  /**
+   * Adds numbers. The empty value is `0`.
+   */
+  export const sum: Combinable<number> = make((a, b) => a + b, 0);
+
+  /**
+   * Multiplies numbers. The empty value is `1`.
+   */
+  export const product: Combinable<number> = make((a, b) => a * b, 1);
+
+  /**
+   * Keeps the smaller number. The empty value is `Infinity`, which is also the result of
+   * combining an empty list.
+   */
+  export const min: Combinable<number> = make((a, b) => Math.min(a, b), Infinity);
+
+  /**
+   * Keeps the larger number. The empty value is `-Infinity`, which is also the result of
+   * combining an empty list.
+   */
+  export const max: Combinable<number> = make((a, b) => Math.max(a, b), -Infinity);
+
+  /**
+   * Logical AND. The empty value is `true`, so combining an empty list gives `true`.
+   */
+  export const all: Combinable<boolean> = make((a, b) => a && b, true);
+
+  /**
+   * Logical OR. The empty value is `false`, so combining an empty list gives `false`.
+   */
+  export const any: Combinable<boolean> = make((a, b) => a || b, false);
+
+  /**
+   * Concatenates arrays. The empty value is `[]`.
+   *
+   * @example
+   * ```ts
+   * Combinable.array<number>().combine([1, 2], [3]); // [1, 2, 3]
+   * ```
+   */
+  export const array = <A>(): Combinable<readonly A[]> =>
+    make<readonly A[]>((a, b) => [...a, ...b], []);
+
+  /**
+   * Keeps the first `Some`. The empty value is `None`.
+   *
+   * @example
+   * ```ts
+   * pipe([Option.none(), Option.some(1), Option.some(2)], Arr.combineAll(Combinable.first()));
+   * // Some(1)
+   * ```
+   */
+  export const first = <A>(): Combinable<Option<A>> =>
+    make<Option<A>>((a, b) => (Option.isSome(a) ? a : b), Option.none());
+
+  /**
+   * Keeps the last `Some`. The empty value is `None`.
+   *
+   * @example
+   * ```ts
+   * pipe([Option.some(1), Option.some(2), Option.none()], Arr.combineAll(Combinable.last()));
+   * // Some(2)
+   * ```
+   */
+  export const last = <A>(): Combinable<Option<A>> =>
+    make<Option<A>>((a, b) => (Option.isSome(b) ? b : a), Option.none());
+
+  /**
+   * Combines the values inside two `Some`s with `inner`. A `None` is skipped, so the empty
+   * value is `None`. See `Option.combine`.
+   *
+   * @example
+   * ```ts
+   * const total = Combinable.option(Combinable.sum);
+   * total.combine(Option.some(1), Option.some(2)); // Some(3)
+   * total.combine(Option.some(1), Option.none()); // Some(1)
+   * ```
+   */
+  export const option = <A>(inner: Combinable<A>): Combinable<Option<A>> =>
+    make<Option<A>>((a, b) => Option.combine(inner)(b)(a), Option.none());
+
+  /**
+   * Merges records key by key. Keys present in only one record keep their value; values
+   * under a shared key are combined with `inner`. The empty value is `{}`.
+   *
+   * @example
+   * ```ts
+   * Combinable.record(Combinable.sum).combine({ a: 1, b: 2 }, { b: 10, c: 3 });
+   * // { a: 1, b: 12, c: 3 }
+   * ```
+   */
+  export const record = <A>(
+    inner: Combinable<A>,
+  ): Combinable<Readonly<Record<string, A>>> =>
+    make<Readonly<Record<string, A>>>((a, b) => {
+      const result: Record<string, A> = { ...a };
+      for (const key of Object.keys(b)) {
+        result[key] = Object.prototype.hasOwnProperty.call(a, key)
+          ? inner.combine(a[key], b[key])
+          : b[key];
+      }
+      return result;
+    }, {});
+
+  /**
+   * Builds a Combinable for an object from a Combinable for each of its fields. Each field
+   * is combined with its own Combinable, and the empty value holds each field's empty value.
+   *
+   * @example
+   * ```ts
+   * const stats = Combinable.struct<{ hits: number; slowest: number }>({
+   *   hits: Combinable.sum,
+   *   slowest: Combinable.max,
+   * });
+   *
+   * stats.combine({ hits: 1, slowest: 120 }, { hits: 1, slowest: 80 });
+   * // { hits: 2, slowest: 120 }
+   * ```
+   */
+  export const struct = <A>(
+    fields: { readonly [K in keyof A]: Combinable<A[K]> },
+  ): Combinable<A> => {
+    const keys = Object.keys(fields) as (keyof A)[];
+    const empty = {} as A;
+    for (const key of keys) empty[key] = fields[key].empty;
+    return make((a, b) => {
+      const result = {} as A;
+      for (const key of keys) result[key] = fields[key].combine(a[key], b[key]);
+      return result;
+    }, empty);
+  };
+}
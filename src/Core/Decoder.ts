@@ -0,0 +1,308 @@
+import { isNonEmptyList } from "../Types/NonEmptyList.ts";
+import { Refinement } from "./Refinement.ts";
+import { Validation } from "./Validation.ts";
+
+/**
+ * A single decoding failure. `path` locates the offending value inside the input using
+ * JavaScript accessor syntax (`users[3].email`); it is empty when the input itself is wrong.
+ */
+export type DecodeError = {
+  readonly path: string;
+  readonly message: string;
+};
+
+/**
+ * A function that checks an untrusted input `I` and either produces a typed value `A` or
+ * every reason it could not. Decoders report all failures at once through `Validation`,
+ * and each error carries the path to the value that failed.
+ *
+ * Decoders compose: `struct`, `array`, `record`, `union`, `optional` and `nullable` build
+ * larger decoders from smaller ones, and the decoded type is inferred from the definition.
+ *
+ * @example
+ * ```ts
+ * const User = Decoder.struct({
+ *   name: Decoder.string,
+ *   email: Decoder.string,
+ *   age: Decoder.optional(Decoder.number),
+ * });
+ *
+ * type User = DecodedType<typeof User>;
+ * // { readonly name: string; readonly email: string; readonly age?: number }
+ *
+ * User({ name: "Alice", email: 42 });
+ * // Invalid([{ path: "email", message: "expected string" }])
+ * ```
+ */
+export type Decoder<I, A> = (input: I) => Validation<DecodeError, A>;
+
+/**
+ * A Decoder produced by `Decoder.optional`. Inside a `struct`, its key becomes optional.
+ */
+export type OptionalDecoder<I, A> = Decoder<I, A | undefined> & { readonly optional: true };
+
+/**
+ * Extracts the type a Decoder produces.
+ *
+ * @example
+ * ```ts
+ * const Point = Decoder.struct({ x: Decoder.number, y: Decoder.number });
+ * type Point = DecodedType<typeof Point>; // { readonly x: number; readonly y: number }
+ * ```
+ */
+export type DecodedType<D> = D extends Decoder<never, infer A> ? A : never;
+
+type StructFields = { readonly [key: string]: Decoder<unknown, unknown> };
+
+type OptionalKeys<F> = {
+  [K in keyof F]: F[K] extends { readonly optional: true } ? K : never;
+}[keyof F];
+
+type DecodedStruct<F> =
+  & { readonly [K in Exclude<keyof F, OptionalKeys<F>>]: DecodedType<F[K]> }
+  & { readonly [K in OptionalKeys<F>]?: Exclude<DecodedType<F[K]>, undefined> };
+
+type Literal = string | number | boolean | null;
+
+// Internal helper — not exported. Prefixes an error's path with the segment that leads to it,
+// so nested errors read `users[3].email` rather than `email`.
+const under = (segment: string) => (error: DecodeError): DecodeError => ({
+  ...error,
+  path: error.path === ""
+    ? segment
+    : error.path.startsWith("[")
+    ? `${segment}${error.path}`
+    : `${segment}.${error.path}`,
+});
+
+// Internal helper — not exported. Renders an object key as a path segment: plain identifiers
+// as-is, anything else in brackets so the path stays unambiguous.
+const keySegment = (key: string): string =>
+  /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : `[${JSON.stringify(key)}]`;
+
+// Internal helper — not exported. A root-level failure for an input of the wrong shape.
+const fail = <A>(message: string): Validation<DecodeError, A> =>
+  Validation.invalid({ path: "", message });
+
+// Internal helper — not exported. Plain objects only: arrays are not accepted where an
+// object is expected.
+const isObject = (input: unknown): input is Readonly<Record<string, unknown>> =>
+  typeof input === "object" && input !== null && !Array.isArray(input);
+
+export namespace Decoder {
+  /**
+   * Decodes a string.
+   */
+  export const string: Decoder<unknown, string> = (input) =>
+    typeof input === "string" ? Validation.valid(input) : fail("expected string");
+
+  /**
+   * Decodes a number. `NaN` is rejected.
+   */
+  export const number: Decoder<unknown, number> = (input) =>
+    typeof input === "number" && !Number.isNaN(input)
+      ? Validation.valid(input)
+      : fail("expected number");
+
+  /**
+   * Decodes a boolean.
+   */
+  export const boolean: Decoder<unknown, boolean> = (input) =>
+    typeof input === "boolean" ? Validation.valid(input) : fail("expected boolean");
+
+  /**
+   * Decodes one of the given literal values, compared with `===`.
+   *
+   * @example
+   * ```ts
+   * const Role = Decoder.literal("admin", "member");
+   * Role("admin"); // Valid("admin")
+   * Role("guest"); // Invalid([{ path: "", message: 'expected "admin" | "member"' }])
+   * ```
+   */
+  export const literal = <L extends readonly [Literal, ...Literal[]]>(
+    ...values: L
+  ): Decoder<unknown, L[number]> =>
+  (input) =>
+    values.some((value) => value === input)
+      ? Validation.valid(input as L[number])
+      : fail(`expected ${values.map((value) => JSON.stringify(value)).join(" | ")}`);
+
+  /**
+   * Decodes an object with the given fields. Every field is checked and all errors are
+   * reported, each with the path to the field. Keys that are not part of the definition
+   * are dropped from the result. Wrap a field in `optional` to allow it to be missing.
+   *
+   * @example
+   * ```ts
+   * const Address = Decoder.struct({
+   *   street: Decoder.string,
+   *   zip: Decoder.string,
+   * });
+   *
+   * Address({ street: 1 });
+   * // Invalid([
+   * //   { path: "street", message: "expected string" },
+   * //   { path: "zip", message: "expected string" },
+   * // ])
+   * ```
+   */
+  export const struct = <F extends StructFields>(
+    fields: F,
+  ): Decoder<unknown, DecodedStruct<F>> =>
+  (input) => {
+    if (!isObject(input)) return fail("expected object");
+    const value: Record<string, unknown> = {};
+    const errors: DecodeError[] = [];
+    for (const key of Object.keys(fields)) {
+      const result = fields[key](input[key]);
+      if (Validation.isInvalid(result)) errors.push(...result.errors.map(under(keySegment(key))));
+      else if (result.value !== undefined || key in input) value[key] = result.value;
+    }
+    return isNonEmptyList(errors)
+      ? Validation.invalidAll(errors)
+      : Validation.valid(value as DecodedStruct<F>);
+  };
+
+  /**
+   * Decodes an array whose every element passes `item`. Errors carry the element index.
+   *
+   * @example
+   * ```ts
+   * Decoder.array(Decoder.number)([1, "2", 3]);
+   * // Invalid([{ path: "[1]", message: "expected number" }])
+   * ```
+   */
+  export const array =
+    <A>(item: Decoder<unknown, A>): Decoder<unknown, readonly A[]> => (input) => {
+      if (!Array.isArray(input)) return fail("expected array");
+      const values: A[] = [];
+      const errors: DecodeError[] = [];
+      input.forEach((element, index) => {
+        const result = item(element);
+        if (Validation.isInvalid(result)) errors.push(...result.errors.map(under(`[${index}]`)));
+        else values.push(result.value);
+      });
+      return isNonEmptyList(errors) ? Validation.invalidAll(errors) : Validation.valid(values);
+    };
+
+  /**
+   * Decodes an object used as a dictionary: any string keys, every value passing `value`.
+   *
+   * @example
+   * ```ts
+   * Decoder.record(Decoder.number)({ a: 1, b: "x" });
+   * // Invalid([{ path: "b", message: "expected number" }])
+   * ```
+   */
+  export const record = <A>(
+    value: Decoder<unknown, A>,
+  ): Decoder<unknown, Readonly<Record<string, A>>> =>
+  (input) => {
+    if (!isObject(input)) return fail("expected object");
+    const values: Record<string, A> = {};
+    const errors: DecodeError[] = [];
+    for (const key of Object.keys(input)) {
+      const result = value(input[key]);
+      if (Validation.isInvalid(result)) errors.push(...result.errors.map(under(keySegment(key))));
+      else values[key] = result.value;
+    }
+    return isNonEmptyList(errors) ? Validation.invalidAll(errors) : Validation.valid(values);
+  };
+
+  /**
+   * Tries each decoder in order and returns the first success. When none succeeds, the
+   * errors of every alternative are reported.
+   *
+   * @example
+   * ```ts
+   * const Id = Decoder.union(Decoder.string, Decoder.number);
+   * type Id = DecodedType<typeof Id>; // string | number
+   * ```
+   */
+  export const union =
+    <D extends readonly [Decoder<unknown, unknown>, ...Decoder<unknown, unknown>[]]>(
+      ...decoders: D
+    ): Decoder<unknown, DecodedType<D[number]>> =>
+    (input) => {
+      const errors: DecodeError[] = [];
+      for (const decoder of decoders) {
+        const result = decoder(input);
+        if (Validation.isValid(result)) {
+          return result as Validation<DecodeError, DecodedType<D[number]>>;
+        }
+        errors.push(...result.errors);
+      }
+      // Every alternative failed, and each failure carries at least one error.
+      return isNonEmptyList(errors) ? Validation.invalidAll(errors) : fail("expected a value");
+    };
+
+  /**
+   * Accepts `undefined` in addition to what `decoder` accepts. Inside a `struct`, the field
+   * becomes optional and a missing key is left out of the result.
+   *
+   * @example
+   * ```ts
+   * const Profile = Decoder.struct({ bio: Decoder.optional(Decoder.string) });
+   * Profile({}); // Valid({})
+   * ```
+   */
+  export const optional = <A>(decoder: Decoder<unknown, A>): OptionalDecoder<unknown, A> =>
+    Object.assign(
+      (input: unknown) =>
+        input === undefined
+          ? Validation.valid<DecodeError, A | undefined>(undefined)
+          : decoder(input),
+      { optional: true } as const,
+    );
+
+  /**
+   * Accepts `null` in addition to what `decoder` accepts.
+   *
+   * @example
+   * ```ts
+   * Decoder.nullable(Decoder.string)(null); // Valid(null)
+   * ```
+   */
+  export const nullable = <I, A>(decoder: Decoder<I, A>): Decoder<I | null, A | null> => (input) =>
+    input === null ? Validation.valid(null) : decoder(input as I);
+
+  /**
+   * Narrows a decoded value with a `Refinement`, failing with `message` when it does not hold.
+   *
+   * @example
+   * ```ts
+   * type Email = string & { readonly _tag: "Email" };
+   * const isEmail: Refinement<string, Email> = Refinement.make(s => s.includes("@"));
+   *
+   * const EmailDecoder = pipe(Decoder.string, Decoder.refine(isEmail, "expected email"));
+   * EmailDecoder("nope"); // Invalid([{ path: "", message: "expected email" }])
+   * ```
+   */
+  export const refine =
+    <A, B extends A>(refinement: Refinement<A, B>, message: string) =>
+    <I>(decoder: Decoder<I, A>): Decoder<I, B> =>
+    (input) => {
+      const result = decoder(input);
+      if (Validation.isInvalid(result)) return result;
+      return refinement(result.value) ? Validation.valid(result.value) : fail(message);
+    };
+
+  /**
+   * Transforms the decoded value.
+   *
+   * @example
+   * ```ts
+   * const Timestamp = pipe(Decoder.string, Decoder.map(s => new Date(s)));
+   * ```
+   */
+  export const map =
+    <A, B>(f: (a: A) => B) => <I>(decoder: Decoder<I, A>): Decoder<I, B> => (input) =>
+      Validation.map(f)(decoder(input));
+
+  /**
+   * Renders a DecodeError as a single line, e.g. `users[3].email: expected string`.
+   */
+  export const formatError = (error: DecodeError): string =>
+    error.path === "" ? error.message : `${error.path}: ${error.message}`;
+}
@@ -0,0 +1,170 @@
+import { Option } from "./Option.ts";
+import { Result } from "./Result.ts";
+import { These } from "./These.ts";
+import { Validation } from "./Validation.ts";
+
+/**
+ * A function that decides whether two values of type `A` are equal.
+ *
+ * JavaScript's `===` compares objects by reference, so two structurally identical records
+ * are never equal. An `Equality<A>` makes the notion of "same" explicit and composable:
+ * build one for your domain type from the primitive instances and combinators, then hand it
+ * to functions such as `Arr.uniqWith`, `Arr.difference` or `Rec.equals`.
+ *
+ * @example
+ * ```ts
+ * type Point = { x: number; y: number };
+ *
+ * const pointEquality: Equality<Point> = Equality.struct({
+ *   x: Equality.number,
+ *   y: Equality.number,
+ * });
+ *
+ * pointEquality({ x: 1, y: 2 }, { x: 1, y: 2 }); // true
+ * pipe([{ x: 1, y: 2 }, { x: 1, y: 2 }], Arr.uniqWith(pointEquality)); // [{ x: 1, y: 2 }]
+ * ```
+ */
+export type Equality<A> = (a: A, b: A) => boolean;
+
+export namespace Equality {
+  /**
+   * Compares with `===`. Suitable for any type where reference identity is the right notion
+   * of equality.
+   */
+  export const strict = <A>(a: A, b: A): boolean => a === b;
+
+  /**
+   * Equality for strings.
+   */
+  export const string: Equality<string> = strict;
+
+  /**
+   * Equality for numbers. Unlike `===`, `NaN` is equal to itself.
+   */
+  export const number: Equality<number> = (a, b) => a === b || (Number.isNaN(a) && Number.isNaN(b));
+
+  /**
+   * Equality for booleans.
+   */
+  export const boolean: Equality<boolean> = strict;
+
+  /**
+   * Equality for dates, comparing the instant they represent.
+   *
+   * @example
+   * ```ts
+   * Equality.date(new Date(0), new Date(0)); // true
+   * ```
+   */
+  export const date: Equality<Date> = (a, b) => number(a.getTime(), b.getTime());
+
+  /**
+   * Builds an Equality for an object from an Equality for each of its fields.
+   * Two objects are equal when every listed field is equal.
+   *
+   * @example
+   * ```ts
+   * const userEquality = Equality.struct<User>({
+   *   id: Equality.string,
+   *   joined: Equality.date,
+   * });
+   * ```
+   */
+  export const struct =
+    <A>(fields: { readonly [K in keyof A]: Equality<A[K]> }): Equality<A> => (a, b) =>
+      (Object.keys(fields) as (keyof A)[]).every((key) => fields[key](a[key], b[key]));
+
+  /**
+   * Builds an Equality for a fixed-length tuple from an Equality for each position.
+   *
+   * @example
+   * ```ts
+   * const entryEquality = Equality.tuple(Equality.string, Equality.number);
+   * entryEquality(["a", 1], ["a", 1]); // true
+   * ```
+   */
+  export const tuple = <A extends readonly unknown[]>(
+    ...elements: { readonly [K in keyof A]: Equality<A[K]> }
+  ): Equality<Readonly<A>> =>
+  (a, b) => elements.every((eq, i) => (eq as Equality<unknown>)(a[i], b[i]));
+
+  /**
+   * Builds an Equality for arrays. Two arrays are equal when they have the same length and
+   * their elements are pairwise equal.
+   *
+   * @example
+   * ```ts
+   * Equality.array(Equality.number)([1, 2], [1, 2]); // true
+   * ```
+   */
+  export const array = <A>(eq: Equality<A>): Equality<readonly A[]> => (a, b) =>
+    a.length === b.length && a.every((x, i) => eq(x, b[i]));
+
+  /**
+   * Builds an Equality for records. Two records are equal when they have the same keys and
+   * the values under each key are equal.
+   *
+   * @example
+   * ```ts
+   * Equality.record(Equality.number)({ a: 1 }, { a: 1 }); // true
+   * ```
+   */
+  export const record = <A>(eq: Equality<A>): Equality<Readonly<Record<string, A>>> => (a, b) => {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && eq(a[key], b[key]));
+  };
+
+  /**
+   * Adapts an Equality to another type by comparing a projection of the values (often
+   * called `contramap`).
+   *
+   * @example
+   * ```ts
+   * const byId = pipe(Equality.string, Equality.using((user: User) => user.id));
+   * byId(alice, { ...alice, name: "Alicia" }); // true
+   * ```
+   */
+  export const using = <B, A>(f: (b: B) => A) => (eq: Equality<A>): Equality<B> => (a, b) =>
+    eq(f(a), f(b));
+
+  /**
+   * Builds an Equality for Option. `None` equals `None`; two `Some`s are equal when their
+   * values are.
+   */
+  export const option = <A>(eq: Equality<A>): Equality<Option<A>> => (a, b) =>
+    Option.isSome(a) ? Option.isSome(b) && eq(a.value, b.value) : Option.isNone(b);
+
+  /**
+   * Builds an Equality for Result from an Equality for each side.
+   */
+  export const result =
+    <E, A>(onErr: Equality<E>, onOk: Equality<A>): Equality<Result<E, A>> => (a, b) =>
+      Result.isOk(a)
+        ? Result.isOk(b) && onOk(a.value, b.value)
+        : Result.isErr(b) && onErr(a.error, b.error);
+
+  /**
+   * Builds an Equality for Validation. Two `Invalid`s are equal when their error lists are.
+   */
+  export const validation = <E, A>(
+    onInvalid: Equality<E>,
+    onValid: Equality<A>,
+  ): Equality<Validation<E, A>> =>
+  (a, b) =>
+    Validation.isValid(a)
+      ? Validation.isValid(b) && onValid(a.value, b.value)
+      : Validation.isInvalid(b) && array(onInvalid)(a.errors, b.errors);
+
+  /**
+   * Builds an Equality for These. Values are equal when they have the same variant and
+   * the values they hold are equal.
+   */
+  export const these =
+    <A, B>(onFirst: Equality<A>, onSecond: Equality<B>): Equality<These<A, B>> => (a, b) =>
+      These.isFirst(a)
+        ? These.isFirst(b) && onFirst(a.first, b.first)
+        : These.isSecond(a)
+        ? These.isSecond(b) && onSecond(a.second, b.second)
+        : These.isBoth(b) && onFirst(a.first, b.first) && onSecond(a.second, b.second);
+}
@@ -0,0 +1,18 @@
+// Internal module — not exported from the package. Shared by the combinators that cancel
+// their own Tasks: `Task`, `AsyncIter` and `Arr`.
+
+/**
+ * Creates a controller that is also aborted when the parent signal aborts, so a combinator
+ * can cancel its own children without cutting them off from the caller's cancellation.
+ * `release` detaches it from the parent once the combinator has settled.
+ */
+export const linkedController = (
+  parent: AbortSignal | undefined,
+): { controller: AbortController; release: () => void } => {
+  const controller = new AbortController();
+  if (parent === undefined) return { controller, release: () => {} };
+  const onAbort = () => controller.abort(parent.reason);
+  if (parent.aborted) onAbort();
+  else parent.addEventListener("abort", onAbort, { once: true });
+  return { controller, release: () => parent.removeEventListener("abort", onAbort) };
+};
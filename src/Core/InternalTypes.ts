@@ -13,3 +13,32 @@ export type WithFirst<T> = { readonly first: T };
 export type WithSecond<T> = { readonly second: T };
 
 export type WithLog<T> = { readonly log: ReadonlyArray<T> };
+
+type PathDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/** The steps a path can take from T: indices into arrays, string keys into other objects. */
+type PathStep<T> = [T] extends [readonly unknown[]] ? number
+  : [T] extends [(...args: never[]) => unknown] ? never
+  : [T] extends [object] ? keyof T & string
+  : never;
+
+type PathAt<T, K> = [T] extends [readonly (infer E)[]] ? E : K extends keyof T ? T[K] : never;
+
+/** Paths through T, up to eight steps deep, that only visit fields that are always present. */
+export type RequiredPath<T, D extends number = 8> = [D] extends [never] ? never : {
+  [K in PathStep<T> & string]: undefined extends T[K] ? never
+    : null extends T[K] ? never
+    : [K] | [K, ...RequiredPath<T[K], PathDepth[D]>];
+}[PathStep<T> & string];
+
+/** Paths through T, up to eight steps deep, including optional fields and array indices. */
+export type Path<T, D extends number = 8> = [D] extends [never] ? never : {
+  [K in PathStep<NonNullable<T>>]:
+    | [K]
+    | [K, ...Path<PathAt<NonNullable<T>, K>, PathDepth[D]>];
+}[PathStep<NonNullable<T>>];
+
+/** The type found at the end of path P through T. */
+export type PathValue<T, P> = P extends readonly [infer K, ...infer R]
+  ? PathValue<PathAt<NonNullable<T>, K>, R>
+  : T;
@@ -0,0 +1,151 @@
+import type { Lens } from "./Lens.ts";
+import type { Prism } from "./Prism.ts";
+
+/**
+ * Iso<S, A> is a lossless, reversible conversion between two representations of the same
+ * data: Celsius and Fahrenheit, a `[lat, lng]` tuple and a `{ lat, lng }` object, a string
+ * and its characters.
+ *
+ * `get` converts S to A and `reverseGet` converts back; doing one then the other gives back
+ * the original value. Because nothing is lost, an Iso can be used wherever a Lens or a Prism
+ * is expected: composing an Iso with a Lens gives a Lens, and with a Prism gives a Prism.
+ *
+ * @example
+ * ```ts
+ * const fahrenheit = Iso.make(
+ *   (c: number) => c * 9 / 5 + 32,
+ *   (f: number) => (f - 32) * 5 / 9,
+ * );
+ *
+ * pipe(100, Iso.get(fahrenheit));                    // 212
+ * pipe(212, Iso.reverseGet(fahrenheit));             // 100
+ * pipe(20, Iso.modify(fahrenheit)(f => f + 9));      // 25 — adds 9°F to a Celsius value
+ * ```
+ */
+export type Iso<S, A> = {
+  readonly get: (s: S) => A;
+  readonly reverseGet: (a: A) => S;
+};
+
+export namespace Iso {
+  /**
+   * Constructs an Iso from a conversion and its inverse.
+   *
+   * @example
+   * ```ts
+   * const point = Iso.make(
+   *   ([lat, lng]: readonly [number, number]) => ({ lat, lng }),
+   *   ({ lat, lng }: { lat: number; lng: number }) => [lat, lng] as const,
+   * );
+   * ```
+   */
+  export const make = <S, A>(get: (s: S) => A, reverseGet: (a: A) => S): Iso<S, A> => ({
+    get,
+    reverseGet,
+  });
+
+  /**
+   * The Iso that converts a value to itself.
+   */
+  export const id = <S>(): Iso<S, S> => make((s) => s, (s) => s);
+
+  /**
+   * Converts a structure to the focused representation.
+   *
+   * @example
+   * ```ts
+   * pipe(100, Iso.get(fahrenheit)); // 212
+   * ```
+   */
+  export const get = <S, A>(iso: Iso<S, A>) => (s: S): A => iso.get(s);
+
+  /**
+   * Converts a focused value back to the original representation.
+   *
+   * @example
+   * ```ts
+   * pipe(212, Iso.reverseGet(fahrenheit)); // 100
+   * ```
+   */
+  export const reverseGet = <S, A>(iso: Iso<S, A>) => (a: A): S => iso.reverseGet(a);
+
+  /**
+   * Swaps the two directions of an Iso.
+   *
+   * @example
+   * ```ts
+   * const celsius = Iso.reverse(fahrenheit); // Iso<number, number> from °F to °C
+   * ```
+   */
+  export const reverse = <S, A>(iso: Iso<S, A>): Iso<A, S> => make(iso.reverseGet, iso.get);
+
+  /**
+   * Applies a function in the focused representation and converts the result back.
+   *
+   * @example
+   * ```ts
+   * pipe(20, Iso.modify(fahrenheit)(f => f + 9)); // 25
+   * ```
+   */
+  export const modify = <S, A>(iso: Iso<S, A>) => (f: (a: A) => A) => (s: S): S =>
+    iso.reverseGet(f(iso.get(s)));
+
+  /**
+   * Composes an Iso with another optic: with an Iso the result is an Iso, with a Lens a
+   * Lens, and with a Prism a Prism.
+   *
+   * @example
+   * ```ts
+   * const latLens = pipe(point, Iso.andThen(Lens.prop<LatLng>()("lat")));
+   * // Lens<readonly [number, number], number>
+   * ```
+   */
+  export const andThen: {
+    <A, B>(inner: Iso<A, B>): <S>(outer: Iso<S, A>) => Iso<S, B>;
+    <A, B>(inner: Prism<A, B>): <S>(outer: Iso<S, A>) => Prism<S, B>;
+    <A, B>(inner: Lens<A, B>): <S>(outer: Iso<S, A>) => Lens<S, B>;
+  } =
+    (<A, B>(inner: Iso<A, B> | Prism<A, B> | Lens<A, B>) =>
+    <S>(outer: Iso<S, A>): Iso<S, B> | Prism<S, B> | Lens<S, B> => {
+      if ("getOption" in inner) {
+        return {
+          getOption: (s: S) => inner.getOption(outer.get(s)),
+          reverseGet: (b: B) => outer.reverseGet(inner.reverseGet(b)),
+        };
+      }
+      if ("reverseGet" in inner) {
+        return make(
+          (s: S) => inner.get(outer.get(s)),
+          (b: B) => outer.reverseGet(inner.reverseGet(b)),
+        );
+      }
+      return {
+        get: (s: S) => inner.get(outer.get(s)),
+        set: (b: B) => (s: S) => outer.reverseGet(inner.set(b)(outer.get(s))),
+      };
+    }) as typeof andThen;
+
+  /**
+   * Converts an Iso to a Lens, for composing with Lenses and Optionals.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   Optional.prop<Reading>()("celsius"),
+   *   Optional.andThenLens(Iso.toLens(fahrenheit)),
+   * ); // Optional<Reading, number> in °F
+   * ```
+   */
+  export const toLens = <S, A>(iso: Iso<S, A>): Lens<S, A> => ({
+    get: iso.get,
+    set: (a) => () => iso.reverseGet(a),
+  });
+
+  /**
+   * Converts an Iso to a Prism whose `getOption` always returns Some.
+   */
+  export const toPrism = <S, A>(iso: Iso<S, A>): Prism<S, A> => ({
+    getOption: (s) => ({ kind: "Some", value: iso.get(s) }),
+    reverseGet: iso.reverseGet,
+  });
+}
@@ -0,0 +1,251 @@
+import { Option } from "./Option.ts";
+
+/**
+ * A lazy sequence of values. Any `Iterable` is an `Iter` — arrays, sets, maps, strings and
+ * generators all work — and every transformation returns a new `Iter` without touching the
+ * source. Nothing is evaluated until a terminal operation (`toArray`, `reduce`, `find`)
+ * pulls values through, and each value flows through the whole pipeline before the next one
+ * is read, so no intermediate arrays are built.
+ *
+ * Iters returned by this module can be iterated more than once; each iteration re-runs the
+ * pipeline from the source.
+ *
+ * @example
+ * ```ts
+ * pipe(
+ *   Iter.range(0, 1_000_000),
+ *   Iter.map(n => n * n),
+ *   Iter.filter(n => n % 3 === 0),
+ *   Iter.take(3),
+ *   Iter.toArray
+ * ); // [0, 9, 36] — only the first 7 numbers of the range are ever produced
+ * ```
+ */
+export type Iter<A> = Iterable<A>;
+
+// Internal helper — not exported. Wraps a generator function as a re-iterable Iter, so the
+// pipeline restarts from the source on every iteration instead of being exhausted once.
+const fromGenerator = <A>(f: () => Generator<A>): Iter<A> => ({ [Symbol.iterator]: f });
+
+export namespace Iter {
+  /**
+   * Produces the numbers from `start` (inclusive) to `end` (exclusive), advancing by `step`.
+   * A negative step counts down. Omit `end` for an infinite sequence.
+   *
+   * @example
+   * ```ts
+   * Iter.toArray(Iter.range(0, 5)); // [0, 1, 2, 3, 4]
+   * Iter.toArray(Iter.range(10, 0, -5)); // [10, 5]
+   * ```
+   */
+  export const range = (start: number, end = Infinity, step = 1): Iter<number> =>
+    fromGenerator(function* () {
+      if (step === 0) return;
+      for (let n = start; step > 0 ? n < end : n > end; n += step) yield n;
+    });
+
+  /**
+   * Builds a sequence from a seed. `f` receives the current state and returns the next value
+   * together with the next state, or None to end the sequence.
+   *
+   * @example
+   * ```ts
+   * const powersOfTwo = Iter.unfold(1, n => Option.some([n, n * 2] as const));
+   * pipe(powersOfTwo, Iter.take(5), Iter.toArray); // [1, 2, 4, 8, 16]
+   * ```
+   */
+  export const unfold = <S, A>(seed: S, f: (state: S) => Option<readonly [A, S]>): Iter<A> =>
+    fromGenerator(function* () {
+      let state = seed;
+      while (true) {
+        const next = f(state);
+        if (Option.isNone(next)) return;
+        yield next.value[0];
+        state = next.value[1];
+      }
+    });
+
+  /**
+   * Transforms each value.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3], Iter.map(n => n * 2), Iter.toArray); // [2, 4, 6]
+   * ```
+   */
+  export const map = <A, B>(f: (a: A) => B) => (data: Iter<A>): Iter<B> =>
+    fromGenerator(function* () {
+      for (const a of data) yield f(a);
+    });
+
+  /**
+   * Keeps the values that satisfy the predicate.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3, 4], Iter.filter(n => n % 2 === 0), Iter.toArray); // [2, 4]
+   * ```
+   */
+  export const filter = <A>(predicate: (a: A) => boolean) => (data: Iter<A>): Iter<A> =>
+    fromGenerator(function* () {
+      for (const a of data) if (predicate(a)) yield a;
+    });
+
+  /**
+   * Maps each value to an iterable and flattens the results, one inner iterable at a time.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2], Iter.flatMap(n => [n, n * 10]), Iter.toArray); // [1, 10, 2, 20]
+   * ```
+   */
+  export const flatMap = <A, B>(f: (a: A) => Iterable<B>) => (data: Iter<A>): Iter<B> =>
+    fromGenerator(function* () {
+      for (const a of data) yield* f(a);
+    });
+
+  /**
+   * Takes the first `n` values and stops reading the source after that.
+   *
+   * @example
+   * ```ts
+   * pipe(Iter.range(0), Iter.take(3), Iter.toArray); // [0, 1, 2]
+   * ```
+   */
+  export const take = (n: number) => <A>(data: Iter<A>): Iter<A> =>
+    fromGenerator(function* () {
+      if (n <= 0) return;
+      let taken = 0;
+      for (const a of data) {
+        yield a;
+        if (++taken >= n) return;
+      }
+    });
+
+  /**
+   * Skips the first `n` values.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3, 4], Iter.drop(2), Iter.toArray); // [3, 4]
+   * ```
+   */
+  export const drop = (n: number) => <A>(data: Iter<A>): Iter<A> =>
+    fromGenerator(function* () {
+      let skipped = 0;
+      for (const a of data) {
+        if (skipped < n) skipped++;
+        else yield a;
+      }
+    });
+
+  /**
+   * Takes values while the predicate holds and stops at the first one that fails.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 5, 1], Iter.takeWhile(n => n < 3), Iter.toArray); // [1, 2]
+   * ```
+   */
+  export const takeWhile = <A>(predicate: (a: A) => boolean) => (data: Iter<A>): Iter<A> =>
+    fromGenerator(function* () {
+      for (const a of data) {
+        if (!predicate(a)) return;
+        yield a;
+      }
+    });
+
+  /**
+   * Pairs values from two iterables. Stops at the shorter one.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3], Iter.zip(["a", "b"]), Iter.toArray); // [[1, "a"], [2, "b"]]
+   * ```
+   */
+  export const zip = <B>(other: Iterable<B>) => <A>(data: Iter<A>): Iter<readonly [A, B]> =>
+    fromGenerator(function* () {
+      const others = other[Symbol.iterator]();
+      try {
+        for (const a of data) {
+          const b = others.next();
+          if (b.done) return;
+          yield [a, b.value] as const;
+        }
+      } finally {
+        others.return?.();
+      }
+    });
+
+  /**
+   * Like `reduce`, but yields every intermediate accumulator.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3], Iter.scan(0, (acc, n) => acc + n), Iter.toArray); // [1, 3, 6]
+   * ```
+   */
+  export const scan = <A, B>(initial: B, f: (acc: B, a: A) => B) => (data: Iter<A>): Iter<B> =>
+    fromGenerator(function* () {
+      let acc = initial;
+      for (const a of data) {
+        acc = f(acc, a);
+        yield acc;
+      }
+    });
+
+  /**
+   * Groups values into arrays of size `n`. The last chunk may be smaller.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3, 4, 5], Iter.chunksOf(2), Iter.toArray); // [[1, 2], [3, 4], [5]]
+   * ```
+   */
+  export const chunksOf = (n: number) => <A>(data: Iter<A>): Iter<readonly A[]> =>
+    fromGenerator(function* () {
+      let chunk: A[] = [];
+      for (const a of data) {
+        chunk.push(a);
+        if (chunk.length >= n) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) yield chunk;
+    });
+
+  /**
+   * Runs the pipeline and collects every value into an array.
+   * Never call this on an infinite Iter without a `take` or `takeWhile` first.
+   */
+  export const toArray = <A>(data: Iter<A>): readonly A[] => Array.from(data);
+
+  /**
+   * Runs the pipeline and folds every value into a single result.
+   *
+   * @example
+   * ```ts
+   * pipe(Iter.range(1, 5), Iter.reduce(0, (acc, n) => acc + n)); // 10
+   * ```
+   */
+  export const reduce = <A, B>(initial: B, f: (acc: B, a: A) => B) => (data: Iter<A>): B => {
+    let acc = initial;
+    for (const a of data) acc = f(acc, a);
+    return acc;
+  };
+
+  /**
+   * Runs the pipeline until a value satisfies the predicate and returns it, or None if the
+   * sequence ends first. Nothing after the match is evaluated.
+   *
+   * @example
+   * ```ts
+   * pipe(Iter.range(1), Iter.map(n => n * n), Iter.find(n => n > 50)); // Some(64)
+   * ```
+   */
+  export const find = <A>(predicate: (a: A) => boolean) => (data: Iter<A>): Option<A> => {
+    for (const a of data) if (predicate(a)) return Option.some(a);
+    return Option.none();
+  };
+}
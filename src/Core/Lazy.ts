@@ -0,0 +1,122 @@
+/**
+ * A synchronous value that is computed on first use and cached afterwards.
+ *
+ * `Lazy` is for expensive pure values — parsed configuration, compiled lookup tables, large
+ * derived structures — that should be described up front but only computed if something
+ * actually needs them. Each node is evaluated at most once: forcing it again, or forcing
+ * anything derived from it, reuses the cached value.
+ *
+ * Build Lazies with `of` and `defer`, combine them with `map`, `chain` and `zip`, and read the
+ * value with `force`. Use `Task.fromLazy` to hand one to an async pipeline.
+ *
+ * @example
+ * ```ts
+ * const config = Lazy.defer(() => parseConfig(readFileSync("config.toml", "utf8")));
+ * const routes = pipe(config, Lazy.map(c => compileRoutes(c.routes)));
+ *
+ * Lazy.isEvaluated(config); // false — nothing parsed yet
+ * Lazy.force(routes); // parses the config and compiles the routes
+ * Lazy.force(routes); // cached — neither step runs again
+ * ```
+ */
+export type Lazy<A> = {
+  readonly force: () => A;
+  readonly isEvaluated: () => boolean;
+};
+
+export namespace Lazy {
+  /**
+   * Wraps a value that is already known. The Lazy starts out evaluated.
+   *
+   * @example
+   * ```ts
+   * Lazy.force(Lazy.of(42)); // 42
+   * ```
+   */
+  export const of = <A>(value: A): Lazy<A> => ({
+    force: () => value,
+    isEvaluated: () => true,
+  });
+
+  /**
+   * Describes a value computed by `thunk` the first time it is forced. Later forces return
+   * the cached value without calling `thunk` again. If `thunk` throws, nothing is cached and
+   * the next force tries again.
+   *
+   * @example
+   * ```ts
+   * const table = Lazy.defer(() => buildLookupTable(rawRows));
+   * ```
+   */
+  export const defer = <A>(thunk: () => A): Lazy<A> => {
+    let pending: (() => A) | undefined = thunk;
+    let value: A;
+    return {
+      force: () => {
+        if (pending !== undefined) {
+          value = pending();
+          pending = undefined;
+        }
+        return value;
+      },
+      isEvaluated: () => pending === undefined,
+    };
+  };
+
+  /**
+   * Computes the value, or returns the cached one if it was computed before.
+   *
+   * @example
+   * ```ts
+   * Lazy.force(Lazy.defer(() => 1 + 1)); // 2
+   * ```
+   */
+  export const force = <A>(data: Lazy<A>): A => data.force();
+
+  /**
+   * Returns true if the value has already been computed.
+   *
+   * @example
+   * ```ts
+   * const lazy = Lazy.defer(() => 42);
+   * Lazy.isEvaluated(lazy); // false
+   * Lazy.force(lazy);
+   * Lazy.isEvaluated(lazy); // true
+   * ```
+   */
+  export const isEvaluated = <A>(data: Lazy<A>): boolean => data.isEvaluated();
+
+  /**
+   * Transforms the value once it is computed. Nothing runs until the result is forced.
+   *
+   * @example
+   * ```ts
+   * pipe(Lazy.defer(() => loadWords()), Lazy.map(words => new Set(words)));
+   * ```
+   */
+  export const map = <A, B>(f: (a: A) => B) => (data: Lazy<A>): Lazy<B> =>
+    defer(() => f(data.force()));
+
+  /**
+   * Uses the computed value to describe another Lazy. Nothing runs until the result is
+   * forced.
+   *
+   * @example
+   * ```ts
+   * pipe(config, Lazy.chain(c => c.strict ? strictRules : defaultRules));
+   * ```
+   */
+  export const chain = <A, B>(f: (a: A) => Lazy<B>) => (data: Lazy<A>): Lazy<B> =>
+    defer(() => f(data.force()).force());
+
+  /**
+   * Combines two Lazies into a Lazy of a pair. Forcing the result forces both.
+   *
+   * @example
+   * ```ts
+   * pipe(config, Lazy.zip(routes)); // Lazy<readonly [Config, Routes]>
+   * ```
+   */
+  export const zip = <B>(other: Lazy<B>) => <A>(data: Lazy<A>): Lazy<readonly [A, B]> =>
+    defer(() => [data.force(), other.force()] as const);
+}
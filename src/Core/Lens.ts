@@ -1,4 +1,21 @@
+import type { PathValue, RequiredPath } from "./InternalTypes.ts";
+import type { Iso } from "./Iso.ts";
 import type { Optional } from "./Optional.ts";
+import type { Prism } from "./Prism.ts";
+import type { Traversal } from "./Traversal.ts";
+
+// Internal helper — not exported. Reads the value at the end of a path of keys.
+const getPath = (s: unknown, keys: readonly string[]): unknown =>
+  keys.reduce((acc, key) => (acc as Record<string, unknown>)[key], s);
+
+// Internal helper — not exported. Replaces the value at the end of a path, copying only the
+// objects along the path so every other branch keeps its identity.
+const setPath = (s: unknown, keys: readonly string[], value: unknown): unknown => {
+  if (keys.length === 0) return value;
+  const [key, ...rest] = keys;
+  const obj = s as Record<string, unknown>;
+  return { ...obj, [key]: setPath(obj[key], rest, value) };
+};
 
 /**
  * Lens<S, A> focuses on a single value A inside a structure S, providing
@@ -58,6 +75,30 @@ export namespace Lens {
       (a) => (s) => ({ ...s, [key]: a } as S),
     );
 
+  /**
+   * Creates a Lens that focuses on a nested field in one step, from the keys leading to it.
+   * Call with the structure type first, then the keys; each key is checked against the type
+   * reached so far.
+   *
+   * Every field on the path must always be present. When a step is an optional or nullable
+   * field, or an array index, use `Optional.path`, which accepts those paths.
+   *
+   * Setting copies only the objects along the path; every other branch is shared with the
+   * original structure.
+   *
+   * @example
+   * ```ts
+   * const cityLens = Lens.path<Order>()("customer", "address", "city"); // Lens<Order, string>
+   *
+   * pipe(order, Lens.set(cityLens)("Hamburg")); // order.items is the same array as before
+   * ```
+   */
+  export const path = <S>() => <P extends RequiredPath<S>>(...keys: P): Lens<S, PathValue<S, P>> =>
+    make(
+      (s) => getPath(s, keys) as PathValue<S, P>,
+      (a) => (s) => setPath(s, keys, a) as S,
+    );
+
   /**
    * Reads the focused value from a structure.
    *
@@ -90,22 +131,57 @@ export namespace Lens {
     lens.set(f(lens.get(s)))(s);
 
   /**
-   * Composes two Lenses: focuses through the outer, then through the inner.
+   * Composes a Lens with another optic: focuses through the outer, then through the inner.
    * Use in a pipe chain to build up a deep focus step by step.
    *
+   * With a Lens or an Iso the result is a Lens. With a Prism the result is an Optional,
+   * since the Prism's case may not match; setting through it changes nothing when the case
+   * does not match. With a Traversal the result is a Traversal.
+   *
    * @example
    * ```ts
    * const userCityLens = pipe(
    *   Lens.prop<User>()("address"),
    *   Lens.andThen(Lens.prop<Address>()("city")),
    * );
+   *
+   * const circleOpt = pipe(
+   *   Lens.prop<Drawing>()("shape"),
+   *   Lens.andThen(Prism.fromKind<Shape>()("Circle")),
+   * ); // Optional<Drawing, Circle>
    * ```
    */
-  export const andThen = <A, B>(inner: Lens<A, B>) => <S>(outer: Lens<S, A>): Lens<S, B> =>
-    make(
-      (s) => inner.get(outer.get(s)),
-      (b) => (s) => outer.set(inner.set(b)(outer.get(s)))(s),
-    );
+  export const andThen: {
+    <A, B>(inner: Traversal<A, B>): <S>(outer: Lens<S, A>) => Traversal<S, B>;
+    <A, B>(inner: Prism<A, B>): <S>(outer: Lens<S, A>) => Optional<S, B>;
+    <A, B>(inner: Lens<A, B> | Iso<A, B>): <S>(outer: Lens<S, A>) => Lens<S, B>;
+  } =
+    (<A, B>(inner: Lens<A, B> | Iso<A, B> | Prism<A, B> | Traversal<A, B>) =>
+    <S>(outer: Lens<S, A>): Lens<S, B> | Optional<S, B> | Traversal<S, B> => {
+      if ("getAll" in inner) {
+        return {
+          getAll: (s: S) => inner.getAll(outer.get(s)),
+          modify: (f: (b: B) => B) => (s: S) => outer.set(inner.modify(f)(outer.get(s)))(s),
+        };
+      }
+      if ("getOption" in inner) {
+        return {
+          get: (s: S) => inner.getOption(outer.get(s)),
+          set: (b: B) => (s: S) =>
+            inner.getOption(outer.get(s)).kind === "None" ? s : outer.set(inner.reverseGet(b))(s),
+        };
+      }
+      if ("reverseGet" in inner) {
+        return make(
+          (s) => inner.get(outer.get(s)),
+          (b) => (s) => outer.set(inner.reverseGet(b))(s),
+        );
+      }
+      return make(
+        (s) => inner.get(outer.get(s)),
+        (b) => (s) => outer.set(inner.set(b)(outer.get(s)))(s),
+      );
+    }) as typeof andThen;
 
   /**
    * Composes a Lens with an Optional, producing an Optional.
@@ -0,0 +1,185 @@
+import { Option } from "./Option.ts";
+
+/**
+ * The built-in `Map`. Re-exported as a type so that importing the `Map` namespace does not
+ * hide the global `Map` type.
+ */
+export type Map<K, V> = globalThis.Map<K, V>;
+
+/**
+ * Functional utilities for `Map`, for keys that are not strings — numbers, ids, object
+ * references. Every function is data-last, never mutates its input, and returns a new map.
+ * Lookups return `Option` instead of `undefined`.
+ *
+ * Importing `Map` shadows the global `Map` constructor in that module; create maps with
+ * `new globalThis.Map()` there, or with `Map.fromArray`.
+ *
+ * @example
+ * ```ts
+ * const byId = pipe(users, Map.fromArray(u => u.id));
+ *
+ * pipe(byId, Map.lookup(42)); // Some(user) or None
+ * pipe(byId, Map.modifyAt(42, u => ({ ...u, active: false }))); // Some(new map) or None
+ * ```
+ */
+export namespace Map {
+  /**
+   * Looks up the value stored under a key.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Map([[1, "a"]]), Map.lookup(1)); // Some("a")
+   * pipe(new globalThis.Map([[1, "a"]]), Map.lookup(2)); // None
+   * ```
+   */
+  export const lookup = <K>(key: K) => <V>(data: ReadonlyMap<K, V>): Option<V> =>
+    data.has(key) ? Option.some(data.get(key) as V) : Option.none();
+
+  /**
+   * Returns a map with the key set to the value, replacing any existing value.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Map([[1, "a"]]), Map.insert(2, "b")); // Map { 1 => "a", 2 => "b" }
+   * ```
+   */
+  export const insert = <K, V>(key: K, value: V) => (data: ReadonlyMap<K, V>): ReadonlyMap<K, V> =>
+    new globalThis.Map(data).set(key, value);
+
+  /**
+   * Returns a map without the key. Returns the same map if the key is not present.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Map([[1, "a"], [2, "b"]]), Map.remove(1)); // Map { 2 => "b" }
+   * ```
+   */
+  export const remove = <K>(key: K) => <V>(data: ReadonlyMap<K, V>): ReadonlyMap<K, V> => {
+    if (!data.has(key)) return data;
+    const result = new globalThis.Map(data);
+    result.delete(key);
+    return result;
+  };
+
+  /**
+   * Applies a function to the value under a key. Returns None if the key is not present,
+   * so a missing key is never mistaken for a successful update.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Map([[1, 10]]), Map.modifyAt(1, n => n + 1)); // Some(Map { 1 => 11 })
+   * pipe(new globalThis.Map([[1, 10]]), Map.modifyAt(2, n => n + 1)); // None
+   * ```
+   */
+  export const modifyAt =
+    <K, V>(key: K, f: (v: V) => V) => (data: ReadonlyMap<K, V>): Option<ReadonlyMap<K, V>> =>
+      data.has(key)
+        ? Option.some(new globalThis.Map(data).set(key, f(data.get(key) as V)))
+        : Option.none();
+
+  /**
+   * Sets the value under a key from the current value, which is None when the key is not
+   * present yet. Useful for counters and accumulators.
+   *
+   * @example
+   * ```ts
+   * const increment = Map.upsertAt("clicks", Option.match({ some: n => n + 1, none: () => 1 }));
+   * pipe(new globalThis.Map<string, number>(), increment, increment); // Map { "clicks" => 2 }
+   * ```
+   */
+  export const upsertAt =
+    <K, V>(key: K, f: (current: Option<V>) => V) => (data: ReadonlyMap<K, V>): ReadonlyMap<K, V> =>
+      new globalThis.Map(data).set(key, f(lookup(key)(data)));
+
+  /**
+   * Transforms each value, keeping the keys.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Map([[1, 2], [2, 3]]), Map.map(n => n * 10)); // Map { 1 => 20, 2 => 30 }
+   * ```
+   */
+  export const map = <A, B>(f: (a: A) => B) => <K>(data: ReadonlyMap<K, A>): ReadonlyMap<K, B> => {
+    const result = new globalThis.Map<K, B>();
+    for (const [key, a] of data) result.set(key, f(a));
+    return result;
+  };
+
+  /**
+   * Keeps the entries whose value satisfies the predicate.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Map([[1, 2], [2, 3]]), Map.filter(n => n > 2)); // Map { 2 => 3 }
+   * ```
+   */
+  export const filter =
+    <A>(predicate: (a: A) => boolean) => <K>(data: ReadonlyMap<K, A>): ReadonlyMap<K, A> => {
+      const result = new globalThis.Map<K, A>();
+      for (const [key, a] of data) if (predicate(a)) result.set(key, a);
+      return result;
+    };
+
+  /**
+   * Splits a map into the entries whose value satisfies the predicate and those that don't.
+   *
+   * @example
+   * ```ts
+   * pipe(stockByProductId, Map.partition(n => n > 0)); // [inStock, soldOut]
+   * ```
+   */
+  export const partition =
+    <A>(predicate: (a: A) => boolean) =>
+    <K>(data: ReadonlyMap<K, A>): readonly [ReadonlyMap<K, A>, ReadonlyMap<K, A>] => {
+      const pass = new globalThis.Map<K, A>();
+      const fail = new globalThis.Map<K, A>();
+      for (const [key, a] of data) (predicate(a) ? pass : fail).set(key, a);
+      return [pass, fail];
+    };
+
+  /**
+   * Combines two maps. Keys present in only one map keep their value; for keys present in
+   * both, `combine` receives the value from the piped map and the value from `other`.
+   *
+   * @example
+   * ```ts
+   * const add = (a: number, b: number) => a + b;
+   * pipe(
+   *   new globalThis.Map([["a", 1], ["b", 2]]),
+   *   Map.union(add)(new globalThis.Map([["b", 10], ["c", 3]])),
+   * ); // Map { "a" => 1, "b" => 12, "c" => 3 }
+   * ```
+   */
+  export const union =
+    <V>(combine: (a: V, b: V) => V) =>
+    <K>(other: ReadonlyMap<K, V>) =>
+    (data: ReadonlyMap<K, V>): ReadonlyMap<K, V> => {
+      const result = new globalThis.Map(data);
+      for (const [key, b] of other) {
+        result.set(key, data.has(key) ? combine(data.get(key) as V, b) : b);
+      }
+      return result;
+    };
+
+  /**
+   * Returns the keys of a map, in insertion order.
+   */
+  export const keys = <K, V>(data: ReadonlyMap<K, V>): readonly K[] => [...data.keys()];
+
+  /**
+   * Returns the values of a map, in insertion order.
+   */
+  export const values = <K, V>(data: ReadonlyMap<K, V>): readonly V[] => [...data.values()];
+
+  /**
+   * Builds a map from an array, keying each element by `keyFn`. When two elements produce
+   * the same key, the later one wins.
+   *
+   * @example
+   * ```ts
+   * pipe(users, Map.fromArray(u => u.id)); // ReadonlyMap<number, User>
+   * ```
+   */
+  export const fromArray = <A, K>(keyFn: (a: A) => K) => (data: readonly A[]): ReadonlyMap<K, A> =>
+    new globalThis.Map(data.map((a) => [keyFn(a), a] as const));
+}
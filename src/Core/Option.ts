@@ -1,3 +1,4 @@
+import { Combinable } from "./Combinable.ts";
 import { WithKind, WithValue } from "./InternalTypes.ts";
 import { Result } from "./Result.ts";
 
@@ -22,6 +23,13 @@ export type Option<T> = Some<T> | None;
 export type Some<A> = WithKind<"Some"> & WithValue<A>;
 export type None = WithKind<"None">;
 
+// Internal helper — not exported. The `$` handed to an `Option.gen` block: returns the value
+// of a Some straight away and yields a None so the block can be stopped.
+const bindOption = function* <A>(data: Option<A>): Generator<None, A, unknown> {
+  if (data.kind === "Some") return data.value;
+  return (yield data) as A;
+};
+
 export namespace Option {
   /**
    * Creates a Some containing the given value.
@@ -225,6 +233,22 @@ export namespace Option {
   export const recover = <A, B>(fallback: () => Option<B>) => (data: Option<A>): Option<A | B> =>
     isSome(data) ? data : fallback();
 
+  /**
+   * Combines two Options with a Combinable. When both are Some, their values are combined,
+   * with the piped value first; when only one is Some, it is returned; otherwise None.
+   *
+   * @example
+   * ```ts
+   * pipe(Option.some(1), Option.combine(Combinable.sum)(Option.some(2))); // Some(3)
+   * pipe(Option.none(), Option.combine(Combinable.sum)(Option.some(2))); // Some(2)
+   * ```
+   */
+  export const combine =
+    <A>(combinable: Combinable<A>) => (other: Option<A>) => (data: Option<A>): Option<A> =>
+      isSome(data)
+        ? (isSome(other) ? some(combinable.combine(data.value, other.value)) : data)
+        : other;
+
   /**
    * Applies a function wrapped in a Option to a value wrapped in a Option.
    *
@@ -240,4 +264,104 @@ export namespace Option {
    */
   export const ap = <A>(arg: Option<A>) => <B>(data: Option<(a: A) => B>): Option<B> =>
     isSome(data) && isSome(arg) ? some(data.value(arg.value)) : none();
+
+  /**
+   * Lifts a plain two-argument function to work on Options. Returns None if either
+   * argument is None.
+   *
+   * @example
+   * ```ts
+   * const area = Option.lift2((w: number, h: number) => w * h);
+   * area(Option.some(3), Option.some(4)); // Some(12)
+   * area(Option.some(3), Option.none()); // None
+   * ```
+   */
+  export const lift2 =
+    <A, B, C>(f: (a: A, b: B) => C) => (first: Option<A>, second: Option<B>): Option<C> =>
+      isSome(first) && isSome(second) ? some(f(first.value, second.value)) : none();
+
+  /**
+   * Lifts a plain three-argument function to work on Options. Returns None if any argument
+   * is None.
+   *
+   * @example
+   * ```ts
+   * const toDate = Option.lift3((y: number, m: number, d: number) => new Date(y, m - 1, d));
+   * toDate(parseYear(y), parseMonth(m), parseDay(d)); // Option<Date>
+   * ```
+   */
+  export const lift3 =
+    <A, B, C, D>(f: (a: A, b: B, c: C) => D) =>
+    (first: Option<A>, second: Option<B>, third: Option<C>): Option<D> =>
+      isSome(first) && isSome(second) && isSome(third)
+        ? some(f(first.value, second.value, third.value))
+        : none();
+
+  /**
+   * Collects a tuple of Options into an Option of a tuple. Returns None if any element is
+   * None.
+   *
+   * @example
+   * ```ts
+   * Option.all([Option.some("alice"), Option.some(30)] as const); // Some(["alice", 30])
+   * Option.all([Option.some("alice"), Option.none()] as const); // None
+   * ```
+   */
+  export const all = <T extends readonly Option<unknown>[]>(
+    data: T,
+  ): Option<{ readonly [K in keyof T]: T[K] extends Option<infer A> ? A : never }> => {
+    const values: unknown[] = [];
+    for (const option of data) {
+      if (isNone(option)) return none();
+      values.push(option.value);
+    }
+    return some(values as { readonly [K in keyof T]: T[K] extends Option<infer A> ? A : never });
+  };
+
+  /**
+   * Collects a record of Options into an Option of a record with the same keys. Returns
+   * None if any field is None.
+   *
+   * @example
+   * ```ts
+   * Option.struct({ name: Option.some("alice"), age: parseAge(raw) });
+   * // Option<{ name: string; age: number }>
+   * ```
+   */
+  export const struct = <R extends Readonly<Record<string, Option<unknown>>>>(
+    data: R,
+  ): Option<{ readonly [K in keyof R]: R[K] extends Option<infer A> ? A : never }> => {
+    const values: Record<string, unknown> = {};
+    for (const key of Object.keys(data)) {
+      const option = data[key];
+      if (isNone(option)) return none();
+      values[key] = option.value;
+    }
+    return some(values as { readonly [K in keyof R]: R[K] extends Option<infer A> ? A : never });
+  };
+
+  /**
+   * Runs a generator block in which `yield* $(option)` unwraps a Some, so a sequence of
+   * dependent steps reads top to bottom instead of as nested `chain` callbacks.
+   * The first None stops the block and becomes the result; otherwise the returned value
+   * is wrapped in Some.
+   *
+   * @example
+   * ```ts
+   * const city = Option.gen(function* ($) {
+   *   const user = yield* $(findUser(id));
+   *   const address = yield* $(Option.fromNullable(user.address));
+   *   return address.city;
+   * }); // Option<string>
+   * ```
+   */
+  export const gen = <A>(
+    f: ($: <B>(data: Option<B>) => Generator<None, B, unknown>) => Generator<None, A>,
+  ): Option<A> => {
+    const it = f(bindOption);
+    const step = it.next();
+    if (step.done) return some(step.value);
+    it.return(undefined as A);
+    return step.value;
+  };
 }
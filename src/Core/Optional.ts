@@ -1,11 +1,63 @@
+import type { Path, PathValue } from "./InternalTypes.ts";
 import { Option } from "./Option.ts";
+import type { Iso } from "./Iso.ts";
 import type { Lens } from "./Lens.ts";
+import type { Prism } from "./Prism.ts";
+import type { Traversal } from "./Traversal.ts";
 
 /** Keys of T for which undefined is assignable (i.e. optional fields). */
 type OptionalKeys<T> = {
   [K in keyof T]-?: undefined extends T[K] ? K : never;
 }[keyof T];
 
+// Internal helper — not exported. Views a Prism or an Iso as an Optional, so that `andThen`
+// has a single composition rule. Setting through either builds the value with `reverseGet`;
+// through a Prism, only when the current value is already its case.
+const fromOptic = <A, B>(optic: Optional<A, B> | Prism<A, B> | Iso<A, B>): Optional<A, B> =>
+  "getOption" in optic
+    ? {
+      get: optic.getOption,
+      set: (b) => (a) => Option.isSome(optic.getOption(a)) ? optic.reverseGet(b) : a,
+    }
+    : "reverseGet" in optic
+    ? { get: (a) => Option.some(optic.get(a)), set: (b) => () => optic.reverseGet(b) }
+    : optic;
+
+// Internal helper — not exported. Follows a path of keys and indices, returning undefined as
+// soon as a step is missing or an index is out of bounds.
+const getPath = (s: unknown, keys: readonly (string | number)[]): unknown => {
+  let current = s;
+  for (const key of keys) {
+    if (current == null) return undefined;
+    if (typeof key === "number" && (key < 0 || key >= (current as unknown[]).length)) {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+};
+
+// Internal helper — not exported. Replaces the value at the end of a path, copying only the
+// objects and arrays along it. Returns the structure itself when a step is missing, so that
+// setting through an absent path changes nothing.
+const setPath = (s: unknown, keys: readonly (string | number)[], value: unknown): unknown => {
+  if (keys.length === 0) return value;
+  if (s == null) return s;
+  const [key, ...rest] = keys;
+  if (typeof key === "number") {
+    const arr = s as readonly unknown[];
+    if (key < 0 || key >= arr.length) return s;
+    const next = setPath(arr[key], rest, value);
+    if (next === arr[key]) return s;
+    const copy = [...arr];
+    copy[key] = next;
+    return copy;
+  }
+  const obj = s as Record<string, unknown>;
+  const next = setPath(obj[key], rest, value);
+  return next === obj[key] ? s : { ...obj, [key]: next };
+};
+
 /**
  * Optional<S, A> focuses on a value A inside a structure S that may or may
  * not be present. Like a Lens, but get returns Option<A>.
@@ -90,6 +142,35 @@ export namespace Optional {
       },
     );
 
+  /**
+   * Creates an Optional that focuses on a nested value in one step, from the keys and array
+   * indices leading to it. Call with the structure type first, then the path; each step is
+   * checked against the type reached so far, and any step may be an optional or nullable
+   * field or an index.
+   *
+   * Reading returns None as soon as a step is missing. Setting is a no-op when an
+   * intermediate step is missing or an index is out of bounds, and copies only the objects
+   * and arrays along the path; every other branch is shared with the original structure.
+   *
+   * @example
+   * ```ts
+   * const landmarkOpt = Optional.path<Order>()("customer", "address", "landmark");
+   * const firstPrice = Optional.path<Order>()("items", 0, "price");
+   *
+   * pipe(order, Optional.get(firstPrice));      // Some(10), or None for an empty order
+   * pipe(order, Optional.set(landmarkOpt)("Town hall"));
+   * ```
+   */
+  export const path =
+    <S>() => <P extends Path<S>>(...keys: P): Optional<S, NonNullable<PathValue<S, P>>> =>
+      make(
+        (s) => {
+          const val = getPath(s, keys);
+          return val != null ? Option.some(val as NonNullable<PathValue<S, P>>) : Option.none();
+        },
+        (a) => (s) => setPath(s, keys, a) as S,
+      );
+
   /**
    * Reads the focused value from a structure, returning Option<A>.
    *
@@ -175,8 +256,12 @@ export namespace Optional {
     };
 
   /**
-   * Composes two Optionals: focuses through the outer, then through the inner.
-   * Returns None if either focus is absent.
+   * Composes an Optional with another Optional, a Prism or an Iso: focuses through the
+   * outer, then through the inner. Returns None if either focus is absent, and setting then
+   * returns the input unchanged — including when a Prism's case does not match.
+   *
+   * With a Traversal the result is a Traversal, which has no foci when the outer focus is
+   * absent.
    *
    * @example
    * ```ts
@@ -184,20 +269,47 @@ export namespace Optional {
    *   Optional.prop<User>()("address"),
    *   Optional.andThen(Optional.prop<Address>()("landmark")),
    * );
+   *
+   * const okValue = pipe(
+   *   Optional.prop<Job>()("outcome"),
+   *   Optional.andThen(Prism.ok<string, Report>()),
+   * ); // Optional<Job, Report>
    * ```
    */
-  export const andThen =
-    <A, B>(inner: Optional<A, B>) => <S>(outer: Optional<S, A>): Optional<S, B> =>
-      make(
+  export const andThen: {
+    <A, B>(inner: Traversal<A, B>): <S>(outer: Optional<S, A>) => Traversal<S, B>;
+    <A, B>(inner: Optional<A, B> | Prism<A, B> | Iso<A, B>): <S>(
+      outer: Optional<S, A>,
+    ) => Optional<S, B>;
+  } =
+    (<A, B>(inner: Optional<A, B> | Prism<A, B> | Iso<A, B> | Traversal<A, B>) =>
+    <S>(outer: Optional<S, A>): Optional<S, B> | Traversal<S, B> => {
+      if ("getAll" in inner) {
+        return {
+          getAll: (s: S) => {
+            const mid = outer.get(s);
+            return mid.kind === "None" ? [] : inner.getAll(mid.value);
+          },
+          modify: (f: (b: B) => B) => (s: S) => {
+            const mid = outer.get(s);
+            return mid.kind === "None" ? s : outer.set(inner.modify(f)(mid.value))(s);
+          },
+        };
+      }
+      const focus = fromOptic(inner);
+      return make(
         (s) => {
           const mid = outer.get(s);
-          return mid.kind === "None" ? Option.none() : inner.get(mid.value);
+          return mid.kind === "None" ? Option.none() : focus.get(mid.value);
         },
         (b) => (s) => {
           const mid = outer.get(s);
-          return mid.kind === "None" ? s : outer.set(inner.set(b)(mid.value))(s);
+          if (mid.kind === "None") return s;
+          const next = focus.set(b)(mid.value);
+          return next === mid.value ? s : outer.set(next)(s);
         },
       );
+    }) as typeof andThen;
 
   /**
    * Composes an Optional with a Lens, producing an Optional.
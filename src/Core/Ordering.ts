@@ -0,0 +1,171 @@
+import { Option } from "./Option.ts";
+import { Result } from "./Result.ts";
+
+/**
+ * A comparison function that orders two values of type `A`. It returns a negative number
+ * when `a` comes before `b`, a positive number when `a` comes after `b`, and `0` when they
+ * are tied — the same contract as the callback of `Array.prototype.sort`.
+ *
+ * Orderings are built from the primitive instances and combined with `using`, `reverse`
+ * and `combine`, so multi-key and descending sorts are declared instead of hand-written.
+ *
+ * @example
+ * ```ts
+ * type Person = { lastName: string; firstName: string; age: number };
+ *
+ * const byName: Ordering<Person> = Ordering.combine(
+ *   pipe(Ordering.string, Ordering.using((p: Person) => p.lastName)),
+ *   pipe(Ordering.string, Ordering.using((p: Person) => p.firstName)),
+ * );
+ *
+ * const byAge = pipe(Ordering.number, Ordering.using((p: Person) => p.age));
+ *
+ * pipe(people, Arr.sortWith(byName));
+ * pipe(people, Arr.sortWith(Ordering.reverse(byAge))); // oldest first
+ * pipe(people, Arr.max(byAge)); // Some(oldest person)
+ * ```
+ */
+export type Ordering<A> = (a: A, b: A) => number;
+
+export namespace Ordering {
+  /**
+   * Orders numbers ascending.
+   */
+  export const number: Ordering<number> = (a, b) => a < b ? -1 : a > b ? 1 : 0;
+
+  /**
+   * Orders strings by UTF-16 code unit, like the default `Array.prototype.sort`.
+   * Use `localeString` for human-facing text.
+   */
+  export const string: Ordering<string> = (a, b) => a < b ? -1 : a > b ? 1 : 0;
+
+  /**
+   * Orders strings according to a locale, using `Intl.Collator`. Accepts the same arguments
+   * as the `Intl.Collator` constructor.
+   *
+   * @example
+   * ```ts
+   * pipe(["b", "a", "Ä"], Arr.sortWith(Ordering.localeString("de")));
+   * // ["a", "Ä", "b"]
+   *
+   * Ordering.localeString("en", { numeric: true })("item 2", "item 10"); // negative
+   * ```
+   */
+  export const localeString = (
+    locales?: string | readonly string[],
+    options?: Intl.CollatorOptions,
+  ): Ordering<string> => {
+    const collator = new Intl.Collator(locales as string | string[] | undefined, options);
+    return (a, b) => collator.compare(a, b);
+  };
+
+  /**
+   * Orders dates chronologically.
+   */
+  export const date: Ordering<Date> = (a, b) => number(a.getTime(), b.getTime());
+
+  /**
+   * Inverts an Ordering, turning ascending into descending.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 3, 2], Arr.sortWith(Ordering.reverse(Ordering.number))); // [3, 2, 1]
+   * ```
+   */
+  export const reverse = <A>(ord: Ordering<A>): Ordering<A> => (a, b) => ord(b, a);
+
+  /**
+   * Adapts an Ordering to another type by comparing a projection of the values (often
+   * called `contramap`).
+   *
+   * @example
+   * ```ts
+   * const byAge = pipe(Ordering.number, Ordering.using((p: Person) => p.age));
+   * ```
+   */
+  export const using = <B, A>(f: (b: B) => A) => (ord: Ordering<A>): Ordering<B> => (a, b) =>
+    ord(f(a), f(b));
+
+  /**
+   * Combines several Orderings for tie-breaking: the first one decides, and each following
+   * one is only consulted when all before it are tied.
+   *
+   * @example
+   * ```ts
+   * const byLastThenFirst = Ordering.combine(
+   *   pipe(Ordering.string, Ordering.using((p: Person) => p.lastName)),
+   *   pipe(Ordering.string, Ordering.using((p: Person) => p.firstName)),
+   * );
+   * ```
+   */
+  export const combine = <A>(...orderings: readonly Ordering<A>[]): Ordering<A> => (a, b) => {
+    for (const ord of orderings) {
+      const result = ord(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+
+  /**
+   * Extends an Ordering to `null` and `undefined`, placing them before every other value.
+   *
+   * @example
+   * ```ts
+   * pipe([2, null, 1], Arr.sortWith(Ordering.nullsFirst(Ordering.number))); // [null, 1, 2]
+   * ```
+   */
+  export const nullsFirst = <A>(ord: Ordering<A>): Ordering<A | null | undefined> => (a, b) =>
+    a == null ? (b == null ? 0 : -1) : b == null ? 1 : ord(a, b);
+
+  /**
+   * Extends an Ordering to `null` and `undefined`, placing them after every other value.
+   *
+   * @example
+   * ```ts
+   * pipe([2, null, 1], Arr.sortWith(Ordering.nullsLast(Ordering.number))); // [1, 2, null]
+   * ```
+   */
+  export const nullsLast = <A>(ord: Ordering<A>): Ordering<A | null | undefined> => (a, b) =>
+    a == null ? (b == null ? 0 : 1) : b == null ? -1 : ord(a, b);
+
+  /**
+   * Builds an Ordering for Option. `None` comes before every `Some`; `Some`s are ordered by
+   * their values.
+   */
+  export const option = <A>(ord: Ordering<A>): Ordering<Option<A>> => (a, b) =>
+    Option.isSome(a) ? (Option.isSome(b) ? ord(a.value, b.value) : 1) : (Option.isSome(b) ? -1 : 0);
+
+  /**
+   * Builds an Ordering for Result. Every `Err` comes before every `Ok`; values on the same
+   * side are ordered by that side's Ordering.
+   */
+  export const result =
+    <E, A>(onErr: Ordering<E>, onOk: Ordering<A>): Ordering<Result<E, A>> => (a, b) =>
+      Result.isOk(a)
+        ? (Result.isOk(b) ? onOk(a.value, b.value) : 1)
+        : (Result.isOk(b) ? -1 : onErr(a.error, b.error));
+
+  /**
+   * Restricts a value to the range `[low, high]`.
+   *
+   * @example
+   * ```ts
+   * pipe(15, Ordering.clamp(Ordering.number)(0, 10)); // 10
+   * pipe(-5, Ordering.clamp(Ordering.number)(0, 10)); // 0
+   * ```
+   */
+  export const clamp = <A>(ord: Ordering<A>) => (low: A, high: A) => (value: A): A =>
+    ord(value, low) < 0 ? low : ord(value, high) > 0 ? high : value;
+
+  /**
+   * Returns true if the value lies within `[low, high]`, bounds included.
+   *
+   * @example
+   * ```ts
+   * pipe(5, Ordering.between(Ordering.number)(0, 10)); // true
+   * pipe(deadline, Ordering.between(Ordering.date)(start, end));
+   * ```
+   */
+  export const between = <A>(ord: Ordering<A>) => (low: A, high: A) => (value: A): boolean =>
+    ord(value, low) >= 0 && ord(value, high) <= 0;
+}
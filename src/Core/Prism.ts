@@ -0,0 +1,189 @@
+import type { Iso } from "./Iso.ts";
+import { Option } from "./Option.ts";
+import type { Optional } from "./Optional.ts";
+import type { Refinement } from "./Refinement.ts";
+import { Result } from "./Result.ts";
+
+type Variant<S, K> = Extract<S, { readonly kind: K }>;
+
+/**
+ * Prism<S, A> focuses on one case of a sum type S: the value inside `Some`, the `Ok` branch
+ * of a Result, or one variant of a discriminated union.
+ *
+ * `getOption` returns Some when the structure is in the focused case and None otherwise.
+ * `reverseGet` goes the other way and builds a whole S from an A, which is always possible.
+ *
+ * Compose Prisms with `andThen`, or use one after a Lens or Optional with `Lens.andThen` or
+ * `Optional.andThen` — the result is an Optional, since the case may not match.
+ *
+ * @example
+ * ```ts
+ * type Shape =
+ *   | { kind: "Circle"; radius: number }
+ *   | { kind: "Square"; side: number };
+ *
+ * const circle = Prism.fromKind<Shape>()("Circle");
+ *
+ * pipe(shape, Prism.getOption(circle)); // Some(circle) or None
+ * pipe(shape, Prism.modify(circle)(c => ({ ...c, radius: c.radius * 2 }))); // squares unchanged
+ * ```
+ */
+export type Prism<S, A> = {
+  readonly getOption: (s: S) => Option<A>;
+  readonly reverseGet: (a: A) => S;
+};
+
+export namespace Prism {
+  /**
+   * Constructs a Prism from a partial getter and a builder.
+   *
+   * @example
+   * ```ts
+   * const numeric = Prism.make(
+   *   (s: string) => (/^-?\d+$/.test(s) ? Option.some(Number(s)) : Option.none()),
+   *   (n: number) => String(n),
+   * ); // Prism<string, number>
+   * ```
+   */
+  export const make = <S, A>(
+    getOption: (s: S) => Option<A>,
+    reverseGet: (a: A) => S,
+  ): Prism<S, A> => ({ getOption, reverseGet });
+
+  /**
+   * Creates a Prism from a Refinement: it focuses on the values that pass the check, and
+   * `reverseGet` returns the narrowed value unchanged.
+   *
+   * @example
+   * ```ts
+   * const positive = Prism.fromRefinement(isPositive); // Prism<number, PositiveNumber>
+   * ```
+   */
+  export const fromRefinement = <S, A extends S>(refinement: Refinement<S, A>): Prism<S, A> =>
+    make((s) => (refinement(s) ? Option.some(s) : Option.none()), (a) => a);
+
+  /**
+   * Creates a Prism that focuses on one variant of a union discriminated by a `kind` field.
+   * Call with the union type first, then the kind.
+   *
+   * @example
+   * ```ts
+   * const circle = Prism.fromKind<Shape>()("Circle");
+   * // Prism<Shape, { kind: "Circle"; radius: number }>
+   * ```
+   */
+  export const fromKind =
+    <S extends { readonly kind: string }>() =>
+    <K extends S["kind"]>(kind: K): Prism<S, Variant<S, K>> =>
+      make((s) => (s.kind === kind ? Option.some(s as Variant<S, K>) : Option.none()), (a) => a);
+
+  /**
+   * A Prism that focuses on the value inside a `Some`.
+   *
+   * @example
+   * ```ts
+   * const nickname = pipe(Lens.prop<User>()("nickname"), Lens.andThen(Prism.some<string>()));
+   * // Optional<User, string>
+   * ```
+   */
+  export const some = <A>(): Prism<Option<A>, A> => make((s) => s, Option.some);
+
+  /**
+   * A Prism that focuses on the value inside an `Ok`.
+   *
+   * @example
+   * ```ts
+   * pipe(Result.ok(2), Prism.modify(Prism.ok<string, number>())(n => n * 10)); // Ok(20)
+   * ```
+   */
+  export const ok = <E, A>(): Prism<Result<E, A>, A> =>
+    make((s) => (Result.isOk(s) ? Option.some(s.value) : Option.none()), Result.ok);
+
+  /**
+   * A Prism that focuses on the error inside an `Err`.
+   *
+   * @example
+   * ```ts
+   * pipe(response, Prism.getOption(Prism.err<ApiError, User>())); // Some(error) or None
+   * ```
+   */
+  export const err = <E, A>(): Prism<Result<E, A>, E> =>
+    make((s) => (Result.isErr(s) ? Option.some(s.error) : Option.none()), Result.err);
+
+  /**
+   * Reads the focused value, returning None when the structure is in another case.
+   *
+   * @example
+   * ```ts
+   * pipe(shape, Prism.getOption(circle)); // Some(shape) if it is a circle, None otherwise
+   * ```
+   */
+  export const getOption = <S, A>(prism: Prism<S, A>) => (s: S): Option<A> => prism.getOption(s);
+
+  /**
+   * Builds a whole structure from a focused value.
+   *
+   * @example
+   * ```ts
+   * pipe(42, Prism.reverseGet(Prism.ok<string, number>())); // Ok(42)
+   * ```
+   */
+  export const reverseGet = <S, A>(prism: Prism<S, A>) => (a: A): S => prism.reverseGet(a);
+
+  /**
+   * Applies a function to the focused value when the structure is in the focused case;
+   * returns the structure unchanged otherwise.
+   *
+   * @example
+   * ```ts
+   * pipe(Option.some(2), Prism.modify(Prism.some<number>())(n => n + 1)); // Some(3)
+   * pipe(Option.none(), Prism.modify(Prism.some<number>())(n => n + 1)); // None
+   * ```
+   */
+  export const modify = <S, A>(prism: Prism<S, A>) => (f: (a: A) => A) => (s: S): S => {
+    const val = prism.getOption(s);
+    return val.kind === "None" ? s : prism.reverseGet(f(val.value));
+  };
+
+  /**
+   * Composes two Prisms, or a Prism with an Iso, producing a Prism: focuses through the
+   * outer case, then through the inner one.
+   *
+   * @example
+   * ```ts
+   * const okCircle = pipe(Prism.ok<string, Shape>(), Prism.andThen(circle));
+   * // Prism<Result<string, Shape>, { kind: "Circle"; radius: number }>
+   * ```
+   */
+  export const andThen =
+    <A, B>(inner: Prism<A, B> | Iso<A, B>) => <S>(outer: Prism<S, A>): Prism<S, B> =>
+      make(
+        (s) => {
+          const mid = outer.getOption(s);
+          if (mid.kind === "None") return Option.none();
+          return "getOption" in inner
+            ? inner.getOption(mid.value)
+            : Option.some(inner.get(mid.value));
+        },
+        (b) => outer.reverseGet(inner.reverseGet(b)),
+      );
+
+  /**
+   * Converts a Prism to an Optional, for composing with Optionals and Lenses. Setting a
+   * value through it builds the focused case with `reverseGet` when the value already is
+   * that case, and returns any other case unchanged.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   Prism.ok<string, User>(),
+   *   Prism.toOptional,
+   *   Optional.andThenLens(Lens.prop<User>()("name")),
+   * ); // Optional<Result<string, User>, string>
+   * ```
+   */
+  export const toOptional = <S, A>(prism: Prism<S, A>): Optional<S, A> => ({
+    get: prism.getOption,
+    set: (a) => (s) => Option.isSome(prism.getOption(s)) ? prism.reverseGet(a) : s,
+  });
+}
@@ -0,0 +1,221 @@
+import { Deferred } from "./Deferred.ts";
+import { Result } from "./Result.ts";
+import { Task } from "./Task.ts";
+import type { TaskResult } from "./TaskResult.ts";
+
+/**
+ * Returned by a function wrapped with `RateLimiter.reject` instead of calling it, when the
+ * limit has been reached. `retryAfter` is the time, in milliseconds, until the limiter
+ * expects to allow another call.
+ */
+export type RateLimited = {
+  readonly kind: "RateLimited";
+  readonly retryAfter: number;
+};
+
+/**
+ * Controls how often something may run. Each call takes a permit; when none is left, the
+ * call either waits in line (`RateLimiter.queue`) or fails straight away with a
+ * `RateLimited` error (`RateLimiter.reject`).
+ *
+ * Two policies decide when permits are free:
+ * - `tokenBucket` — allows bursts up to a capacity, then a steady rate.
+ * - `slidingWindow` — allows at most a number of calls in any window of time, matching how
+ *   most API quotas are defined.
+ *
+ * Wrap any number of functions with the same limiter to have them share one quota. Waiting
+ * calls are let through in the order they arrived. To take permits by hand, run `acquire`,
+ * which resolves once a permit is taken, or call `tryAcquire`, which takes one only if it is
+ * free; `retryAfter` is the time, in milliseconds, until one will be.
+ *
+ * @example
+ * ```ts
+ * const quota = RateLimiter.slidingWindow({ limit: 100, window: 60_000 }); // 100 per minute
+ *
+ * const geocode = RateLimiter.queue(quota)(geocodeAddress);
+ * // (address: string) => TaskResult<ApiError, LatLng> — waits for a permit when over quota
+ *
+ * const search = RateLimiter.reject(quota)(searchPlaces);
+ * // (query: string) => TaskResult<ApiError | RateLimited, Place[]> — fails fast instead
+ * ```
+ */
+export type RateLimiter = {
+  readonly acquire: Task<void>;
+  readonly tryAcquire: () => boolean;
+  readonly retryAfter: () => number;
+};
+
+// Internal type — not exported. How a limiter hands out permits: `take` uses up a permit and
+// returns true if one is free; `wait` is the time, in milliseconds, until one will be.
+type Policy = {
+  readonly take: () => boolean;
+  readonly wait: () => number;
+};
+
+// Internal helper — not exported. Builds a RateLimiter from a policy, adding a first-in,
+// first-out line of waiting callers. A single timer wakes the line when the policy expects a
+// permit to be free. A caller that aborts while waiting leaves the line without taking one.
+const fromPolicy = (policy: Policy): RateLimiter => {
+  const waiting: (() => void)[] = [];
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const drain = () => {
+    timerId = undefined;
+    while (waiting.length > 0 && policy.take()) waiting.shift()!();
+    if (waiting.length > 0) timerId = setTimeout(drain, policy.wait());
+  };
+
+  return {
+    acquire: Task.from((signal) =>
+      new Promise<void>((resolve) => {
+        if (signal?.aborted) return;
+        if (waiting.length === 0 && policy.take()) return resolve();
+        const wake = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          waiting.splice(waiting.indexOf(wake), 1);
+          if (waiting.length === 0 && timerId !== undefined) {
+            clearTimeout(timerId);
+            timerId = undefined;
+          }
+        };
+        waiting.push(wake);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        if (timerId === undefined) timerId = setTimeout(drain, policy.wait());
+      })
+    ),
+    tryAcquire: () => waiting.length === 0 && policy.take(),
+    retryAfter: policy.wait,
+  };
+};
+
+export namespace RateLimiter {
+  /**
+   * Creates a token-bucket limiter. The bucket starts full with `capacity` permits, and one
+   * permit is added back every `refillEvery` milliseconds, up to the capacity. Bursts of up
+   * to `capacity` calls run at once; after that, calls run at the refill rate.
+   *
+   * The time is read from `now` (default `Date.now`), so a test can drive the limiter with
+   * a fake clock.
+   *
+   * @example
+   * ```ts
+   * // Bursts of 10, then 5 calls per second
+   * const limiter = RateLimiter.tokenBucket({ capacity: 10, refillEvery: 200 });
+   * ```
+   */
+  export const tokenBucket = (
+    options: { capacity: number; refillEvery: number; now?: () => number },
+  ): RateLimiter => {
+    const now = options.now ?? Date.now;
+    let tokens = options.capacity;
+    let refilledAt = now();
+    const refill = () => {
+      const time = now();
+      tokens = Math.min(options.capacity, tokens + (time - refilledAt) / options.refillEvery);
+      refilledAt = time;
+    };
+    return fromPolicy({
+      take: () => {
+        refill();
+        if (tokens < 1) return false;
+        tokens -= 1;
+        return true;
+      },
+      wait: () => {
+        refill();
+        return tokens >= 1 ? 0 : Math.ceil((1 - tokens) * options.refillEvery);
+      },
+    });
+  };
+
+  /**
+   * Creates a sliding-window limiter: at most `limit` calls may start within any `window`
+   * milliseconds. Unlike a fixed window that resets on the minute, it never lets through
+   * twice the limit around a window boundary.
+   *
+   * The time is read from `now` (default `Date.now`), so a test can drive the limiter with
+   * a fake clock.
+   *
+   * @example
+   * ```ts
+   * const limiter = RateLimiter.slidingWindow({ limit: 100, window: 60_000 }); // 100 per minute
+   * ```
+   */
+  export const slidingWindow = (
+    options: { limit: number; window: number; now?: () => number },
+  ): RateLimiter => {
+    const now = options.now ?? Date.now;
+    let started: readonly number[] = [];
+    const prune = () => {
+      const time = now();
+      started = started.filter((t) => time - t < options.window);
+      return time;
+    };
+    return fromPolicy({
+      take: () => {
+        const time = prune();
+        if (started.length >= options.limit) return false;
+        started = [...started, time];
+        return true;
+      },
+      wait: () => {
+        const time = prune();
+        return started.length < options.limit ? 0 : started[0] + options.window - time;
+      },
+    });
+  };
+
+  /**
+   * Wraps a function returning a Task — or a TaskResult — so that every call waits for a
+   * permit before running. Calls over the limit wait in line and run, in order, as permits
+   * become free. Aborting the signal of a waiting call takes it out of the line.
+   *
+   * @example
+   * ```ts
+   * const geocode = RateLimiter.queue(limiter)(geocodeAddress);
+   *
+   * Task.all(addresses.map(geocode)); // never exceeds the quota, however many addresses
+   * ```
+   */
+  export const queue =
+    (limiter: RateLimiter) =>
+    <Args extends readonly unknown[], A>(f: (...args: Args) => Task<A>) =>
+    (...args: Args): Task<A> => Task.chain(() => f(...args))(limiter.acquire);
+
+  /**
+   * Wraps a function returning a TaskResult so that calls over the limit are not made: they
+   * resolve straight away to `Err(RateLimited)`, which is added to the error type. Calls do
+   * not jump ahead of callers already waiting through `queue` on the same limiter.
+   *
+   * @example
+   * ```ts
+   * const search = RateLimiter.reject(limiter)(searchPlaces);
+   * // (query: string) => TaskResult<ApiError | RateLimited, Place[]>
+   * ```
+   */
+  export const reject =
+    (limiter: RateLimiter) =>
+    <Args extends readonly unknown[], E, A>(f: (...args: Args) => TaskResult<E, A>) =>
+    (...args: Args): TaskResult<E | RateLimited, A> =>
+      Task.from<Result<E | RateLimited, A>>((signal) =>
+        limiter.tryAcquire()
+          ? Deferred.toPromise(f(...args)(signal))
+          : Promise.resolve(Result.err({ kind: "RateLimited", retryAfter: limiter.retryAfter() }))
+      );
+
+  /**
+   * Returns true if an error is the `RateLimited` error returned by a function wrapped with
+   * `reject`.
+   *
+   * @example
+   * ```ts
+   * if (RateLimiter.isRateLimited(error)) showToast(`Try again in ${error.retryAfter}ms`);
+   * ```
+   */
+  export const isRateLimited = (error: unknown): error is RateLimited =>
+    typeof error === "object" && error !== null &&
+    (error as { readonly kind?: unknown }).kind === "RateLimited";
+}
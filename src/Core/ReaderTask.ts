@@ -0,0 +1,182 @@
+import { Reader } from "./Reader.ts";
+import { Task } from "./Task.ts";
+
+/**
+ * An async computation that reads from a shared environment `R` and produces a value `A`.
+ * It combines `Reader` and `Task`: the environment is supplied once at the edge, and nothing
+ * runs until the resulting Task is called.
+ *
+ * Like `Task`, a `ReaderTask` never fails. When failure is possible, use
+ * `ReaderTaskResult<R, E, A>` instead.
+ *
+ * @example
+ * ```ts
+ * type Deps = { http: HttpClient; baseUrl: string };
+ *
+ * const loadGreeting = (name: string): ReaderTask<Deps, string> =>
+ *   pipe(
+ *     ReaderTask.asks((deps: Deps) => deps.baseUrl),
+ *     ReaderTask.chain(url => (deps) => deps.http.getText(`${url}/greet/${name}`)),
+ *   );
+ *
+ * // Inject the dependencies once at the edge, then run the Task
+ * await pipe(loadGreeting("Alice"), ReaderTask.run(deps))();
+ * ```
+ */
+export type ReaderTask<R, A> = (env: R) => Task<A>;
+
+export namespace ReaderTask {
+  /**
+   * Lifts a pure value into a ReaderTask. The environment is ignored.
+   *
+   * @example
+   * ```ts
+   * const always42: ReaderTask<Deps, number> = ReaderTask.resolve(42);
+   * await always42(deps)(); // 42
+   * ```
+   */
+  export const resolve = <R, A>(value: A): ReaderTask<R, A> => (_env) => Task.resolve(value);
+
+  /**
+   * Returns the full environment as the result.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   ReaderTask.ask<Deps>(),
+   *   ReaderTask.map(deps => deps.baseUrl)
+   * );
+   * ```
+   */
+  export const ask = <R>(): ReaderTask<R, R> => (env) => Task.resolve(env);
+
+  /**
+   * Projects a value from the environment using a selector function.
+   *
+   * @example
+   * ```ts
+   * const getBaseUrl: ReaderTask<Deps, string> = ReaderTask.asks(deps => deps.baseUrl);
+   * ```
+   */
+  export const asks = <R, A>(f: (env: R) => A): ReaderTask<R, A> => (env) =>
+    Task.from(() => Promise.resolve(f(env)));
+
+  /**
+   * Lifts a synchronous Reader into a ReaderTask.
+   *
+   * @example
+   * ```ts
+   * const buildUrl: Reader<Deps, string> = deps => `${deps.baseUrl}/users`;
+   * const buildUrlTask: ReaderTask<Deps, string> = ReaderTask.fromReader(buildUrl);
+   * ```
+   */
+  export const fromReader = <R, A>(reader: Reader<R, A>): ReaderTask<R, A> => (env) =>
+    Task.from(() => Promise.resolve(reader(env)));
+
+  /**
+   * Lifts a Task that does not need the environment into a ReaderTask.
+   *
+   * @example
+   * ```ts
+   * const now: ReaderTask<Deps, number> = ReaderTask.fromTask(Task.from(() => clock.now()));
+   * ```
+   */
+  export const fromTask = <R, A>(task: Task<A>): ReaderTask<R, A> => (_env) => task;
+
+  /**
+   * Transforms the value produced by a ReaderTask.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   loadGreeting("Alice"),
+   *   ReaderTask.map(s => s.toUpperCase())
+   * );
+   * ```
+   */
+  export const map =
+    <R, A, B>(f: (a: A) => B) => (data: ReaderTask<R, A>): ReaderTask<R, B> => (env) =>
+      Task.map(f)(data(env));
+
+  /**
+   * Sequences two ReaderTasks. Both see the same environment.
+   * The output of the first is passed to `f`, which returns the next ReaderTask.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   loadUserId,
+   *   ReaderTask.chain(id => loadPreferences(id))
+   * );
+   * ```
+   */
+  export const chain =
+    <R, A, B>(f: (a: A) => ReaderTask<R, B>) =>
+    (data: ReaderTask<R, A>): ReaderTask<R, B> =>
+    (env) => Task.chain((a: A) => f(a)(env))(data(env));
+
+  /**
+   * Applies a function wrapped in a ReaderTask to a value wrapped in a ReaderTask.
+   * Both see the same environment and their Tasks run in parallel.
+   *
+   * @example
+   * ```ts
+   * const add = (a: number) => (b: number) => a + b;
+   * pipe(
+   *   ReaderTask.resolve<Deps, typeof add>(add),
+   *   ReaderTask.ap(ReaderTask.asks(deps => deps.retries)),
+   *   ReaderTask.ap(ReaderTask.resolve(1))
+   * );
+   * ```
+   */
+  export const ap =
+    <R, A>(arg: ReaderTask<R, A>) =>
+    <B>(data: ReaderTask<R, (a: A) => B>): ReaderTask<R, B> =>
+    (env) => Task.ap(arg(env))(data(env));
+
+  /**
+   * Executes a side effect on the produced value without changing the ReaderTask.
+   * Useful for logging or debugging.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   loadGreeting("Alice"),
+   *   ReaderTask.tap(s => console.log("Greeting:", s))
+   * );
+   * ```
+   */
+  export const tap =
+    <R, A>(f: (a: A) => void) => (data: ReaderTask<R, A>): ReaderTask<R, A> => (env) =>
+      Task.tap(f)(data(env));
+
+  /**
+   * Adapts a ReaderTask to work with a different (typically wider) environment
+   * by transforming the environment before passing it on.
+   *
+   * @example
+   * ```ts
+   * type AppEnv = { deps: Deps; logger: Logger };
+   *
+   * const loadFromApp: ReaderTask<AppEnv, string> = pipe(
+   *   loadGreeting("Alice"),
+   *   ReaderTask.local((env: AppEnv) => env.deps)
+   * );
+   * ```
+   */
+  export const local =
+    <R2, R>(f: (env: R2) => R) => <A>(data: ReaderTask<R, A>): ReaderTask<R2, A> => (env) =>
+      data(f(env));
+
+  /**
+   * Supplies the environment, producing a Task that is ready to run.
+   * Use this at the edge of your program where the environment is available.
+   *
+   * @example
+   * ```ts
+   * const task = pipe(loadGreeting("Alice"), ReaderTask.run(deps));
+   * await task(); // "Hello, Alice"
+   * ```
+   */
+  export const run = <R>(env: R) => <A>(data: ReaderTask<R, A>): Task<A> => data(env);
+}
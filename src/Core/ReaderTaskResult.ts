@@ -0,0 +1,254 @@
+import { Reader } from "./Reader.ts";
+import { ReaderTask } from "./ReaderTask.ts";
+import { Result } from "./Result.ts";
+import { Task } from "./Task.ts";
+import { TaskResult } from "./TaskResult.ts";
+
+/**
+ * An async computation that reads from a shared environment `R` and either fails with an
+ * error `E` or succeeds with a value `A`. It combines `Reader` and `TaskResult`, which makes
+ * it the natural shape for a service layer: dependencies are supplied once at the edge, and
+ * every step has typed error handling.
+ *
+ * @example
+ * ```ts
+ * type Deps = { db: Database; mailer: Mailer };
+ *
+ * const findUser = (id: string): ReaderTaskResult<Deps, NotFound, User> =>
+ *   (deps) => deps.db.users.find(id); // TaskResult<NotFound, User>
+ *
+ * const sendWelcome = (user: User): ReaderTaskResult<Deps, MailError, void> =>
+ *   (deps) => deps.mailer.send(user.email, "Welcome!");
+ *
+ * const onboard = (id: string) =>
+ *   pipe(
+ *     findUser(id),
+ *     ReaderTaskResult.chain<Deps, NotFound | MailError, User, void>(sendWelcome),
+ *   );
+ *
+ * await pipe(onboard("42"), ReaderTaskResult.run(deps))();
+ * ```
+ */
+export type ReaderTaskResult<R, E, A> = (env: R) => TaskResult<E, A>;
+
+export namespace ReaderTaskResult {
+  /**
+   * Wraps a value in a successful ReaderTaskResult. The environment is ignored.
+   */
+  export const ok = <R, E, A>(value: A): ReaderTaskResult<R, E, A> => (_env) =>
+    TaskResult.ok(value);
+
+  /**
+   * Creates a failed ReaderTaskResult with the given error. The environment is ignored.
+   */
+  export const err = <R, E, A>(error: E): ReaderTaskResult<R, E, A> => (_env) =>
+    TaskResult.err(error);
+
+  /**
+   * Returns the full environment as the success value.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   ReaderTaskResult.ask<Deps, DbError>(),
+   *   ReaderTaskResult.chain(deps => ReaderTaskResult.fromTaskResult(deps.db.ping()))
+   * );
+   * ```
+   */
+  export const ask = <R, E>(): ReaderTaskResult<R, E, R> => (env) => TaskResult.ok(env);
+
+  /**
+   * Projects a success value from the environment using a selector function.
+   *
+   * @example
+   * ```ts
+   * const getDb = ReaderTaskResult.asks((deps: Deps) => deps.db);
+   * ```
+   */
+  export const asks = <R, E, A>(f: (env: R) => A): ReaderTaskResult<R, E, A> => (env) =>
+    Task.from(() => Promise.resolve(Result.ok(f(env))));
+
+  /**
+   * Creates a ReaderTaskResult from a function of the environment that may throw or reject.
+   * Catches any errors and transforms them using the onError function. The function also
+   * receives the `AbortSignal` the Task was run with.
+   *
+   * @example
+   * ```ts
+   * const loadUser = (id: string): ReaderTaskResult<Deps, string, User> =>
+   *   ReaderTaskResult.tryCatch(
+   *     (deps, signal) => deps.http.get(`/users/${id}`, { signal }),
+   *     (e) => `Failed to load user: ${e}`
+   *   );
+   * ```
+   */
+  export const tryCatch = <R, E, A>(
+    f: (env: R, signal?: AbortSignal) => Promise<A>,
+    onError: (e: unknown) => E,
+  ): ReaderTaskResult<R, E, A> =>
+  (env) => TaskResult.tryCatch((signal) => f(env, signal), onError);
+
+  /**
+   * Lifts a Result into a ReaderTaskResult. The environment is ignored.
+   */
+  export const fromResult = <R, E, A>(result: Result<E, A>): ReaderTaskResult<R, E, A> => (_env) =>
+    Task.resolve(result);
+
+  /**
+   * Lifts a synchronous Reader into a successful ReaderTaskResult.
+   *
+   * @example
+   * ```ts
+   * const buildUrl: Reader<Deps, string> = deps => `${deps.baseUrl}/users`;
+   * ReaderTaskResult.fromReader<Deps, HttpError, string>(buildUrl);
+   * ```
+   */
+  export const fromReader = <R, E, A>(reader: Reader<R, A>): ReaderTaskResult<R, E, A> => (env) =>
+    Task.from(() => Promise.resolve(Result.ok(reader(env))));
+
+  /**
+   * Lifts a Task into a successful ReaderTaskResult. The environment is ignored.
+   */
+  export const fromTask = <R, E, A>(task: Task<A>): ReaderTaskResult<R, E, A> => (_env) =>
+    Task.map(Result.ok)(task);
+
+  /**
+   * Lifts a ReaderTask into a successful ReaderTaskResult.
+   */
+  export const fromReaderTask =
+    <R, E, A>(readerTask: ReaderTask<R, A>): ReaderTaskResult<R, E, A> => (env) =>
+      Task.map(Result.ok)(readerTask(env));
+
+  /**
+   * Lifts a TaskResult that does not need the environment into a ReaderTaskResult.
+   *
+   * @example
+   * ```ts
+   * const fetchConfig: TaskResult<string, Config> = ...;
+   * const fromEnv: ReaderTaskResult<Deps, string, Config> =
+   *   ReaderTaskResult.fromTaskResult(fetchConfig);
+   * ```
+   */
+  export const fromTaskResult =
+    <R, E, A>(taskResult: TaskResult<E, A>): ReaderTaskResult<R, E, A> => (_env) => taskResult;
+
+  /**
+   * Transforms the success value inside a ReaderTaskResult.
+   */
+  export const map =
+    <R, E, A, B>(f: (a: A) => B) =>
+    (data: ReaderTaskResult<R, E, A>): ReaderTaskResult<R, E, B> =>
+    (env) => TaskResult.map<E, A, B>(f)(data(env));
+
+  /**
+   * Transforms the error value inside a ReaderTaskResult.
+   */
+  export const mapError =
+    <R, E, F, A>(f: (e: E) => F) =>
+    (data: ReaderTaskResult<R, E, A>): ReaderTaskResult<R, F, A> =>
+    (env) => TaskResult.mapError<E, F, A>(f)(data(env));
+
+  /**
+   * Chains ReaderTaskResult computations. If the first succeeds, passes the value to f.
+   * If the first fails, propagates the error. Both see the same environment.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   findUser("42"),
+   *   ReaderTaskResult.chain(user => loadOrders(user.id))
+   * );
+   * ```
+   */
+  export const chain =
+    <R, E, A, B>(f: (a: A) => ReaderTaskResult<R, E, B>) =>
+    (data: ReaderTaskResult<R, E, A>): ReaderTaskResult<R, E, B> =>
+    (env) => TaskResult.chain<E, A, B>((a) => f(a)(env))(data(env));
+
+  /**
+   * Recovers from an error by providing a fallback ReaderTaskResult, which sees the same
+   * environment. The fallback can produce a different success type, widening the result to
+   * `ReaderTaskResult<R, E, A | B>`.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   loadFromCache(key),
+   *   ReaderTaskResult.recover(() => loadFromDb(key))
+   * );
+   * ```
+   */
+  export const recover =
+    <R, E, A, B>(fallback: (e: E) => ReaderTaskResult<R, E, B>) =>
+    (data: ReaderTaskResult<R, E, A>): ReaderTaskResult<R, E, A | B> =>
+    (env) => TaskResult.recover<E, A, B>((e) => fallback(e)(env))(data(env));
+
+  /**
+   * Executes a side effect on the success value without changing the ReaderTaskResult.
+   * Useful for logging or debugging.
+   */
+  export const tap =
+    <R, E, A>(f: (a: A) => void) =>
+    (data: ReaderTaskResult<R, E, A>): ReaderTaskResult<R, E, A> =>
+    (env) => TaskResult.tap<E, A>(f)(data(env));
+
+  /**
+   * Pattern matches on a ReaderTaskResult, returning a ReaderTask of the result.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   findUser("42"),
+   *   ReaderTaskResult.match({
+   *     ok: user => `Hello, ${user.name}`,
+   *     err: () => "User not found",
+   *   })
+   * );
+   * ```
+   */
+  export const match =
+    <R, E, A, B>(cases: { err: (e: E) => B; ok: (a: A) => B }) =>
+    (data: ReaderTaskResult<R, E, A>): ReaderTask<R, B> =>
+    (env) => TaskResult.match<E, A, B>(cases)(data(env));
+
+  /**
+   * Returns the success value or a default value if the ReaderTaskResult is an error.
+   * The default can be a different type, widening the result to `ReaderTask<R, A | B>`.
+   */
+  export const getOrElse =
+    <R, E, A, B>(defaultValue: () => B) =>
+    (data: ReaderTaskResult<R, E, A>): ReaderTask<R, A | B> =>
+    (env) => TaskResult.getOrElse<E, A, B>(defaultValue)(data(env));
+
+  /**
+   * Adapts a ReaderTaskResult to work with a different (typically wider) environment
+   * by transforming the environment before passing it on.
+   *
+   * @example
+   * ```ts
+   * type AppEnv = { deps: Deps; logger: Logger };
+   *
+   * pipe(
+   *   findUser("42"),
+   *   ReaderTaskResult.local((env: AppEnv) => env.deps)
+   * ); // ReaderTaskResult<AppEnv, NotFound, User>
+   * ```
+   */
+  export const local =
+    <R2, R>(f: (env: R2) => R) =>
+    <E, A>(data: ReaderTaskResult<R, E, A>): ReaderTaskResult<R2, E, A> =>
+    (env) => data(f(env));
+
+  /**
+   * Supplies the environment, producing a TaskResult that is ready to run.
+   * Use this at the edge of your program where the environment is available.
+   *
+   * @example
+   * ```ts
+   * const task = pipe(onboard("42"), ReaderTaskResult.run(deps));
+   * await task(); // Ok(...) or Err(...)
+   * ```
+   */
+  export const run = <R>(env: R) => <E, A>(data: ReaderTaskResult<R, E, A>): TaskResult<E, A> =>
+    data(env);
+}
@@ -1,3 +1,5 @@
+import { Combinable } from "./Combinable.ts";
+import { Equality } from "./Equality.ts";
 import { Option } from "./Option.ts";
 
 /**
@@ -186,6 +188,36 @@ export namespace Rec {
       ...other,
     });
 
+  /**
+   * Merges two records, combining the values under keys present in both with a Combinable
+   * (the piped record's value first). Keys present in only one record keep their value.
+   *
+   * @example
+   * ```ts
+   * pipe({ a: 1, b: 2 }, Rec.mergeWith(Combinable.sum)({ b: 10, c: 3 })); // { a: 1, b: 12, c: 3 }
+   * ```
+   */
+  export const mergeWith =
+    <A>(combinable: Combinable<A>) =>
+    (other: Readonly<Record<string, A>>) =>
+    (data: Readonly<Record<string, A>>): Readonly<Record<string, A>> =>
+      Combinable.record(combinable).combine(data, other);
+
+  /**
+   * Returns true if both records have the same keys and the values under each key are equal
+   * according to the given Equality.
+   *
+   * @example
+   * ```ts
+   * pipe({ a: 1, b: 2 }, Rec.equals(Equality.number)({ a: 1, b: 2 })); // true
+   * pipe({ a: 1 }, Rec.equals(Equality.number)({ a: 1, b: 2 })); // false
+   * ```
+   */
+  export const equals =
+    <A>(eq: Equality<A>) =>
+    (other: Readonly<Record<string, A>>) =>
+    (data: Readonly<Record<string, A>>): boolean => Equality.record(eq)(data, other);
+
   /**
    * Returns true if the record has no keys.
    */
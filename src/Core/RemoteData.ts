@@ -143,6 +143,100 @@ export namespace RemoteData {
       return notAsked();
     };
 
+  /**
+   * Lifts a plain two-argument function to work on RemoteData. Follows the same rules as
+   * `ap`: a Failure wins, then Loading, then NotAsked; only two Successes produce a Success.
+   *
+   * @example
+   * ```ts
+   * const dashboard = RemoteData.lift2((user: User, stats: Stats) => ({ user, stats }));
+   * dashboard(userData, statsData); // Loading until both have arrived
+   * ```
+   */
+  export const lift2 =
+    <A, B, C>(f: (a: A, b: B) => C) =>
+    <E>(first: RemoteData<E, A>, second: RemoteData<E, B>): RemoteData<E, C> =>
+      ap<E, B>(second)(map((a: A) => (b: B) => f(a, b))(first));
+
+  /**
+   * Lifts a plain three-argument function to work on RemoteData. Follows the same rules as
+   * `ap`: a Failure wins, then Loading, then NotAsked; only three Successes produce a Success.
+   *
+   * @example
+   * ```ts
+   * const page = RemoteData.lift3(
+   *   (user: User, stats: Stats, feed: Feed) => ({ user, stats, feed }),
+   * );
+   * page(userData, statsData, feedData); // Success only once all three have arrived
+   * ```
+   */
+  export const lift3 = <A, B, C, D>(f: (a: A, b: B, c: C) => D) =>
+  <E>(
+    first: RemoteData<E, A>,
+    second: RemoteData<E, B>,
+    third: RemoteData<E, C>,
+  ): RemoteData<E, D> =>
+    ap<E, C>(third)(ap<E, B>(second)(map((a: A) => (b: B) => (c: C) => f(a, b, c))(first)));
+
+  /**
+   * Collects a tuple of RemoteData into a RemoteData of a tuple. The first Failure wins;
+   * otherwise the result is Loading if any element is Loading, NotAsked if any is NotAsked,
+   * and Success with every value when all have succeeded.
+   *
+   * @example
+   * ```ts
+   * RemoteData.all([userData, statsData] as const);
+   * // RemoteData<ApiError, readonly [User, Stats]>
+   * ```
+   */
+  export const all = <T extends readonly RemoteData<unknown, unknown>[]>(
+    data: T,
+  ): RemoteData<
+    T[number] extends RemoteData<infer E, unknown> ? E : never,
+    { readonly [K in keyof T]: T[K] extends RemoteData<unknown, infer A> ? A : never }
+  > => {
+    const values: unknown[] = [];
+    let pending: NotAsked | Loading | undefined;
+    let failure: Failure<unknown> | undefined;
+    for (const rd of data) {
+      if (isFailure(rd)) {
+        failure = rd;
+        break;
+      }
+      if (isSuccess(rd)) values.push(rd.value);
+      else if (pending === undefined || isLoading(rd)) pending = rd;
+    }
+    return (failure ?? pending ?? success(values)) as RemoteData<
+      T[number] extends RemoteData<infer E, unknown> ? E : never,
+      { readonly [K in keyof T]: T[K] extends RemoteData<unknown, infer A> ? A : never }
+    >;
+  };
+
+  /**
+   * Collects a record of RemoteData into a RemoteData of a record with the same keys, using
+   * the same rules as `all`.
+   *
+   * @example
+   * ```ts
+   * RemoteData.struct({ user: userData, stats: statsData });
+   * // RemoteData<ApiError, { user: User; stats: Stats }>
+   * ```
+   */
+  export const struct = <R extends Readonly<Record<string, RemoteData<unknown, unknown>>>>(
+    data: R,
+  ): RemoteData<
+    R[keyof R] extends RemoteData<infer E, unknown> ? E : never,
+    { readonly [K in keyof R]: R[K] extends RemoteData<unknown, infer A> ? A : never }
+  > => {
+    const keys = Object.keys(data);
+    return map((values: readonly unknown[]) =>
+      Object.fromEntries(keys.map((key, i) => [key, values[i]]))
+    )(all(keys.map((key) => data[key]))) as RemoteData<
+      R[keyof R] extends RemoteData<infer E, unknown> ? E : never,
+      { readonly [K in keyof R]: R[K] extends RemoteData<unknown, infer A> ? A : never }
+    >;
+  };
+
   /**
    * Extracts the value from a RemoteData by providing handlers for all four cases.
    *
@@ -0,0 +1,353 @@
+import { isNonEmptyList, NonEmptyList } from "../Types/NonEmptyList.ts";
+import { Deferred } from "./Deferred.ts";
+import { Option } from "./Option.ts";
+import { Result } from "./Result.ts";
+import { Task } from "./Task.ts";
+import { TaskResult } from "./TaskResult.ts";
+
+/**
+ * Reported by `Resource.use` when releasing one or more resources fails.
+ * `primary` holds the error that ended the acquire or use step, if any; `errors` holds the
+ * release errors in the order the releases ran; `thrown` holds the exception, if the work or
+ * a release threw instead of returning a result.
+ */
+export type ReleaseError<E> = {
+  readonly kind: "ReleaseError";
+  readonly primary: Option<E>;
+  readonly errors: NonEmptyList<E>;
+  readonly thrown: Option<unknown>;
+};
+
+/**
+ * Reported by `Resource.use` when acquiring, the work or a release threw instead of returning
+ * a result, and every release succeeded. `primary` holds the error that ended the acquire or
+ * use step, if any; `thrown` holds the exception.
+ */
+export type Thrown<E> = {
+  readonly kind: "Thrown";
+  readonly primary: Option<E>;
+  readonly thrown: unknown;
+};
+
+// Internal type — not exported. What running the releases produced: the errors they
+// returned, in order, and the first exception one of them threw, if any.
+type Released<E> = {
+  readonly errors: readonly E[];
+  readonly thrown: Option<unknown>;
+};
+
+// Internal type — not exported. The outcome of acquiring a Resource. When acquisition
+// succeeds it carries the value and a Task that releases everything acquired so far, in
+// reverse order. When it fails or throws, anything acquired before the failure has already
+// been released and its release errors travel along with the primary error or exception.
+type Allocation<E, A> =
+  | { readonly kind: "Acquired"; readonly value: A; readonly release: Task<Released<E>> }
+  | { readonly kind: "Failed"; readonly error: E; readonly releaseErrors: readonly E[] }
+  | { readonly kind: "Threw"; readonly thrown: unknown; readonly releaseErrors: readonly E[] };
+
+/**
+ * A value that has to be acquired before use and released afterwards — a file handle, a
+ * database connection, a lock. Acquisition and release are both `TaskResult`s, and nothing
+ * is acquired until the Resource is used.
+ *
+ * `Resource.use` guarantees that everything acquired is released once the work is done,
+ * in reverse acquisition order, whether the work succeeds, fails with an `Err`, or throws.
+ * Release errors are never swallowed: they are reported alongside the primary error in a
+ * `ReleaseError`. Exceptions are never rethrown: they are reported in a `Thrown`.
+ *
+ * @example
+ * ```ts
+ * const connection = Resource.make(
+ *   TaskResult.tryCatch(() => pool.connect(), toDbError),
+ *   (conn) => TaskResult.tryCatch(() => conn.close(), toDbError),
+ * );
+ *
+ * const users = pipe(
+ *   connection,
+ *   Resource.use((conn) => TaskResult.tryCatch(() => conn.query("SELECT * FROM users"), toDbError)),
+ * ); // TaskResult<DbError | ReleaseError<DbError> | Thrown<DbError>, User[]>
+ * ```
+ */
+export type Resource<E, A> = {
+  readonly allocate: Task<Allocation<E, A>>;
+};
+
+// Internal helper — not exported. Runs `first`, then `second`, concatenating their release
+// errors and keeping the first exception either of them threw. Releases never throw out of
+// here, so `second` always runs and no release error is lost.
+const releaseInOrder = <E>(first: Task<Released<E>>, second: Task<Released<E>>) =>
+  Task.from<Released<E>>(async () => {
+    const a = await Deferred.toPromise(first());
+    const b = await Deferred.toPromise(second());
+    return {
+      errors: [...a.errors, ...b.errors],
+      thrown: Option.isSome(a.thrown) ? a.thrown : b.thrown,
+    };
+  });
+
+// Internal helper — not exported. Turns the error of a failed step and the errors of the
+// releases that followed it into the error reported by `use`.
+const toError = <E>(primary: E, releaseErrors: readonly E[]): E | ReleaseError<E> =>
+  isNonEmptyList(releaseErrors)
+    ? {
+      kind: "ReleaseError",
+      primary: Option.some(primary),
+      errors: releaseErrors,
+      thrown: Option.none(),
+    }
+    : primary;
+
+export namespace Resource {
+  /**
+   * Creates a Resource from an acquire step and a release function. `release` receives the
+   * acquired value and runs exactly once per successful acquisition. It is not passed the
+   * caller's `AbortSignal`, so cleanup still runs when the work is cancelled.
+   *
+   * @example
+   * ```ts
+   * const file = (path: string) =>
+   *   Resource.make(
+   *     TaskResult.tryCatch(() => Deno.open(path), String),
+   *     (handle) => TaskResult.tryCatch(async () => handle.close(), String),
+   *   );
+   * ```
+   */
+  export const make = <E, A>(
+    acquire: TaskResult<E, A>,
+    release: (a: A) => TaskResult<E, void>,
+  ): Resource<E, A> => ({
+    allocate: Task.map((result: Result<E, A>): Allocation<E, A> =>
+      Result.isOk(result)
+        ? {
+          kind: "Acquired",
+          value: result.value,
+          release: Task.from(async (): Promise<Released<E>> => {
+            try {
+              const released = await Deferred.toPromise(release(result.value)());
+              return {
+                errors: Result.isOk(released) ? [] : [released.error],
+                thrown: Option.none(),
+              };
+            } catch (e) {
+              return { errors: [], thrown: Option.some(e) };
+            }
+          }),
+        }
+        : { kind: "Failed", error: result.error, releaseErrors: [] }
+    )(acquire),
+  });
+
+  /**
+   * Wraps a value that needs no cleanup in a Resource.
+   */
+  export const of = <E, A>(value: A): Resource<E, A> => ({
+    allocate: Task.resolve({
+      kind: "Acquired",
+      value,
+      release: Task.resolve({ errors: [], thrown: Option.none() }),
+    }),
+  });
+
+  /**
+   * Acquires the Resource, runs `f` with the acquired value, and releases the Resource
+   * afterwards — after an `Ok`, after an `Err`, and when `f` throws.
+   *
+   * When every release succeeds, the result is exactly what acquire or `f` produced. When any
+   * release fails, the result is an `Err` holding a `ReleaseError` with the primary error (if
+   * there was one) alongside the release errors — and, if something threw, the exception in
+   * `thrown`. When something threw and every release succeeded, the result is an `Err` holding
+   * a `Thrown`. The Task never rejects.
+   *
+   * @example
+   * ```ts
+   * const contents = pipe(
+   *   file("config.json"),
+   *   Resource.use((handle) => readAll(handle)),
+   * );
+   *
+   * const result = await contents();
+   * if (Result.isErr(result) && Resource.isReleaseError(result.error)) {
+   *   console.warn("Cleanup failed:", result.error.errors);
+   * } else if (Result.isErr(result) && Resource.isThrown(result.error)) {
+   *   console.error("Reading threw:", result.error.thrown);
+   * }
+   * ```
+   */
+  export const use =
+    <E, A, B>(f: (a: A) => TaskResult<E, B>) =>
+    (resource: Resource<E, A>): TaskResult<E | ReleaseError<E> | Thrown<E>, B> =>
+      Task.from(async (signal) => {
+        const allocation = await Deferred.toPromise(resource.allocate(signal));
+        if (allocation.kind === "Failed") {
+          return Result.err(toError(allocation.error, allocation.releaseErrors));
+        }
+        if (allocation.kind === "Threw") {
+          if (!isNonEmptyList(allocation.releaseErrors)) {
+            return Result.err({
+              kind: "Thrown",
+              primary: Option.none(),
+              thrown: allocation.thrown,
+            });
+          }
+          return Result.err({
+            kind: "ReleaseError",
+            primary: Option.none(),
+            errors: allocation.releaseErrors,
+            thrown: Option.some(allocation.thrown),
+          });
+        }
+        // Ok with what the work returned, or Err with what it threw.
+        let outcome: Result<unknown, Result<E, B>>;
+        try {
+          outcome = Result.ok(await Deferred.toPromise(f(allocation.value)(signal)));
+        } catch (e) {
+          outcome = Result.err(e);
+        }
+        const released = await Deferred.toPromise(allocation.release());
+        if (isNonEmptyList(released.errors)) {
+          return Result.err({
+            kind: "ReleaseError",
+            primary: Result.isOk(outcome) && Result.isErr(outcome.value)
+              ? Option.some(outcome.value.error)
+              : Option.none(),
+            errors: released.errors,
+            thrown: Result.isErr(outcome) ? Option.some(outcome.error) : released.thrown,
+          });
+        }
+        if (Result.isErr(outcome)) {
+          return Result.err({ kind: "Thrown", primary: Option.none(), thrown: outcome.error });
+        }
+        if (Option.isSome(released.thrown)) {
+          return Result.err({
+            kind: "Thrown",
+            primary: Result.isErr(outcome.value) ? Option.some(outcome.value.error) : Option.none(),
+            thrown: released.thrown.value,
+          });
+        }
+        return outcome.value;
+      });
+
+  /**
+   * Transforms the acquired value. Release still receives the original value. If `f` throws,
+   * the Resource is released straight away.
+   *
+   * @example
+   * ```ts
+   * pipe(connection, Resource.map((conn) => conn.users));
+   * ```
+   */
+  export const map = <E, A, B>(f: (a: A) => B) => (data: Resource<E, A>): Resource<E, B> => ({
+    allocate: Task.from(async (signal): Promise<Allocation<E, B>> => {
+      const allocation = await Deferred.toPromise(data.allocate(signal));
+      if (allocation.kind !== "Acquired") return allocation;
+      try {
+        return { ...allocation, value: f(allocation.value) };
+      } catch (e) {
+        const released = await Deferred.toPromise(allocation.release());
+        return { kind: "Threw", thrown: e, releaseErrors: released.errors };
+      }
+    }),
+  });
+
+  /**
+   * Acquires a second Resource that depends on the first. The second is released before
+   * the first. If acquiring the second fails or throws, the first is released straight away.
+   *
+   * @example
+   * ```ts
+   * const transaction = pipe(
+   *   connection,
+   *   Resource.chain((conn) =>
+   *     Resource.make(
+   *       TaskResult.tryCatch(() => conn.begin(), toDbError),
+   *       (tx) => TaskResult.tryCatch(() => tx.rollbackIfOpen(), toDbError),
+   *     )
+   *   ),
+   * );
+   * ```
+   */
+  export const chain =
+    <E, A, B>(f: (a: A) => Resource<E, B>) => (data: Resource<E, A>): Resource<E, B> => ({
+      allocate: Task.from(async (signal): Promise<Allocation<E, B>> => {
+        const first = await Deferred.toPromise(data.allocate(signal));
+        if (first.kind !== "Acquired") return first;
+        let second: Allocation<E, B>;
+        try {
+          second = await Deferred.toPromise(f(first.value).allocate(signal));
+        } catch (e) {
+          second = { kind: "Threw", thrown: e, releaseErrors: [] };
+        }
+        if (second.kind === "Acquired") {
+          return { ...second, release: releaseInOrder(second.release, first.release) };
+        }
+        const released = await Deferred.toPromise(first.release());
+        const releaseErrors = [...second.releaseErrors, ...released.errors];
+        if (second.kind === "Threw") return { ...second, releaseErrors };
+        return Option.isSome(released.thrown)
+          ? { kind: "Threw", thrown: released.thrown.value, releaseErrors }
+          : { ...second, releaseErrors };
+      }),
+    });
+
+  /**
+   * Acquires two Resources one after the other and pairs their values. They are released
+   * in reverse order: `second` first, then `first`.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   file("input.txt"),
+   *   Resource.both(file("output.txt")),
+   *   Resource.use(([input, output]) => copy(input, output)),
+   * );
+   * ```
+   */
+  export const both =
+    <E, B>(second: Resource<E, B>) => <A>(first: Resource<E, A>): Resource<E, readonly [A, B]> =>
+      chain<E, A, readonly [A, B]>((a) => map<E, B, readonly [A, B]>((b) => [a, b])(second))(first);
+
+  /**
+   * Acquires several Resources in order and collects their values into a tuple. They are
+   * released in reverse order. If one fails to acquire, those acquired before it are released.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   Resource.all([connection, file("audit.log"), lock("users")] as const),
+   *   Resource.use(([conn, log, _lock]) => migrate(conn, log)),
+   * );
+   * ```
+   */
+  export const all = <T extends readonly Resource<unknown, unknown>[]>(
+    resources: T,
+  ): Resource<
+    T[number] extends Resource<infer E, unknown> ? E : never,
+    { readonly [K in keyof T]: T[K] extends Resource<unknown, infer A> ? A : never }
+  > =>
+    (resources as readonly Resource<unknown, unknown>[]).reduce(
+      (acc: Resource<unknown, readonly unknown[]>, resource) =>
+        chain<unknown, readonly unknown[], readonly unknown[]>((values) =>
+          map<unknown, unknown, readonly unknown[]>((value) => [...values, value])(resource)
+        )(acc),
+      of<unknown, readonly unknown[]>([]),
+    ) as Resource<
+      T[number] extends Resource<infer E, unknown> ? E : never,
+      { readonly [K in keyof T]: T[K] extends Resource<unknown, infer A> ? A : never }
+    >;
+
+  /**
+   * Type guard that checks whether an error reported by `use` is a `ReleaseError`.
+   */
+  export const isReleaseError = <E>(
+    error: E | ReleaseError<E> | Thrown<E>,
+  ): error is ReleaseError<E> =>
+    typeof error === "object" && error !== null && "kind" in error &&
+    (error as { kind: unknown }).kind === "ReleaseError";
+
+  /**
+   * Type guard that checks whether an error reported by `use` is a `Thrown`.
+   */
+  export const isThrown = <E>(error: E | ReleaseError<E> | Thrown<E>): error is Thrown<E> =>
+    typeof error === "object" && error !== null && "kind" in error &&
+    (error as { kind: unknown }).kind === "Thrown";
+}
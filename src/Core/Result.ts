@@ -22,6 +22,13 @@ export type Result<E, A> = Ok<A> | Err<E>;
 export type Ok<A> = WithKind<"Ok"> & WithValue<A>;
 export type Err<E> = WithKind<"Error"> & WithError<E>;
 
+// Internal helper — not exported. The `$` handed to a `Result.gen` block: returns the value
+// of an Ok straight away and yields an Err so the block can be stopped.
+const bindResult = function* <E, A>(data: Result<E, A>): Generator<Err<E>, A, unknown> {
+  if (data.kind === "Ok") return data.value;
+  return (yield data) as A;
+};
+
 export namespace Result {
   /**
    * Creates a successful Result with the given value.
@@ -219,4 +226,129 @@ export namespace Result {
    */
   export const ap = <E, A>(arg: Result<E, A>) => <B>(data: Result<E, (a: A) => B>): Result<E, B> =>
     isOk(data) && isOk(arg) ? ok(data.value(arg.value)) : isErr(data) ? data : (arg as Err<E>);
+
+  /**
+   * Lifts a plain two-argument function to work on Results. Returns the first Err if either
+   * argument is an Err.
+   *
+   * @example
+   * ```ts
+   * const total = Result.lift2((price: number, qty: number) => price * qty);
+   * total(parsePrice(rawPrice), parseQty(rawQty)); // Result<ParseError, number>
+   * ```
+   */
+  export const lift2 =
+    <A, B, C>(f: (a: A, b: B) => C) =>
+    <E>(first: Result<E, A>, second: Result<E, B>): Result<E, C> =>
+      isErr(first) ? first : isErr(second) ? second : ok(f(first.value, second.value));
+
+  /**
+   * Lifts a plain three-argument function to work on Results. Returns the first Err if any
+   * argument is an Err.
+   *
+   * @example
+   * ```ts
+   * const toDate = Result.lift3((y: number, m: number, d: number) => new Date(y, m - 1, d));
+   * toDate(parseYear(y), parseMonth(m), parseDay(d)); // Result<ParseError, Date>
+   * ```
+   */
+  export const lift3 =
+    <A, B, C, D>(f: (a: A, b: B, c: C) => D) =>
+    <E>(first: Result<E, A>, second: Result<E, B>, third: Result<E, C>): Result<E, D> =>
+      isErr(first)
+        ? first
+        : isErr(second)
+        ? second
+        : isErr(third)
+        ? third
+        : ok(f(first.value, second.value, third.value));
+
+  /**
+   * Collects a tuple of Results into a Result of a tuple. Returns the first Err in order if
+   * there is one. The error type is the union of the elements' error types.
+   *
+   * @example
+   * ```ts
+   * Result.all([parseId(rawId), parseQty(rawQty)] as const);
+   * // Result<ParseError, readonly [number, number]>
+   * ```
+   */
+  export const all = <T extends readonly Result<unknown, unknown>[]>(
+    data: T,
+  ): Result<
+    T[number] extends Result<infer E, unknown> ? E : never,
+    { readonly [K in keyof T]: T[K] extends Result<unknown, infer A> ? A : never }
+  > => {
+    const values: unknown[] = [];
+    let failed: Err<unknown> | undefined;
+    for (const result of data) {
+      if (isErr(result)) {
+        failed = result;
+        break;
+      }
+      values.push(result.value);
+    }
+    return (failed ?? ok(values)) as Result<
+      T[number] extends Result<infer E, unknown> ? E : never,
+      { readonly [K in keyof T]: T[K] extends Result<unknown, infer A> ? A : never }
+    >;
+  };
+
+  /**
+   * Collects a record of Results into a Result of a record with the same keys. Returns the
+   * first Err in key order if there is one. The error type is the union of the fields' error
+   * types.
+   *
+   * @example
+   * ```ts
+   * Result.struct({ user: decodeUser(body.user), prefs: decodePrefs(body.prefs) });
+   * // Result<DecodeError, { user: User; prefs: Prefs }>
+   * ```
+   */
+  export const struct = <R extends Readonly<Record<string, Result<unknown, unknown>>>>(
+    data: R,
+  ): Result<
+    R[keyof R] extends Result<infer E, unknown> ? E : never,
+    { readonly [K in keyof R]: R[K] extends Result<unknown, infer A> ? A : never }
+  > => {
+    const values: Record<string, unknown> = {};
+    let failed: Err<unknown> | undefined;
+    for (const key of Object.keys(data)) {
+      const result = data[key];
+      if (isErr(result)) {
+        failed = result;
+        break;
+      }
+      values[key] = result.value;
+    }
+    return (failed ?? ok(values)) as Result<
+      R[keyof R] extends Result<infer E, unknown> ? E : never,
+      { readonly [K in keyof R]: R[K] extends Result<unknown, infer A> ? A : never }
+    >;
+  };
+
+  /**
+   * Runs a generator block in which `yield* $(result)` unwraps an Ok, so a sequence of
+   * dependent steps reads top to bottom instead of as nested `chain` callbacks.
+   * The first Err stops the block and becomes the result; otherwise the returned value
+   * is wrapped in Ok. The error type is the union of every error the block can stop on.
+   *
+   * @example
+   * ```ts
+   * const order = Result.gen(function* ($) {
+   *   const id = yield* $(parseId(raw));          // Result<ParseError, number>
+   *   const record = yield* $(db.find(id));       // Result<NotFoundError, Order>
+   *   return record.total;
+   * }); // Result<ParseError | NotFoundError, number>
+   * ```
+   */
+  export const gen = <Y extends Err<unknown>, A>(
+    f: ($: <E, B>(data: Result<E, B>) => Generator<Err<E>, B, unknown>) => Generator<Y, A>,
+  ): Result<Y extends Err<infer E> ? E : never, A> => {
+    const it = f(bindResult);
+    const step = it.next();
+    if (step.done) return ok(step.value);
+    it.return(undefined as A);
+    return step.value as Err<Y extends Err<infer E> ? E : never>;
+  };
 }
@@ -0,0 +1,183 @@
+import { Option } from "./Option.ts";
+
+/**
+ * What a Schedule is told after each run: how many runs have finished, how long it has been
+ * since the first one started, and the run's outcome — the error for `retry`, the value for
+ * `repeat`.
+ */
+export type ScheduleStep<I> = {
+  readonly attempt: number;
+  readonly elapsed: number;
+  readonly input: I;
+};
+
+/**
+ * A policy for running something again. After each run, a Schedule is given a
+ * `ScheduleStep` and returns Some(delay) to run again after `delay` milliseconds, or None to
+ * stop.
+ *
+ * One Schedule drives every loop in the library: `TaskResult.retry` consults it after each
+ * `Err` (with the error as input), and `Task.repeat`, `Task.repeatUntil` and
+ * `TaskResult.repeat` after each run (with the value as input).
+ *
+ * `fixed`, `exponential` and `fibonacci` set the delay and never stop on their own;
+ * `recurs`, `upTo` and `whileInput` decide when to stop. Combine them with `intersect`
+ * (run again only while both agree) and `union` (run again while either does).
+ *
+ * @example
+ * ```ts
+ * const policy = pipe(
+ *   Schedule.exponential(100),
+ *   Schedule.jittered,
+ *   Schedule.maxDelay(5_000),
+ *   Schedule.intersect(Schedule.recurs(5)),
+ *   Schedule.intersect(Schedule.upTo(30_000)),
+ * ); // up to 5 retries, backing off from ~100ms, never waiting more than 5s, within 30s
+ *
+ * pipe(fetchUser(id), TaskResult.retry({ schedule: policy }));
+ * ```
+ */
+export type Schedule<I = unknown> = (step: ScheduleStep<I>) => Option<number>;
+
+export namespace Schedule {
+  /**
+   * Runs again forever, always waiting the same time.
+   *
+   * @example
+   * ```ts
+   * pipe(pollQueue, Task.repeat({ schedule: Schedule.fixed(1_000) })); // every second
+   * ```
+   */
+  export const fixed = (ms: number): Schedule => () => Option.some(ms);
+
+  /**
+   * Runs again forever, multiplying the delay by `factor` (2 by default) after each run:
+   * `base`, `base * factor`, `base * factor²`, ...
+   *
+   * @example
+   * ```ts
+   * Schedule.exponential(100); // 100ms, 200ms, 400ms, 800ms, ...
+   * ```
+   */
+  export const exponential = (base: number, factor = 2): Schedule => ({ attempt }) =>
+    Option.some(base * Math.pow(factor, attempt - 1));
+
+  /**
+   * Runs again forever, growing the delay along the Fibonacci sequence: `base`, `base`,
+   * `2 * base`, `3 * base`, `5 * base`, ... Grows more gently than `exponential`.
+   *
+   * @example
+   * ```ts
+   * Schedule.fibonacci(100); // 100ms, 100ms, 200ms, 300ms, 500ms, ...
+   * ```
+   */
+  export const fibonacci = (base: number): Schedule => ({ attempt }) => {
+    let [a, b] = [base, base];
+    for (let i = 1; i < attempt; i++) [a, b] = [b, a + b];
+    return Option.some(a);
+  };
+
+  /**
+   * Runs again, without waiting, at most `times` times after the first run. Intersect it
+   * with a delay to limit the number of retries or repeats.
+   *
+   * @example
+   * ```ts
+   * pipe(Schedule.fixed(500), Schedule.intersect(Schedule.recurs(3))); // 3 retries, 500ms apart
+   * ```
+   */
+  export const recurs = (times: number): Schedule => ({ attempt }) =>
+    attempt <= times ? Option.some(0) : Option.none();
+
+  /**
+   * Runs again, without waiting, while less than `ms` milliseconds have passed since the
+   * first run started. Intersect it with a delay to give a loop a time budget.
+   *
+   * @example
+   * ```ts
+   * pipe(Schedule.exponential(100), Schedule.intersect(Schedule.upTo(10_000)));
+   * ```
+   */
+  export const upTo = (ms: number): Schedule => ({ elapsed }) =>
+    elapsed < ms ? Option.some(0) : Option.none();
+
+  /**
+   * Runs again, without waiting, while the outcome of the last run passes the predicate —
+   * the error when retrying, the value when repeating.
+   *
+   * @example
+   * ```ts
+   * // Retry only network errors
+   * Schedule.whileInput((e: ApiError) => e.kind === "Network");
+   *
+   * // Poll until the job has finished
+   * Schedule.whileInput((job: Job) => job.status === "running");
+   * ```
+   */
+  export const whileInput = <I>(predicate: (input: I) => boolean): Schedule<I> => ({ input }) =>
+    predicate(input) ? Option.some(0) : Option.none();
+
+  /**
+   * Randomises each delay to between half and one and a half times its value, so that many
+   * clients retrying the same failure do not all run again at the same moment.
+   *
+   * @example
+   * ```ts
+   * pipe(Schedule.exponential(100), Schedule.jittered); // ~100ms, ~200ms, ~400ms, ...
+   * ```
+   */
+  export const jittered = <I>(schedule: Schedule<I>): Schedule<I> => (step) =>
+    Option.map((ms: number) => ms * (0.5 + Math.random()))(schedule(step));
+
+  /**
+   * Caps each delay at `ms` milliseconds, without changing when the schedule stops.
+   *
+   * @example
+   * ```ts
+   * pipe(Schedule.exponential(100), Schedule.maxDelay(2_000)); // ..., 1600ms, 2000ms, 2000ms
+   * ```
+   */
+  export const maxDelay = (ms: number) => <I>(schedule: Schedule<I>): Schedule<I> => (step) =>
+    Option.map((delay: number) => Math.min(delay, ms))(schedule(step));
+
+  /**
+   * Combines two schedules so that the loop runs again only while both would, waiting the
+   * longer of their two delays.
+   *
+   * @example
+   * ```ts
+   * pipe(Schedule.exponential(100), Schedule.intersect(Schedule.recurs(5)));
+   * // exponential backoff, at most 5 retries
+   * ```
+   */
+  export const intersect =
+    <J>(that: Schedule<J>) => <I>(schedule: Schedule<I>): Schedule<I & J> => (step) => {
+      const a = schedule(step);
+      const b = that(step);
+      return Option.isSome(a) && Option.isSome(b)
+        ? Option.some(Math.max(a.value, b.value))
+        : Option.none();
+    };
+
+  /**
+   * Combines two schedules so that the loop runs again while either would, waiting the
+   * shorter of their delays.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   Schedule.whileInput((e: ApiError) => e.kind === "RateLimited"),
+   *   Schedule.intersect(Schedule.fixed(1_000)),
+   *   Schedule.union(Schedule.recurs(2)),
+   * ); // keep waiting out rate limits, but retry anything else twice straight away
+   * ```
+   */
+  export const union =
+    <J>(that: Schedule<J>) => <I>(schedule: Schedule<I>): Schedule<I & J> => (step) => {
+      const a = schedule(step);
+      const b = that(step);
+      if (Option.isNone(a)) return b;
+      if (Option.isNone(b)) return a;
+      return Option.some(Math.min(a.value, b.value));
+    };
+}
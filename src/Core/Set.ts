@@ -0,0 +1,208 @@
+import { Ordering } from "./Ordering.ts";
+
+/**
+ * The built-in `Set`. Re-exported as a type so that importing the `Set` namespace does not
+ * hide the global `Set` type.
+ */
+export type Set<A> = globalThis.Set<A>;
+
+/**
+ * Functional utilities for `Set`. Every function is data-last, never mutates its input, and
+ * returns a new set. Membership uses the same rules as the built-in `Set`: primitives by
+ * value, objects by reference.
+ *
+ * Importing `Set` shadows the global `Set` constructor in that module; create sets with
+ * `new globalThis.Set()` there, or with `Arr.toSet`.
+ *
+ * @example
+ * ```ts
+ * const granted = pipe(rolePermissions, Set.union(userPermissions));
+ * const missing = pipe(requiredPermissions, Set.difference(granted));
+ *
+ * Set.isEmpty(missing) ? allow() : deny(pipe(missing, Set.toSortedArray(Ordering.string)));
+ * ```
+ */
+export namespace Set {
+  /**
+   * Returns true if the value is in the set.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set(["read", "write"]), Set.member("read")); // true
+   * ```
+   */
+  export const member = <A>(value: A) => (data: ReadonlySet<A>): boolean => data.has(value);
+
+  /**
+   * Returns true if the set has no elements.
+   */
+  export const isEmpty = <A>(data: ReadonlySet<A>): boolean => data.size === 0;
+
+  /**
+   * Returns a set that also contains the value. Returns the same set if the value is
+   * already present.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set(["read"]), Set.insert("write")); // Set { "read", "write" }
+   * ```
+   */
+  export const insert = <A>(value: A) => (data: ReadonlySet<A>): ReadonlySet<A> =>
+    data.has(value) ? data : new globalThis.Set(data).add(value);
+
+  /**
+   * Returns a set without the value. Returns the same set if the value is not present.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set(["read", "write"]), Set.remove("write")); // Set { "read" }
+   * ```
+   */
+  export const remove = <A>(value: A) => (data: ReadonlySet<A>): ReadonlySet<A> => {
+    if (!data.has(value)) return data;
+    const result = new globalThis.Set(data);
+    result.delete(value);
+    return result;
+  };
+
+  /**
+   * Removes the value if it is present, and adds it otherwise.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set(["a"]), Set.toggle("a")); // Set {}
+   * pipe(new globalThis.Set(["a"]), Set.toggle("b")); // Set { "a", "b" }
+   * ```
+   */
+  export const toggle = <A>(value: A) => (data: ReadonlySet<A>): ReadonlySet<A> =>
+    data.has(value) ? remove(value)(data) : insert(value)(data);
+
+  /**
+   * Returns the elements present in either set.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set([1, 2]), Set.union(new globalThis.Set([2, 3]))); // Set { 1, 2, 3 }
+   * ```
+   */
+  export const union = <A>(other: ReadonlySet<A>) => (data: ReadonlySet<A>): ReadonlySet<A> => {
+    const result = new globalThis.Set(data);
+    for (const a of other) result.add(a);
+    return result;
+  };
+
+  /**
+   * Returns the elements present in both sets.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set([1, 2]), Set.intersection(new globalThis.Set([2, 3]))); // Set { 2 }
+   * ```
+   */
+  export const intersection =
+    <A>(other: ReadonlySet<A>) => (data: ReadonlySet<A>): ReadonlySet<A> =>
+      filter((a: A) => other.has(a))(data);
+
+  /**
+   * Returns the elements of the set that are not in `other`.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set([1, 2]), Set.difference(new globalThis.Set([2, 3]))); // Set { 1 }
+   * ```
+   */
+  export const difference = <A>(other: ReadonlySet<A>) => (data: ReadonlySet<A>): ReadonlySet<A> =>
+    filter((a: A) => !other.has(a))(data);
+
+  /**
+   * Returns the elements present in exactly one of the two sets.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set([1, 2]), Set.symmetricDifference(new globalThis.Set([2, 3])));
+   * // Set { 1, 3 }
+   * ```
+   */
+  export const symmetricDifference =
+    <A>(other: ReadonlySet<A>) => (data: ReadonlySet<A>): ReadonlySet<A> => {
+      const result = new globalThis.Set<A>();
+      for (const a of data) if (!other.has(a)) result.add(a);
+      for (const a of other) if (!data.has(a)) result.add(a);
+      return result;
+    };
+
+  /**
+   * Returns true if every element of the set is also in `other`.
+   *
+   * @example
+   * ```ts
+   * pipe(required, Set.isSubset(granted)); // true when every required permission is granted
+   * ```
+   */
+  export const isSubset = <A>(other: ReadonlySet<A>) => (data: ReadonlySet<A>): boolean => {
+    if (data.size > other.size) return false;
+    for (const a of data) if (!other.has(a)) return false;
+    return true;
+  };
+
+  /**
+   * Transforms each element. Elements that map to the same value are merged, so the result
+   * may be smaller than the input.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set(["a", "A"]), Set.map(s => s.toLowerCase())); // Set { "a" }
+   * ```
+   */
+  export const map = <A, B>(f: (a: A) => B) => (data: ReadonlySet<A>): ReadonlySet<B> => {
+    const result = new globalThis.Set<B>();
+    for (const a of data) result.add(f(a));
+    return result;
+  };
+
+  /**
+   * Keeps the elements that satisfy the predicate.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set([1, 2, 3]), Set.filter(n => n > 1)); // Set { 2, 3 }
+   * ```
+   */
+  export const filter =
+    <A>(predicate: (a: A) => boolean) => (data: ReadonlySet<A>): ReadonlySet<A> => {
+      const result = new globalThis.Set<A>();
+      for (const a of data) if (predicate(a)) result.add(a);
+      return result;
+    };
+
+  /**
+   * Splits a set into the elements that satisfy the predicate and those that don't.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set([1, 2, 3, 4]), Set.partition(n => n % 2 === 0));
+   * // [Set { 2, 4 }, Set { 1, 3 }]
+   * ```
+   */
+  export const partition =
+    <A>(predicate: (a: A) => boolean) =>
+    (data: ReadonlySet<A>): readonly [ReadonlySet<A>, ReadonlySet<A>] => {
+      const pass = new globalThis.Set<A>();
+      const fail = new globalThis.Set<A>();
+      for (const a of data) (predicate(a) ? pass : fail).add(a);
+      return [pass, fail];
+    };
+
+  /**
+   * Returns the elements as an array sorted by the given Ordering. Sets have no meaningful
+   * order of their own, so a sorted array is the stable way to display or compare them.
+   *
+   * @example
+   * ```ts
+   * pipe(new globalThis.Set(["b", "c", "a"]), Set.toSortedArray(Ordering.string));
+   * // ["a", "b", "c"]
+   * ```
+   */
+  export const toSortedArray = <A>(ord: Ordering<A>) => (data: ReadonlySet<A>): readonly A[] =>
+    [...data].sort(ord);
+}
@@ -0,0 +1,233 @@
+import { isNonEmptyList } from "../Types/NonEmptyList.ts";
+import { Result } from "./Result.ts";
+import { Validation } from "./Validation.ts";
+
+/**
+ * A validation error tagged with the key of the field that produced it, as reported by
+ * `Struct.traverseValidation`.
+ */
+export type FieldError<K, E> = {
+  readonly key: K;
+  readonly error: E;
+};
+
+type Transformations<A> = { readonly [K in keyof A]?: (value: A[K]) => unknown };
+
+type Validators<A, F> = { readonly [K in keyof A]?: (value: A[K]) => F };
+
+type Evolved<A, F> = {
+  [K in keyof A]: K extends keyof F ? F[K] extends (value: never) => infer B ? B : A[K] : A[K];
+};
+
+type Traversed<A, F> = {
+  [K in keyof A]: K extends keyof F
+    ? F[K] extends (value: never) => Result<unknown, infer B> | Validation<unknown, infer B> ? B
+    : A[K]
+    : A[K];
+};
+
+type ResultErrors<F> = {
+  readonly [K in keyof F]?: F[K] extends (value: never) => Result<infer E, unknown> ? E : never;
+};
+
+type ValidationErrors<F> = {
+  [K in keyof F]: F[K] extends (value: never) => Validation<infer E, unknown> ? FieldError<K, E>
+    : never;
+}[keyof F];
+
+type Renamed<A, M> = { [K in keyof A as K extends keyof M ? M[K] & PropertyKey : K]: A[K] };
+
+/**
+ * Field-level utilities for plain objects whose fields have different types — domain
+ * objects like `User` or `Order` — where `Rec` would collapse every value to one type.
+ * Every function keeps the per-field types: the output type is computed from the input type
+ * and the functions given for each field.
+ *
+ * `evolve`, `traverseResult` and `traverseValidation` infer each field's type from the
+ * object that `pipe` passes to them, so use them inside a pipeline.
+ *
+ * @example
+ * ```ts
+ * const normalised = pipe(
+ *   form,
+ *   Struct.omit("confirmPassword"),
+ *   Struct.evolve({ name: s => s.trim(), email: s => s.toLowerCase() }),
+ *   Struct.rename({ name: "fullName" }),
+ * ); // { fullName: string; email: string; password: string }
+ * ```
+ */
+export namespace Struct {
+  /**
+   * Transforms individual fields, each with its own function. Fields without a function are
+   * kept as they are. The output type follows each function's return type.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   { name: " Alice ", age: 30, admin: false },
+   *   Struct.evolve({ name: s => s.trim(), age: n => String(n) }),
+   * ); // { name: "Alice", age: "30", admin: false }
+   * ```
+   */
+  export const evolve =
+    <A, F extends Transformations<A>>(transformations: F) => (data: A): Evolved<A, F> => {
+      const result = { ...data } as Record<PropertyKey, unknown>;
+      for (const key of Object.keys(transformations) as (keyof A & string)[]) {
+        const f = transformations[key];
+        if (f !== undefined) result[key] = f(data[key]);
+      }
+      return result as Evolved<A, F>;
+    };
+
+  /**
+   * Keeps only the given fields. Picking a field the object does not have is a type error.
+   *
+   * @example
+   * ```ts
+   * pipe(user, Struct.pick("id", "email")); // { id: string; email: string }
+   * ```
+   */
+  export const pick =
+    <K extends PropertyKey>(...keys: readonly K[]) =>
+    <A>(data: A & { readonly [P in Exclude<K, keyof A>]: never }): Pick<A, K & keyof A> => {
+      const result: Record<PropertyKey, unknown> = {};
+      for (const key of keys) {
+        if (Object.prototype.hasOwnProperty.call(data, key)) {
+          result[key] = (data as Record<PropertyKey, unknown>)[key];
+        }
+      }
+      return result as Pick<A, K & keyof A>;
+    };
+
+  /**
+   * Removes the given fields. Omitting a field the object does not have is a type error.
+   *
+   * @example
+   * ```ts
+   * pipe(user, Struct.omit("passwordHash")); // the user without its password hash
+   * ```
+   */
+  export const omit =
+    <K extends PropertyKey>(...keys: readonly K[]) =>
+    <A>(data: A & { readonly [P in Exclude<K, keyof A>]: never }): Omit<A, K> => {
+      const omitted = new globalThis.Set<PropertyKey>(keys);
+      const result: Record<PropertyKey, unknown> = {};
+      for (const key of Object.keys(data as object)) {
+        if (!omitted.has(key)) result[key] = (data as Record<PropertyKey, unknown>)[key];
+      }
+      return result as Omit<A, K>;
+    };
+
+  /**
+   * Renames fields according to a mapping from old key to new key, keeping their values and
+   * types. Renaming a field the object does not have is a type error.
+   *
+   * @example
+   * ```ts
+   * pipe({ id: 1, name: "Alice" }, Struct.rename({ name: "fullName" }));
+   * // { id: 1, fullName: "Alice" }
+   * ```
+   */
+  export const rename =
+    <N extends string, M extends Readonly<Record<string, N>>>(mapping: M) =>
+    <A>(data: A & { readonly [P in Exclude<keyof M, keyof A>]: never }): Renamed<A, M> => {
+      const result: Record<PropertyKey, unknown> = {};
+      for (const key of Object.keys(data as object)) {
+        const target = Object.prototype.hasOwnProperty.call(mapping, key) ? mapping[key] : key;
+        result[target] = (data as Record<PropertyKey, unknown>)[key];
+      }
+      return result as Renamed<A, M>;
+    };
+
+  /**
+   * Applies the same function to every field, also passing the key. The result has the same
+   * keys, each holding the function's return type.
+   *
+   * @example
+   * ```ts
+   * pipe({ width: 1.234, height: 5.678 }, Struct.mapFields((n: number) => n.toFixed(1)));
+   * // { width: "1.2", height: "5.7" }
+   *
+   * pipe(settings, Struct.mapFields((value, key) => `${key}=${value}`));
+   * ```
+   */
+  export const mapFields =
+    <V, B>(f: (value: V, key: string) => B) =>
+    <A extends { readonly [K in keyof A]: V }>(data: A): { readonly [K in keyof A]: B } => {
+      const result: Record<string, B> = {};
+      for (const key of Object.keys(data) as (keyof A & string)[]) {
+        result[key] = f(data[key], key);
+      }
+      return result as { readonly [K in keyof A]: B };
+    };
+
+  /**
+   * Checks individual fields with functions returning a Result. Fields without a function
+   * are kept as they are. Every field is checked: if all pass, returns Ok with the checked
+   * values; otherwise returns Err with a record of the errors, keyed by field.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   { email: "alice@example.com", age: -1 },
+   *   Struct.traverseResult({ email: parseEmail, age: parseAge }),
+   * ); // Err({ age: "must be positive" })
+   * ```
+   */
+  export const traverseResult = <A, F extends Validators<A, Result<unknown, unknown>>>(
+    validators: F,
+  ) =>
+  (data: A): Result<ResultErrors<F>, Traversed<A, F>> => {
+    const values = { ...data } as Record<PropertyKey, unknown>;
+    const errors: Record<PropertyKey, unknown> = {};
+    let failed = false;
+    for (const key of Object.keys(validators) as (keyof A & string)[]) {
+      const f = validators[key];
+      if (f === undefined) continue;
+      const result = f(data[key]);
+      if (Result.isOk(result)) {
+        values[key] = result.value;
+      } else {
+        errors[key] = result.error;
+        failed = true;
+      }
+    }
+    return failed ? Result.err(errors as ResultErrors<F>) : Result.ok(values as Traversed<A, F>);
+  };
+
+  /**
+   * Checks individual fields with functions returning a Validation. Fields without a
+   * function are kept as they are. Every field is checked: if all pass, returns Valid with
+   * the checked values; otherwise returns Invalid with every error, each tagged with the key
+   * of the field it came from.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   form,
+   *   Struct.traverseValidation({ name: validateName, password: validatePassword }),
+   * );
+   * // Invalid([{ key: "password", error: "too short" }, { key: "password", error: "no digit" }])
+   * ```
+   */
+  export const traverseValidation = <A, F extends Validators<A, Validation<unknown, unknown>>>(
+    validators: F,
+  ) =>
+  (data: A): Validation<ValidationErrors<F>, Traversed<A, F>> => {
+    const values = { ...data } as Record<PropertyKey, unknown>;
+    const errors: FieldError<string, unknown>[] = [];
+    for (const key of Object.keys(validators) as (keyof A & string)[]) {
+      const f = validators[key];
+      if (f === undefined) continue;
+      const validation = f(data[key]);
+      if (Validation.isValid(validation)) {
+        values[key] = validation.value;
+      } else {
+        for (const error of validation.errors) errors.push({ key, error });
+      }
+    }
+    return (isNonEmptyList(errors)
+      ? Validation.invalidAll(errors)
+      : Validation.valid(values)) as Validation<ValidationErrors<F>, Traversed<A, F>>;
+  };
+}
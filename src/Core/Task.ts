@@ -1,5 +1,8 @@
 import { Deferred } from "./Deferred.ts";
+import { linkedController } from "./InternalAbort.ts";
+import { Lazy } from "./Lazy.ts";
 import { Result } from "./Result.ts";
+import { Schedule } from "./Schedule.ts";
 
 /**
  * A lazy async computation that always resolves.
@@ -25,6 +28,19 @@ import { Result } from "./Result.ts";
  * const p: Promise<number> = Deferred.toPromise(task());
  * ```
  *
+ * **Cancellation:**
+ *
+ * A Task optionally receives an `AbortSignal`. Combinators thread the signal through to
+ * every Task they run, and `race`, `timeout`, `delay` and the repeat family abort or clear
+ * the work they no longer need. Cancellation is cooperative: a Task built with `Task.from`
+ * receives the signal and decides how to honour it. Once aborted, a Task may never resolve —
+ * whoever aborted it is expected to have stopped waiting for its result.
+ * ```ts
+ * const controller = new AbortController();
+ * const value = task(controller.signal);
+ * controller.abort(); // in-flight work is told to stop
+ * ```
+ *
  * @example
  * ```ts
  * const getTimestamp: Task<number> = Task.resolve(Date.now());
@@ -39,12 +55,79 @@ import { Result } from "./Result.ts";
  * const result = await formatted();
  * ```
  */
-export type Task<A> = () => Deferred<A>;
+export type Task<A> = (signal?: AbortSignal) => Deferred<A>;
+
+/**
+ * A function returning Tasks whose results are cached, as created by `Task.cached` and
+ * `TaskResult.cached`. Call it like the original function; use `invalidate` to drop the
+ * cached result for one key, and `clear` to drop every cached result.
+ */
+export type CachedTask<Args extends readonly unknown[], A, K> = {
+  (...args: Args): Task<A>;
+  readonly invalidate: (key: K) => void;
+  readonly clear: () => void;
+};
 
 // Internal helper — not exported. Runs a Task and converts the result to a Promise
 // so that combinators can use Promise chaining (.then, Promise.all, Promise.race, etc.)
 // internally without leaking that primitive through the public API.
-const toPromise = <A>(task: Task<A>): Promise<A> => Deferred.toPromise(task());
+const toPromise = <A>(task: Task<A>, signal?: AbortSignal): Promise<A> =>
+  Deferred.toPromise(task(signal));
+
+// Internal helper — not exported. The `$` handed to a `Task.gen` block: yields the Task so
+// the block's driver can run it and resume the block with the resolved value.
+const bindTask = function* <A>(task: Task<A>): Generator<Task<A>, A, unknown> {
+  return (yield task) as A;
+};
+
+// Internal helper — not exported. Waits for the given time unless the signal aborts first,
+// in which case the timer is cleared and the returned Promise never settles.
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) return;
+    const timerId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => clearTimeout(timerId);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Internal helper — not exported. Follows a Promise shared by several callers on behalf of
+// one of them: settles with it, unless that caller's signal aborts first, in which case it
+// never settles. The shared Promise itself is left running for the others.
+const unlessAborted = <A>(shared: Promise<A>, signal?: AbortSignal): Promise<A> =>
+  signal === undefined ? shared : new Promise<A>((resolve, reject) => {
+    shared.then(
+      (a) => {
+        if (!signal.aborted) resolve(a);
+      },
+      (error) => {
+        if (!signal.aborted) reject(error);
+      },
+    );
+  });
+
+// Internal helper — not exported. Runs a Task, then runs it again for as long as the schedule
+// allows, waiting the delay it asks for in between. `done` can end the loop early on a value.
+// Resolves with the last value.
+const runScheduled = <A>(
+  task: Task<A>,
+  schedule: Schedule<A>,
+  done: (a: A) => boolean,
+  signal?: AbortSignal,
+): Promise<A> => {
+  const start = Date.now();
+  const run = (attempt: number): Promise<A> =>
+    toPromise(task, signal).then((a) => {
+      if (done(a)) return a;
+      const next = schedule({ attempt, elapsed: Date.now() - start, input: a });
+      if (next.kind === "None") return a;
+      const wait = next.value > 0 ? sleep(next.value, signal) : Promise.resolve();
+      return wait.then(() => run(attempt + 1));
+    });
+  return run(1);
+};
 
 export namespace Task {
   /**
@@ -61,13 +144,40 @@ export namespace Task {
 
   /**
    * Creates a Task from a function that returns a Promise.
+   * The function receives the `AbortSignal` the Task was run with, if any.
    *
    * @example
    * ```ts
    * const getTimestamp = Task.from(() => Promise.resolve(Date.now()));
+   *
+   * const wait = (ms: number): Task<void> =>
+   *   Task.from((signal) =>
+   *     new Promise((resolve) => {
+   *       const id = setTimeout(resolve, ms);
+   *       signal?.addEventListener("abort", () => clearTimeout(id));
+   *     })
+   *   );
    * ```
    */
-  export const from = <A>(f: () => Promise<A>): Task<A> => () => Deferred.fromPromise(f());
+  export const from = <A>(f: (signal?: AbortSignal) => Promise<A>): Task<A> => (signal) =>
+    Deferred.fromPromise(f(signal));
+
+  /**
+   * Creates a Task from a Lazy. The Lazy is forced when the Task runs, not when the Task is
+   * created, and its cached value is reused by every later run.
+   *
+   * @example
+   * ```ts
+   * const config = Lazy.defer(() => parseConfig(rawConfig));
+   *
+   * pipe(
+   *   Task.fromLazy(config),
+   *   Task.chain(c => connect(c.database)),
+   * ); // parses the config only when the Task runs
+   * ```
+   */
+  export const fromLazy = <A>(data: Lazy<A>): Task<A> => () =>
+    Deferred.fromPromise(Promise.resolve(Lazy.force(data)));
 
   /**
    * Transforms the value inside a Task.
@@ -81,7 +191,7 @@ export namespace Task {
    * ```
    */
   export const map = <A, B>(f: (a: A) => B) => (data: Task<A>): Task<B> =>
-    from(() => toPromise(data).then(f));
+    from((signal) => toPromise(data, signal).then(f));
 
   /**
    * Chains Task computations. Passes the resolved value of the first Task to f.
@@ -99,7 +209,7 @@ export namespace Task {
    * ```
    */
   export const chain = <A, B>(f: (a: A) => Task<B>) => (data: Task<A>): Task<B> =>
-    from(() => toPromise(data).then((a) => toPromise(f(a))));
+    from((signal) => toPromise(data, signal).then((a) => toPromise(f(a), signal)));
 
   /**
    * Applies a function wrapped in a Task to a value wrapped in a Task.
@@ -116,13 +226,45 @@ export namespace Task {
    * ```
    */
   export const ap = <A>(arg: Task<A>) => <B>(data: Task<(a: A) => B>): Task<B> =>
-    from(() =>
+    from((signal) =>
       Promise.all([
-        toPromise(data),
-        toPromise(arg),
+        toPromise(data, signal),
+        toPromise(arg, signal),
       ]).then(([f, a]) => f(a))
     );
 
+  /**
+   * Lifts a plain two-argument function to work on Tasks. Both Tasks run in parallel.
+   *
+   * @example
+   * ```ts
+   * const render = Task.lift2((user: User, theme: Theme) => renderPage(user, theme));
+   * render(loadUser, loadTheme)(); // Deferred<Page>
+   * ```
+   */
+  export const lift2 =
+    <A, B, C>(f: (a: A, b: B) => C) => (first: Task<A>, second: Task<B>): Task<C> =>
+      from((signal) =>
+        Promise.all([toPromise(first, signal), toPromise(second, signal)]).then(([a, b]) => f(a, b))
+      );
+
+  /**
+   * Lifts a plain three-argument function to work on Tasks. All three Tasks run in parallel.
+   *
+   * @example
+   * ```ts
+   * const render = Task.lift3(renderPage);
+   * render(loadUser, loadTheme, loadLocale)(); // Deferred<Page>
+   * ```
+   */
+  export const lift3 =
+    <A, B, C, D>(f: (a: A, b: B, c: C) => D) =>
+    (first: Task<A>, second: Task<B>, third: Task<C>): Task<D> =>
+      from((signal) =>
+        Promise.all([toPromise(first, signal), toPromise(second, signal), toPromise(third, signal)])
+          .then(([a, b, c]) => f(a, b, c))
+      );
+
   /**
    * Executes a side effect on the value without changing the Task.
    * Useful for logging or debugging.
@@ -137,8 +279,8 @@ export namespace Task {
    * ```
    */
   export const tap = <A>(f: (a: A) => void) => (data: Task<A>): Task<A> =>
-    from(() =>
-      toPromise(data).then((a) => {
+    from((signal) =>
+      toPromise(data, signal).then((a) => {
         f(a);
         return a;
       })
@@ -157,17 +299,78 @@ export namespace Task {
     tasks: T,
   ): Task<{ [K in keyof T]: T[K] extends Task<infer A> ? A : never }> =>
     from(
-      () =>
-        Promise.all(tasks.map((t) => toPromise(t))) as Promise<
+      (signal) =>
+        Promise.all(tasks.map((t) => toPromise(t, signal))) as Promise<
           {
             [K in keyof T]: T[K] extends Task<infer A> ? A : never;
           }
         >,
     );
 
+  /**
+   * Runs a record of Tasks in parallel and collects their results into a record with the
+   * same keys.
+   *
+   * @example
+   * ```ts
+   * Task.struct({ config: loadConfig, locale: detectLocale })();
+   * // Deferred<{ config: Config; locale: string }>
+   * ```
+   */
+  export const struct = <R extends Readonly<Record<string, Task<unknown>>>>(
+    tasks: R,
+  ): Task<{ readonly [K in keyof R]: R[K] extends Task<infer A> ? A : never }> => {
+    const keys = Object.keys(tasks);
+    return from((signal) =>
+      Promise.all(keys.map((key) => toPromise(tasks[key], signal))).then((values) =>
+        Object.fromEntries(keys.map((key, i) => [key, values[i]])) as {
+          readonly [K in keyof R]: R[K] extends Task<infer A> ? A : never;
+        }
+      )
+    );
+  };
+
+  /**
+   * Runs multiple Tasks with at most `limit` of them in flight at once, collecting their
+   * results in input order. A new Task starts as soon as a running one resolves.
+   * A fractional `limit` is rounded down; a `limit` below 1, or `NaN`, is treated as 1.
+   *
+   * @example
+   * ```ts
+   * const fetches = userIds.map(fetchProfile);
+   *
+   * pipe(fetches, Task.allLimited(5))();
+   * // Deferred<Profile[]> — never more than 5 requests at a time
+   * ```
+   */
+  export const allLimited = (limit: number) =>
+  <T extends readonly Task<unknown>[]>(
+    tasks: T,
+  ): Task<{ [K in keyof T]: T[K] extends Task<infer A> ? A : never }> =>
+    from((signal) =>
+      new Promise<unknown[]>((resolve) => {
+        const results: unknown[] = new Array(tasks.length);
+        let next = 0;
+        let done = 0;
+        const launch = (): void => {
+          const i = next++;
+          toPromise(tasks[i], signal).then((a) => {
+            results[i] = a;
+            done++;
+            if (done === tasks.length) resolve(results);
+            else if (next < tasks.length) launch();
+          });
+        };
+        if (tasks.length === 0) resolve(results);
+        const width = Math.min(Math.max(1, Math.floor(limit) || 1), tasks.length);
+        for (let k = 0; k < width; k++) launch();
+      }) as Promise<{ [K in keyof T]: T[K] extends Task<infer A> ? A : never }>
+    );
+
   /**
    * Delays the execution of a Task by the specified milliseconds.
-   * Useful for debouncing or rate limiting.
+   * Useful for debouncing or rate limiting. Aborting the signal during the delay clears
+   * the timer and the Task is never started.
    *
    * @example
    * ```ts
@@ -178,19 +381,15 @@ export namespace Task {
    * ```
    */
   export const delay = (ms: number) => <A>(data: Task<A>): Task<A> =>
-    from(
-      () =>
-        new Promise<A>((resolve) =>
-          setTimeout(
-            () => toPromise(data).then(resolve),
-            ms,
-          )
-        ),
-    );
+    from((signal) => sleep(ms, signal).then(() => toPromise(data, signal)));
 
   /**
    * Runs a Task a fixed number of times sequentially, collecting all results into an array.
-   * An optional delay (ms) can be inserted between runs.
+   * An optional delay (ms) can be inserted between runs. Aborting the signal clears any
+   * pending delay and stops further runs.
+   *
+   * Pass a `schedule` instead to decide after each run, from its value, whether and when to
+   * run again. The Task always runs at least once.
    *
    * @example
    * ```ts
@@ -198,28 +397,39 @@ export namespace Task {
    *   pollSensor,
    *   Task.repeat({ times: 5, delay: 1000 })
    * )(); // Task<Reading[]> — 5 readings, one per second
+   *
+   * const everySecondForAMinute = pipe(
+   *   Schedule.fixed(1000),
+   *   Schedule.intersect(Schedule.upTo(60_000)),
+   * );
+   * pipe(pollSensor, Task.repeat({ schedule: everySecondForAMinute }))(); // Task<Reading[]>
    * ```
    */
   export const repeat =
-    (options: { times: number; delay?: number }) => <A>(task: Task<A>): Task<A[]> =>
-      from(() => {
-        const { times, delay: ms } = options;
-        if (times <= 0) return Promise.resolve([]);
+    <I = unknown>(options: { times: number; delay?: number } | { schedule: Schedule<I> }) =>
+    <A extends I>(task: Task<A>): Task<A[]> =>
+      from((signal) => {
+        if ("times" in options && options.times <= 0) return Promise.resolve([]);
+        const schedule: Schedule<A> = "schedule" in options
+          ? options.schedule
+          : Schedule.intersect(Schedule.recurs(options.times - 1))(
+            Schedule.fixed(options.delay ?? 0),
+          );
         const results: A[] = [];
-        const wait = (): Promise<void> =>
-          ms !== undefined && ms > 0 ? new Promise((r) => setTimeout(r, ms)) : Promise.resolve();
-        const run = (left: number): Promise<A[]> =>
-          toPromise(task).then((a) => {
-            results.push(a);
-            if (left <= 1) return results;
-            return wait().then(() => run(left - 1));
-          });
-        return run(times);
+        const collect = (a: A): boolean => {
+          results.push(a);
+          return false;
+        };
+        return runScheduled(task, schedule, collect, signal).then(() => results);
       });
 
   /**
    * Runs a Task repeatedly until the result satisfies a predicate, returning that result.
-   * An optional delay (ms) can be inserted between runs.
+   * An optional delay (ms) can be inserted between runs. Aborting the signal clears any
+   * pending delay and stops further runs.
+   *
+   * Pass a `schedule` instead of `delay` to decide the wait between runs, and to give up
+   * early: if the schedule stops before the predicate holds, the last result is returned.
    *
    * @example
    * ```ts
@@ -227,25 +437,32 @@ export namespace Task {
    *   checkStatus,
    *   Task.repeatUntil({ when: (s) => s === "ready", delay: 500 })
    * )(); // polls every 500ms until status is "ready"
+   *
+   * pipe(
+   *   checkStatus,
+   *   Task.repeatUntil({
+   *     when: (s) => s === "ready",
+   *     schedule: pipe(Schedule.exponential(100), Schedule.intersect(Schedule.upTo(30_000))),
+   *   })
+   * )(); // polls with backoff, giving up after 30 seconds
    * ```
    */
-  export const repeatUntil =
-    <A>(options: { when: (a: A) => boolean; delay?: number }) => (task: Task<A>): Task<A> =>
-      from(() => {
-        const { when: predicate, delay: ms } = options;
-        const wait = (): Promise<void> =>
-          ms !== undefined && ms > 0 ? new Promise((r) => setTimeout(r, ms)) : Promise.resolve();
-        const run = (): Promise<A> =>
-          toPromise(task).then((a) => {
-            if (predicate(a)) return a;
-            return wait().then(run);
-          });
-        return run();
-      });
+  export const repeatUntil = <A>(
+    options:
+      | { when: (a: A) => boolean; delay?: number }
+      | { when: (a: A) => boolean; schedule: Schedule<A> },
+  ) =>
+  (task: Task<A>): Task<A> =>
+    from((signal) => {
+      const schedule = "schedule" in options
+        ? options.schedule
+        : Schedule.fixed(options.delay ?? 0);
+      return runScheduled(task, schedule, options.when, signal);
+    });
 
   /**
    * Resolves with the value of the first Task to complete. All Tasks start
-   * immediately; the rest are abandoned once one resolves.
+   * immediately; the rest are aborted through their signal once one resolves.
    *
    * @example
    * ```ts
@@ -256,7 +473,14 @@ export namespace Task {
    * ```
    */
   export const race = <A>(tasks: ReadonlyArray<Task<A>>): Task<A> =>
-    from(() => Promise.race(tasks.map(toPromise)));
+    from((signal) => {
+      const { controller, release } = linkedController(signal);
+      return Promise.race(tasks.map((t) => toPromise(t, controller.signal))).then((a) => {
+        release();
+        controller.abort();
+        return a;
+      });
+    });
 
   /**
    * Runs an array of Tasks one at a time in order, collecting all results.
@@ -275,17 +499,42 @@ export namespace Task {
    * ```
    */
   export const sequential = <A>(tasks: ReadonlyArray<Task<A>>): Task<ReadonlyArray<A>> =>
-    from(async () => {
+    from(async (signal) => {
       const results: A[] = [];
       for (const task of tasks) {
-        results.push(await toPromise(task));
+        results.push(await toPromise(task, signal));
       }
       return results;
     });
 
+  /**
+   * Runs a generator block in which `yield* $(task)` waits for a Task and unwraps its value,
+   * so sequential async steps read like `async`/`await` while staying lazy. The block runs
+   * each time the returned Task is run, and every Task it waits for receives the signal.
+   *
+   * @example
+   * ```ts
+   * const report = Task.gen(function* ($) {
+   *   const config = yield* $(loadConfig);
+   *   const rows = yield* $(loadRows(config.source));
+   *   return buildReport(config, rows);
+   * }); // Task<Report> — nothing has run yet
+   * ```
+   */
+  export const gen = <A>(
+    f: ($: <B>(task: Task<B>) => Generator<Task<B>, B, unknown>) => Generator<Task<unknown>, A>,
+  ): Task<A> =>
+    from(async (signal) => {
+      const it = f(bindTask);
+      let step = it.next();
+      while (!step.done) step = it.next(await toPromise(step.value, signal));
+      return step.value;
+    });
+
   /**
    * Converts a `Task<A>` into a `Task<Result<E, A>>`, resolving to `Err` if the
-   * Task does not complete within the given time.
+   * Task does not complete within the given time. On timeout the Task is aborted
+   * through its signal.
    *
    * @example
    * ```ts
@@ -298,16 +547,111 @@ export namespace Task {
    */
   export const timeout =
     <E>(ms: number, onTimeout: () => E) => <A>(task: Task<A>): Task<Result<E, A>> =>
-      from(() => {
-        let timerId: ReturnType<typeof setTimeout>;
+      from((signal) => {
+        const { controller, release } = linkedController(signal);
         return Promise.race([
-          toPromise(task).then((a): Result<E, A> => {
-            clearTimeout(timerId);
-            return Result.ok(a);
-          }),
-          new Promise<Result<E, A>>((resolve) => {
-            timerId = setTimeout(() => resolve(Result.err(onTimeout())), ms);
-          }),
-        ]);
+          toPromise(task, controller.signal).then((a): Result<E, A> => Result.ok(a)),
+          sleep(ms, controller.signal).then((): Result<E, A> => Result.err(onTimeout())),
+        ]).then((result) => {
+          release();
+          controller.abort();
+          return result;
+        });
       });
+
+  /**
+   * Caches the results of a function returning Tasks. Unlike `memoize`, which would cache
+   * the lazy Task itself, this caches what the Task resolves to, and runs the Task again once
+   * the result is older than `ttl` milliseconds (default: never). Callers asking for a key
+   * whose Task is still running share that run instead of starting another.
+   *
+   * By default the first argument is the cache key; pass `key` to compute it from the
+   * arguments, like `memoize`'s `keyFn`. Values for which `when` returns false are handed to
+   * their callers but not cached.
+   *
+   * With `staleWhileRevalidate`, a result up to that many milliseconds past its `ttl` is
+   * still returned straight away, while a fresh run starts in the background to replace it.
+   *
+   * A shared run is started without a signal, so one caller aborting does not cancel it for
+   * the others; an aborted caller's own Task never resolves. Results too old to be returned
+   * are dropped whenever the cache is used, for every key. The time is read from `now`
+   * (default `Date.now`), so a test can drive the cache with a fake clock.
+   *
+   * @example
+   * ```ts
+   * const getRates = Task.cached((currency: string) => fetchRates(currency), {
+   *   ttl: 60_000,
+   *   staleWhileRevalidate: 10_000,
+   * });
+   *
+   * await Promise.all([getRates("EUR")(), getRates("EUR")()]); // one fetch, shared
+   * await getRates("EUR")(); // cached for a minute
+   * getRates.invalidate("EUR"); // the next call fetches again
+   * ```
+   */
+  export const cached = <Args extends readonly unknown[], A, K = Args[0]>(
+    f: (...args: Args) => Task<A>,
+    options: {
+      ttl?: number;
+      staleWhileRevalidate?: number;
+      key?: (...args: Args) => K;
+      when?: (value: A) => boolean;
+      now?: () => number;
+    } = {},
+  ): CachedTask<Args, A, K> => {
+    const { ttl = Infinity, staleWhileRevalidate = 0, now = Date.now } = options;
+    const keyOf = options.key ?? ((...args: Args) => args[0] as K);
+    const values = new Map<K, { readonly value: A; readonly storedAt: number }>();
+    const running = new Map<K, Promise<A>>();
+
+    const load = (key: K, args: Args): Promise<A> => {
+      const shared = running.get(key);
+      if (shared !== undefined) return shared;
+      const run: Promise<A> = toPromise(f(...args)).then((value) => {
+        // A run that was invalidated while it was in flight must not refill the cache.
+        if (running.get(key) !== run) return value;
+        running.delete(key);
+        if (options.when?.(value) ?? true) values.set(key, { value, storedAt: now() });
+        return value;
+      });
+      running.set(key, run);
+      return run;
+    };
+
+    // Drops every result past its ttl and stale window, so keys that are never asked for
+    // again do not keep their results alive.
+    const evictExpired = (time: number) => {
+      if (ttl + staleWhileRevalidate === Infinity) return;
+      for (const [key, entry] of values) {
+        if (time - entry.storedAt >= ttl + staleWhileRevalidate) values.delete(key);
+      }
+    };
+
+    const lookup = (args: Args): Promise<A> => {
+      const time = now();
+      evictExpired(time);
+      const key = keyOf(...args);
+      const entry = values.get(key);
+      if (entry === undefined) return load(key, args);
+      if (time - entry.storedAt < ttl) return Promise.resolve(entry.value);
+      load(key, args);
+      return Promise.resolve(entry.value);
+    };
+
+    const call = (...args: Args): Task<A> =>
+      from((signal) =>
+        signal?.aborted ? new Promise<A>(() => {}) : unlessAborted(lookup(args), signal)
+      );
+
+    return Object.assign(call, {
+      invalidate: (key: K) => {
+        values.delete(key);
+        running.delete(key);
+      },
+      clear: () => {
+        values.clear();
+        running.clear();
+      },
+    });
+  };
 }
@@ -21,6 +21,16 @@ import { TaskResult } from "./TaskResult.ts";
  */
 export type TaskOption<A> = Task<Option<A>>;
 
+// Internal helper — not exported. The `$` handed to a `TaskOption.gen` block: returns the
+// value of a Some straight away and yields anything else so the block's driver can run it.
+const bindTaskOption = function* <A>(
+  data: TaskOption<A> | Option<A>,
+): Generator<TaskOption<A>, A, unknown> {
+  if (typeof data === "function") return (yield data) as A;
+  if (Option.isSome(data)) return data.value;
+  return (yield Task.resolve(data)) as A;
+};
+
 export namespace TaskOption {
   /**
    * Wraps a value in a Some inside a Task.
@@ -45,6 +55,7 @@ export namespace TaskOption {
   /**
    * Creates a TaskOption from a Promise-returning function.
    * Returns Some if the promise resolves, None if it rejects.
+   * The function receives the `AbortSignal` the TaskOption was run with.
    *
    * @example
    * ```ts
@@ -53,9 +64,9 @@ export namespace TaskOption {
    * );
    * ```
    */
-  export const tryCatch = <A>(f: () => Promise<A>): TaskOption<A> =>
-    Task.from(() =>
-      f()
+  export const tryCatch = <A>(f: (signal?: AbortSignal) => Promise<A>): TaskOption<A> =>
+    Task.from((signal) =>
+      f(signal)
         .then(Option.some)
         .catch(() => Option.none())
     );
@@ -88,13 +99,81 @@ export namespace TaskOption {
    * Both Tasks run in parallel.
    */
   export const ap = <A>(arg: TaskOption<A>) => <B>(data: TaskOption<(a: A) => B>): TaskOption<B> =>
-    Task.from(() =>
+    Task.from((signal) =>
       Promise.all([
-        Deferred.toPromise(data()),
-        Deferred.toPromise(arg()),
+        Deferred.toPromise(data(signal)),
+        Deferred.toPromise(arg(signal)),
       ]).then(([of_, oa]) => Option.ap(oa)(of_))
     );
 
+  /**
+   * Lifts a plain two-argument function to work on TaskOptions. Both run in parallel; the
+   * result is None if either is None.
+   *
+   * @example
+   * ```ts
+   * const greeting = TaskOption.lift2((user: User, locale: Locale) => greet(user, locale));
+   * greeting(findUser(id), findLocale(id))(); // Deferred<Option<string>>
+   * ```
+   */
+  export const lift2 =
+    <A, B, C>(f: (a: A, b: B) => C) =>
+    (first: TaskOption<A>, second: TaskOption<B>): TaskOption<C> =>
+      Task.lift2((a: Option<A>, b: Option<B>) => Option.lift2(f)(a, b))(first, second);
+
+  /**
+   * Lifts a plain three-argument function to work on TaskOptions. All three run in parallel;
+   * the result is None if any is None.
+   *
+   * @example
+   * ```ts
+   * const summary = TaskOption.lift3(summarize);
+   * summary(findUser(id), findTeam(id), findPlan(id))();
+   * ```
+   */
+  export const lift3 =
+    <A, B, C, D>(f: (a: A, b: B, c: C) => D) =>
+    (first: TaskOption<A>, second: TaskOption<B>, third: TaskOption<C>): TaskOption<D> =>
+      Task.lift3((a: Option<A>, b: Option<B>, c: Option<C>) => Option.lift3(f)(a, b, c))(
+        first,
+        second,
+        third,
+      );
+
+  /**
+   * Runs a tuple of TaskOptions in parallel and collects their values into a tuple. The
+   * result is None if any element is None.
+   *
+   * @example
+   * ```ts
+   * TaskOption.all([findUser(id), findTeam(id)] as const)();
+   * // Deferred<Option<readonly [User, Team]>>
+   * ```
+   */
+  export const all = <T extends readonly TaskOption<unknown>[]>(
+    data: T,
+  ): TaskOption<{ readonly [K in keyof T]: T[K] extends TaskOption<infer A> ? A : never }> =>
+    Task.map((results: readonly Option<unknown>[]) => Option.all(results))(
+      Task.all(data as readonly TaskOption<unknown>[]),
+    ) as TaskOption<{ readonly [K in keyof T]: T[K] extends TaskOption<infer A> ? A : never }>;
+
+  /**
+   * Runs a record of TaskOptions in parallel and collects their values into a record with the
+   * same keys. The result is None if any field is None.
+   *
+   * @example
+   * ```ts
+   * TaskOption.struct({ user: findUser(id), team: findTeam(id) })();
+   * // Deferred<Option<{ user: User; team: Team }>>
+   * ```
+   */
+  export const struct = <R extends Readonly<Record<string, TaskOption<unknown>>>>(
+    data: R,
+  ): TaskOption<{ readonly [K in keyof R]: R[K] extends TaskOption<infer A> ? A : never }> =>
+    Task.map((results: Readonly<Record<string, Option<unknown>>>) => Option.struct(results))(
+      Task.struct(data as Readonly<Record<string, TaskOption<unknown>>>),
+    ) as TaskOption<{ readonly [K in keyof R]: R[K] extends TaskOption<infer A> ? A : never }>;
+
   /**
    * Extracts a value from a TaskOption by providing handlers for both cases.
    */
@@ -140,6 +219,40 @@ export namespace TaskOption {
   export const filter = <A>(predicate: (a: A) => boolean) => (data: TaskOption<A>): TaskOption<A> =>
     Task.map(Option.filter(predicate))(data);
 
+  /**
+   * Runs a generator block in which `yield* $(step)` waits for a TaskOption (or takes a plain
+   * Option) and unwraps its Some value. The first None stops the block and becomes the
+   * result; otherwise the returned value is wrapped in Some. The block runs each time the
+   * returned TaskOption is run.
+   *
+   * @example
+   * ```ts
+   * const orgName = TaskOption.gen(function* ($) {
+   *   const user = yield* $(findUser("123"));
+   *   const org = yield* $(findOrg(user.orgId));
+   *   return org.name;
+   * }); // TaskOption<string>
+   * ```
+   */
+  export const gen = <A>(
+    f: (
+      $: <B>(data: TaskOption<B> | Option<B>) => Generator<TaskOption<B>, B, unknown>,
+    ) => Generator<TaskOption<unknown>, A>,
+  ): TaskOption<A> =>
+    Task.from(async (signal) => {
+      const it = f(bindTaskOption);
+      let step = it.next();
+      while (!step.done) {
+        const option = await Deferred.toPromise(step.value(signal));
+        if (Option.isNone(option)) {
+          it.return(undefined as A);
+          return option;
+        }
+        step = it.next(option.value);
+      }
+      return Option.some(step.value);
+    });
+
   /**
    * Converts a TaskOption to a TaskResult, using onNone to produce the error value.
    *
@@ -1,6 +1,10 @@
+import { NonEmptyList } from "../Types/NonEmptyList.ts";
 import { Deferred } from "./Deferred.ts";
+import { Option } from "./Option.ts";
 import { Result } from "./Result.ts";
-import { Task } from "./Task.ts";
+import { Schedule } from "./Schedule.ts";
+import { CachedTask, Task } from "./Task.ts";
+import { These } from "./These.ts";
 
 /**
  * A Task that can fail with an error of type E or succeed with a value of type A.
@@ -17,6 +21,38 @@ import { Task } from "./Task.ts";
  */
 export type TaskResult<E, A> = Task<Result<E, A>>;
 
+/**
+ * Every outcome of a batch of TaskResults, as reported by `TaskResult.allSettled`: the
+ * successes and the failures, each tagged with the position of the TaskResult it came from.
+ */
+export type Settled<E, A> = {
+  readonly oks: readonly { readonly index: number; readonly value: A }[];
+  readonly errs: readonly { readonly index: number; readonly error: E }[];
+};
+
+// Internal helper — not exported. The `$` handed to a `TaskResult.gen` block: returns the
+// value of an Ok straight away and yields anything else so the block's driver can run it.
+const bindTaskResult = function* <E, A>(
+  data: TaskResult<E, A> | Result<E, A>,
+): Generator<TaskResult<E, A>, A, unknown> {
+  if (typeof data === "function") return (yield data) as A;
+  if (Result.isOk(data)) return data.value;
+  return (yield Task.resolve(data)) as A;
+};
+
+// Internal helper — not exported. The Schedule behind `retry`'s `attempts` and `backoff`
+// options: stops once `attempts` runs have been made, waiting `backoff` between them.
+const fromAttempts = (
+  attempts: number,
+  backoff?: number | ((attempt: number) => number),
+): Schedule =>
+({ attempt }) => {
+  if (attempt >= attempts) return Option.none();
+  return Option.some(
+    backoff === undefined ? 0 : typeof backoff === "function" ? backoff(attempt) : backoff,
+  );
+};
+
 export namespace TaskResult {
   /**
    * Wraps a value in a successful TaskResult.
@@ -31,6 +67,8 @@ export namespace TaskResult {
   /**
    * Creates a TaskResult from a function that may throw.
    * Catches any errors and transforms them using the onError function.
+   * The function receives the `AbortSignal` the TaskResult was run with, so an aborted
+   * request surfaces as an `Err` built by onError.
    *
    * @example
    * ```ts
@@ -39,14 +77,20 @@ export namespace TaskResult {
    *     async () => JSON.parse(s),
    *     (e) => `Parse error: ${e}`
    *   );
+   *
+   * const fetchUser = (id: string): TaskResult<string, User> =>
+   *   TaskResult.tryCatch(
+   *     (signal) => fetch(`/users/${id}`, { signal }).then(r => r.json()),
+   *     (e) => `Failed to fetch user: ${e}`
+   *   );
    * ```
    */
   export const tryCatch = <E, A>(
-    f: () => Promise<A>,
+    f: (signal?: AbortSignal) => Promise<A>,
     onError: (e: unknown) => E,
   ): TaskResult<E, A> =>
-    Task.from(() =>
-      f()
+    Task.from((signal) =>
+      f(signal)
         .then(Result.ok)
         .catch((e) => Result.err(onError(e)))
     );
@@ -73,6 +117,170 @@ export namespace TaskResult {
         Result.isOk(result) ? f(result.value) : Task.resolve(Result.err(result.error))
       )(data);
 
+  /**
+   * Lifts a plain two-argument function to work on TaskResults. Both run in parallel; if
+   * either fails, the result is the first Err in argument order.
+   *
+   * @example
+   * ```ts
+   * const checkout = TaskResult.lift2((cart: Cart, user: User) => ({ cart, user }));
+   * checkout(loadCart(cartId), loadUser(userId))(); // both requests in flight at once
+   * ```
+   */
+  export const lift2 =
+    <A, B, C>(f: (a: A, b: B) => C) =>
+    <E>(first: TaskResult<E, A>, second: TaskResult<E, B>): TaskResult<E, C> =>
+      Task.lift2((a: Result<E, A>, b: Result<E, B>) => Result.lift2(f)(a, b))(first, second);
+
+  /**
+   * Lifts a plain three-argument function to work on TaskResults. All three run in parallel;
+   * if any fails, the result is the first Err in argument order.
+   *
+   * @example
+   * ```ts
+   * const page = TaskResult.lift3(renderPage);
+   * page(loadUser(id), loadOrders(id), loadPrefs(id))();
+   * ```
+   */
+  export const lift3 = <A, B, C, D>(f: (a: A, b: B, c: C) => D) =>
+  <E>(
+    first: TaskResult<E, A>,
+    second: TaskResult<E, B>,
+    third: TaskResult<E, C>,
+  ): TaskResult<E, D> =>
+    Task.lift3((a: Result<E, A>, b: Result<E, B>, c: Result<E, C>) => Result.lift3(f)(a, b, c))(
+      first,
+      second,
+      third,
+    );
+
+  /**
+   * Runs a tuple of TaskResults in parallel and collects their values into a tuple. Every
+   * TaskResult runs to completion; if any fails, the result is the first Err in input order.
+   * The error type is the union of the elements' error types.
+   *
+   * @example
+   * ```ts
+   * TaskResult.all([loadUser(id), loadOrders(id)] as const)();
+   * // Deferred<Result<ApiError, readonly [User, readonly Order[]]>>
+   * ```
+   */
+  export const all = <T extends readonly TaskResult<unknown, unknown>[]>(
+    data: T,
+  ): TaskResult<
+    T[number] extends TaskResult<infer E, unknown> ? E : never,
+    { readonly [K in keyof T]: T[K] extends TaskResult<unknown, infer A> ? A : never }
+  > =>
+    Task.map((results: readonly Result<unknown, unknown>[]) => Result.all(results))(
+      Task.all(data as readonly TaskResult<unknown, unknown>[]),
+    ) as TaskResult<
+      T[number] extends TaskResult<infer E, unknown> ? E : never,
+      { readonly [K in keyof T]: T[K] extends TaskResult<unknown, infer A> ? A : never }
+    >;
+
+  /**
+   * Runs a record of TaskResults in parallel and collects their values into a record with the
+   * same keys. Every TaskResult runs to completion; if any fails, the result is the first Err
+   * in key order. The error type is the union of the fields' error types.
+   *
+   * @example
+   * ```ts
+   * TaskResult.struct({ user: loadUser(id), prefs: loadPrefs(id) })();
+   * // Deferred<Result<ApiError, { user: User; prefs: Prefs }>>
+   * ```
+   */
+  export const struct = <R extends Readonly<Record<string, TaskResult<unknown, unknown>>>>(
+    data: R,
+  ): TaskResult<
+    R[keyof R] extends TaskResult<infer E, unknown> ? E : never,
+    { readonly [K in keyof R]: R[K] extends TaskResult<unknown, infer A> ? A : never }
+  > =>
+    Task.map((results: Readonly<Record<string, Result<unknown, unknown>>>) =>
+      Result.struct(results)
+    )(
+      Task.struct(data as Readonly<Record<string, TaskResult<unknown, unknown>>>),
+    ) as TaskResult<
+      R[keyof R] extends TaskResult<infer E, unknown> ? E : never,
+      { readonly [K in keyof R]: R[K] extends TaskResult<unknown, infer A> ? A : never }
+    >;
+
+  /**
+   * Runs TaskResults in parallel and keeps every outcome. Unlike `all`, a failure does not
+   * hide the other results: the Task resolves with every success in `oks` and every failure
+   * in `errs`, each tagged with the index of the TaskResult it came from, in input order.
+   *
+   * @example
+   * ```ts
+   * const { oks, errs } = await TaskResult.allSettled(ids.map(chargeOrder))();
+   * // oks: [{ index: 0, value: receipt }, ...], errs: [{ index: 2, error: "card declined" }]
+   * ```
+   */
+  export const allSettled = <E, A>(data: readonly TaskResult<E, A>[]): Task<Settled<E, A>> =>
+    Task.map((results: readonly Result<E, A>[]): Settled<E, A> => {
+      const oks: { readonly index: number; readonly value: A }[] = [];
+      const errs: { readonly index: number; readonly error: E }[] = [];
+      results.forEach((result, index) => {
+        if (Result.isOk(result)) oks.push({ index, value: result.value });
+        else errs.push({ index, error: result.error });
+      });
+      return { oks, errs };
+    })(Task.all(data));
+
+  /**
+   * Runs TaskResults in parallel and splits the outcomes into two groups: the values of the
+   * successes first, the errors of the failures second, each in input order.
+   *
+   * @example
+   * ```ts
+   * const [receipts, failures] = await TaskResult.partition(ids.map(chargeOrder))();
+   * ```
+   */
+  export const partition = <E, A>(
+    data: readonly TaskResult<E, A>[],
+  ): Task<readonly [readonly A[], readonly E[]]> =>
+    Task.map((results: readonly Result<E, A>[]): readonly [readonly A[], readonly E[]] => {
+      const values: A[] = [];
+      const errors: E[] = [];
+      for (const result of results) {
+        if (Result.isOk(result)) values.push(result.value);
+        else errors.push(result.error);
+      }
+      return [values, errors];
+    })(Task.all(data));
+
+  /**
+   * Runs TaskResults in parallel and reports the outcome as a These, so a partial success is
+   * a result of its own rather than a failure:
+   *
+   * - Second(values) — every TaskResult succeeded (including when there are none)
+   * - First(errors) — every TaskResult failed
+   * - Both(errors, values) — some succeeded and some failed
+   *
+   * Values and errors keep their input order.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   TaskResult.allThese(files.map(upload)),
+   *   Task.map(These.match({
+   *     first: errors => `all ${errors.length} uploads failed`,
+   *     second: urls => `uploaded ${urls.length} files`,
+   *     both: (errors, urls) => `uploaded ${urls.length}, ${errors.length} failed`,
+   *   })),
+   * );
+   * ```
+   */
+  export const allThese = <E, A>(
+    data: readonly TaskResult<E, A>[],
+  ): Task<These<NonEmptyList<E>, readonly A[]>> =>
+    Task.map(([values, errors]: readonly [readonly A[], readonly E[]]) =>
+      errors.length === 0
+        ? These.second(values)
+        : values.length === 0
+        ? These.first(errors as NonEmptyList<E>)
+        : These.both(errors as NonEmptyList<E>, values)
+    )(partition(data));
+
   /**
    * Extracts the value from a TaskResult by providing handlers for both cases.
    */
@@ -112,12 +320,58 @@ export namespace TaskResult {
   export const tap = <E, A>(f: (a: A) => void) => (data: TaskResult<E, A>): TaskResult<E, A> =>
     Task.map(Result.tap<E, A>(f))(data);
 
+  /**
+   * Runs a generator block in which `yield* $(step)` waits for a TaskResult (or takes a plain
+   * Result) and unwraps its Ok value, so sequential async steps read top to bottom instead of
+   * as nested `chain` callbacks. The first Err stops the block and becomes the result;
+   * otherwise the returned value is wrapped in Ok. The error type is the union of every
+   * error the block can stop on.
+   *
+   * The block runs each time the returned TaskResult is run, and every step receives the
+   * signal. Like any Task, the result is a `Deferred` that never rejects.
+   *
+   * @example
+   * ```ts
+   * const checkout = (cartId: string) =>
+   *   TaskResult.gen(function* ($) {
+   *     const cart = yield* $(loadCart(cartId));        // TaskResult<NotFound, Cart>
+   *     const total = yield* $(priceCart(cart));        // Result<PricingError, number>
+   *     const receipt = yield* $(charge(cart, total));  // TaskResult<PaymentError, Receipt>
+   *     return receipt.id;
+   *   }); // TaskResult<NotFound | PricingError | PaymentError, string>
+   * ```
+   */
+  export const gen = <Y extends TaskResult<unknown, unknown>, A>(
+    f: (
+      $: <E, B>(data: TaskResult<E, B> | Result<E, B>) => Generator<TaskResult<E, B>, B, unknown>,
+    ) => Generator<Y, A>,
+  ): TaskResult<Y extends TaskResult<infer E, unknown> ? E : never, A> =>
+    Task.from(async (signal) => {
+      const it = f(bindTaskResult);
+      let step = it.next();
+      while (!step.done) {
+        const result = await Deferred.toPromise(step.value(signal));
+        if (Result.isErr(result)) {
+          it.return(undefined as A);
+          return result as Result<Y extends TaskResult<infer E, unknown> ? E : never, A>;
+        }
+        step = it.next(result.value);
+      }
+      return Result.ok(step.value);
+    });
+
   /**
    * Re-runs a TaskResult on `Err` with configurable attempts, backoff, and retry condition.
+   * Each attempt receives the signal; once it aborts, pending backoff timers are cleared and
+   * no further attempts are made.
    *
    * @param options.attempts - Total number of attempts (1 = no retry, 3 = up to 3 tries)
    * @param options.backoff - Fixed delay in ms, or a function `(attempt) => ms` for computed delay
+   * @param options.schedule - Instead of `attempts` and `backoff`: a Schedule consulted with
+   *   each error, deciding whether and when to retry
    * @param options.when - Only retry when this returns true; defaults to always retry on Err
+   * @param options.onRetry - Called before each retry with the error, the number of attempts
+   *   so far, and the delay before the next one
    *
    * @example
    * ```ts
@@ -132,37 +386,91 @@ export namespace TaskResult {
    *   fetchUser,
    *   TaskResult.retry({ attempts: 3, when: e => e instanceof NetworkError })
    * );
+   *
+   * // Jittered backoff, at most 5 retries within 30 seconds, logging each one
+   * pipe(
+   *   fetchUser,
+   *   TaskResult.retry({
+   *     schedule: pipe(
+   *       Schedule.exponential(200),
+   *       Schedule.jittered,
+   *       Schedule.intersect(Schedule.recurs(5)),
+   *       Schedule.intersect(Schedule.upTo(30_000)),
+   *     ),
+   *     onRetry: (e, attempt, delay) => log.warn(`attempt ${attempt} failed, next in ${delay}ms`),
+   *   })
+   * );
    * ```
    */
-  export const retry = <E>(options: {
-    attempts: number;
-    backoff?: number | ((attempt: number) => number);
-    when?: (error: E) => boolean;
-  }) =>
+  export const retry = <E>(
+    options:
+      & (
+        | { attempts: number; backoff?: number | ((attempt: number) => number) }
+        | { schedule: Schedule<E> }
+      )
+      & {
+        when?: (error: E) => boolean;
+        onRetry?: (error: E, attempt: number, delay: number) => void;
+      },
+  ) =>
   <A>(data: TaskResult<E, A>): TaskResult<E, A> =>
-    Task.from(() => {
-      const { attempts, backoff, when: shouldRetry } = options;
-      const getDelay = (n: number): number =>
-        backoff === undefined ? 0 : typeof backoff === "function" ? backoff(n) : backoff;
+    Task.from((signal) => {
+      const { when: shouldRetry, onRetry } = options;
+      const schedule = "schedule" in options
+        ? options.schedule
+        : fromAttempts(options.attempts, options.backoff);
+      const start = Date.now();
 
-      const run = (left: number): Promise<Result<E, A>> =>
-        Deferred.toPromise(data()).then((result) => {
+      const run = (attempt: TaskResult<E, A>, count: number): Promise<Result<E, A>> =>
+        Deferred.toPromise(attempt(signal)).then((result) => {
           if (Result.isOk(result)) return result;
-          if (left <= 1) return result;
+          const next = schedule({
+            attempt: count,
+            elapsed: Date.now() - start,
+            input: result.error,
+          });
+          if (next.kind === "None" || signal?.aborted) return result;
           if (shouldRetry !== undefined && !shouldRetry(result.error)) {
             return result;
           }
-          const ms = getDelay(attempts - left + 1);
-          return (
-            ms > 0 ? new Promise<void>((r) => setTimeout(r, ms)) : Promise.resolve()
-          ).then(() => run(left - 1));
+          const ms = next.value;
+          onRetry?.(result.error, count, ms);
+          return run(ms > 0 ? Task.delay(ms)(data) : data, count + 1);
         });
 
-      return run(attempts);
+      return run(data, 1);
     });
 
+  /**
+   * Re-runs a TaskResult after each `Ok` for as long as the schedule allows, consulting it
+   * with each value — useful for polling. Resolves with the last `Ok` once the schedule stops,
+   * or with the first `Err`, which ends the loop straight away. Aborting the signal clears any
+   * pending delay and stops further runs.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   fetchJob(id),
+   *   TaskResult.repeat({
+   *     schedule: pipe(
+   *       Schedule.whileInput((job: Job) => job.status === "running"),
+   *       Schedule.intersect(Schedule.fixed(1_000)),
+   *     ),
+   *   }),
+   * ); // TaskResult<ApiError, Job> — polls every second until the job is no longer running
+   * ```
+   */
+  export const repeat =
+    <A>(options: { schedule: Schedule<A> }) => <E>(data: TaskResult<E, A>): TaskResult<E, A> =>
+      Task.repeatUntil<Result<E, A>>({
+        when: Result.isErr,
+        schedule: ({ input, ...step }) =>
+          Result.isOk(input) ? options.schedule({ ...step, input: input.value }) : Option.none(),
+      })(data);
+
   /**
    * Fails a TaskResult with a typed error if it does not resolve within the given time.
+   * On timeout the TaskResult is aborted through its signal.
    *
    * @example
    * ```ts
@@ -174,16 +482,42 @@ export namespace TaskResult {
    */
   export const timeout =
     <E>(ms: number, onTimeout: () => E) => <A>(data: TaskResult<E, A>): TaskResult<E, A> =>
-      Task.from(() => {
-        let timerId: ReturnType<typeof setTimeout>;
-        return Promise.race([
-          Deferred.toPromise(data()).then((result) => {
-            clearTimeout(timerId);
-            return result;
-          }),
-          new Promise<Result<E, A>>((resolve) => {
-            timerId = setTimeout(() => resolve(Result.err(onTimeout())), ms);
-          }),
-        ]);
-      });
+      Task.map(Result.chain<E, Result<E, A>, A>((result) => result))(
+        Task.timeout(ms, onTimeout)(data),
+      );
+
+  /**
+   * Caches the results of a function returning TaskResults. Works like `Task.cached` —
+   * results expire after `ttl` milliseconds, concurrent callers for the same key share one
+   * run, `staleWhileRevalidate` serves an expired result while a fresh run replaces it, and
+   * `key` computes the cache key from the arguments.
+   *
+   * Only `Ok` results are cached by default, so a failed call is tried again by the next
+   * caller; set `cacheErrors` to cache `Err` results too. When a background refresh fails
+   * and errors are not cached, the stale `Ok` keeps being served until its window ends.
+   *
+   * @example
+   * ```ts
+   * const getUser = TaskResult.cached(fetchUser, { ttl: 30_000 });
+   * // (id: string) => TaskResult<ApiError, User>, with getUser.invalidate(id)
+   *
+   * pipe(
+   *   updateUser(id, changes),
+   *   TaskResult.tap(() => getUser.invalidate(id)),
+   * );
+   * ```
+   */
+  export const cached = <Args extends readonly unknown[], E, A, K = Args[0]>(
+    f: (...args: Args) => TaskResult<E, A>,
+    options: {
+      ttl?: number;
+      staleWhileRevalidate?: number;
+      key?: (...args: Args) => K;
+      cacheErrors?: boolean;
+      now?: () => number;
+    } = {},
+  ): CachedTask<Args, Result<E, A>, K> => {
+    const { cacheErrors = false, ...rest } = options;
+    return Task.cached(f, { ...rest, when: (result) => cacheErrors || Result.isOk(result) });
+  };
 }
@@ -26,6 +26,16 @@ import { Validation } from "./Validation.ts";
  */
 export type TaskValidation<E, A> = Task<Validation<E, A>>;
 
+// Internal helper — not exported. The `$` handed to a `TaskValidation.gen` block: returns
+// the value of a Valid straight away and yields anything else so the block's driver can run it.
+const bindTaskValidation = function* <E, A>(
+  data: TaskValidation<E, A> | Validation<E, A>,
+): Generator<TaskValidation<E, A>, A, unknown> {
+  if (typeof data === "function") return (yield data) as A;
+  if (Validation.isValid(data)) return data.value;
+  return (yield Task.resolve(data)) as A;
+};
+
 export namespace TaskValidation {
   /**
    * Wraps a value in a valid TaskValidation.
@@ -56,6 +66,7 @@ export namespace TaskValidation {
   /**
    * Creates a TaskValidation from a Promise-returning function.
    * Catches any errors and transforms them using the onError function.
+   * The function receives the `AbortSignal` the TaskValidation was run with.
    *
    * @example
    * ```ts
@@ -67,11 +78,11 @@ export namespace TaskValidation {
    * ```
    */
   export const tryCatch = <E, A>(
-    f: () => Promise<A>,
+    f: (signal?: AbortSignal) => Promise<A>,
     onError: (e: unknown) => E,
   ): TaskValidation<E, A> =>
-    Task.from(() =>
-      f()
+    Task.from((signal) =>
+      f(signal)
         .then(Validation.valid<E, A>)
         .catch((e) => Validation.invalid(onError(e)))
     );
@@ -100,10 +111,10 @@ export namespace TaskValidation {
   export const ap =
     <E, A>(arg: TaskValidation<E, A>) =>
     <B>(data: TaskValidation<E, (a: A) => B>): TaskValidation<E, B> =>
-      Task.from(() =>
+      Task.from((signal) =>
         Promise.all([
-          Deferred.toPromise(data()),
-          Deferred.toPromise(arg()),
+          Deferred.toPromise(data(signal)),
+          Deferred.toPromise(arg(signal)),
         ]).then(([vf, va]) => Validation.ap(va)(vf))
       );
 
@@ -167,6 +178,45 @@ export namespace TaskValidation {
           : fallback(validation.errors)
       )(data);
 
+  /**
+   * Runs a generator block in which `yield* $(step)` waits for a TaskValidation (or takes a
+   * plain Validation) and unwraps its Valid value. Steps run one after another, so the first
+   * Invalid stops the block and becomes the result — use `ap`, `product` or `productAll` when
+   * independent checks should accumulate their errors instead.
+   *
+   * @example
+   * ```ts
+   * const registration = TaskValidation.gen(function* ($) {
+   *   const email = yield* $(validateEmail(form.email));
+   *   const account = yield* $(checkEmailAvailable(email));
+   *   return { email, account };
+   * });
+   * ```
+   */
+  export const gen = <Y extends TaskValidation<unknown, unknown>, A>(
+    f: (
+      $: <E, B>(
+        data: TaskValidation<E, B> | Validation<E, B>,
+      ) => Generator<TaskValidation<E, B>, B, unknown>,
+    ) => Generator<Y, A>,
+  ): TaskValidation<Y extends TaskValidation<infer E, unknown> ? E : never, A> =>
+    Task.from(async (signal) => {
+      const it = f(bindTaskValidation);
+      let step = it.next();
+      while (!step.done) {
+        const validation = await Deferred.toPromise(step.value(signal));
+        if (Validation.isInvalid(validation)) {
+          it.return(undefined as A);
+          return validation as Validation<
+            Y extends TaskValidation<infer E, unknown> ? E : never,
+            A
+          >;
+        }
+        step = it.next(validation.value);
+      }
+      return Validation.valid(step.value);
+    });
+
   /**
    * Runs two TaskValidations concurrently and combines their results into a tuple.
    * If both are Valid, returns Valid with both values. If either fails, accumulates
@@ -184,10 +234,10 @@ export namespace TaskValidation {
     first: TaskValidation<E, A>,
     second: TaskValidation<E, B>,
   ): TaskValidation<E, readonly [A, B]> =>
-    Task.from(() =>
+    Task.from((signal) =>
       Promise.all([
-        Deferred.toPromise(first()),
-        Deferred.toPromise(second()),
+        Deferred.toPromise(first(signal)),
+        Deferred.toPromise(second(signal)),
       ]).then(([va, vb]) => Validation.product(va, vb))
     );
 
@@ -208,10 +258,105 @@ export namespace TaskValidation {
   export const productAll = <E, A>(
     data: NonEmptyList<TaskValidation<E, A>>,
   ): TaskValidation<E, readonly A[]> =>
-    Task.from(() =>
-      Promise.all(data.map((t) => Deferred.toPromise(t())))
+    Task.from((signal) =>
+      Promise.all(data.map((t) => Deferred.toPromise(t(signal))))
         .then((results) =>
           Validation.productAll(results as unknown as NonEmptyList<Validation<E, A>>)
         )
     );
+
+  /**
+   * Lifts a plain two-argument function to work on TaskValidations. Both run in parallel and
+   * errors from both are accumulated.
+   *
+   * @example
+   * ```ts
+   * const register = TaskValidation.lift2((name: string, email: string) => ({ name, email }));
+   * register(checkName(form.name), checkEmailAvailable(form.email))();
+   * ```
+   */
+  export const lift2 =
+    <A, B, C>(f: (a: A, b: B) => C) =>
+    <E>(first: TaskValidation<E, A>, second: TaskValidation<E, B>): TaskValidation<E, C> =>
+      Task.lift2((a: Validation<E, A>, b: Validation<E, B>) => Validation.lift2(f)(a, b))(
+        first,
+        second,
+      );
+
+  /**
+   * Lifts a plain three-argument function to work on TaskValidations. All three run in
+   * parallel and errors from all of them are accumulated.
+   *
+   * @example
+   * ```ts
+   * const register = TaskValidation.lift3(
+   *   (name: string, email: string, age: number) => ({ name, email, age }),
+   * );
+   * register(checkName(form.name), checkEmailAvailable(form.email), checkAge(form.age))();
+   * ```
+   */
+  export const lift3 = <A, B, C, D>(f: (a: A, b: B, c: C) => D) =>
+  <E>(
+    first: TaskValidation<E, A>,
+    second: TaskValidation<E, B>,
+    third: TaskValidation<E, C>,
+  ): TaskValidation<E, D> =>
+    Task.lift3((a: Validation<E, A>, b: Validation<E, B>, c: Validation<E, C>) =>
+      Validation.lift3(f)(a, b, c)
+    )(
+      first,
+      second,
+      third,
+    );
+
+  /**
+   * Runs a tuple of TaskValidations in parallel and collects their values into a tuple. If
+   * any are Invalid, returns Invalid with the errors of every Invalid element, in order.
+   *
+   * @example
+   * ```ts
+   * TaskValidation.all([checkName(form.name), checkEmailAvailable(form.email)] as const)();
+   * // Deferred<Validation<string, readonly [string, string]>>
+   * ```
+   */
+  export const all = <T extends readonly TaskValidation<unknown, unknown>[]>(
+    data: T,
+  ): TaskValidation<
+    T[number] extends TaskValidation<infer E, unknown> ? E : never,
+    { readonly [K in keyof T]: T[K] extends TaskValidation<unknown, infer A> ? A : never }
+  > =>
+    Task.map((results: readonly Validation<unknown, unknown>[]) => Validation.all(results))(
+      Task.all(data as readonly TaskValidation<unknown, unknown>[]),
+    ) as TaskValidation<
+      T[number] extends TaskValidation<infer E, unknown> ? E : never,
+      { readonly [K in keyof T]: T[K] extends TaskValidation<unknown, infer A> ? A : never }
+    >;
+
+  /**
+   * Runs a record of TaskValidations in parallel and collects their values into a record with
+   * the same keys. If any are Invalid, returns Invalid with the errors of every Invalid
+   * field.
+   *
+   * @example
+   * ```ts
+   * TaskValidation.struct({
+   *   name: checkName(form.name),
+   *   email: checkEmailAvailable(form.email),
+   * })(); // Deferred<Validation<string, { name: string; email: string }>>
+   * ```
+   */
+  export const struct = <R extends Readonly<Record<string, TaskValidation<unknown, unknown>>>>(
+    data: R,
+  ): TaskValidation<
+    R[keyof R] extends TaskValidation<infer E, unknown> ? E : never,
+    { readonly [K in keyof R]: R[K] extends TaskValidation<unknown, infer A> ? A : never }
+  > =>
+    Task.map((results: Readonly<Record<string, Validation<unknown, unknown>>>) =>
+      Validation.struct(results)
+    )(
+      Task.struct(data as Readonly<Record<string, TaskValidation<unknown, unknown>>>),
+    ) as TaskValidation<
+      R[keyof R] extends TaskValidation<infer E, unknown> ? E : never,
+      { readonly [K in keyof R]: R[K] extends TaskValidation<unknown, infer A> ? A : never }
+    >;
 }
@@ -0,0 +1,319 @@
+import { Deferred } from "./Deferred.ts";
+import type { Combinable } from "./Combinable.ts";
+import type { Iso } from "./Iso.ts";
+import type { Lens } from "./Lens.ts";
+import type { Optional } from "./Optional.ts";
+import type { Prism } from "./Prism.ts";
+import type { Refinement } from "./Refinement.ts";
+import { Result } from "./Result.ts";
+import { Task } from "./Task.ts";
+
+// Internal helper — not exported. Replaces each focus, in order, with the next value from
+// `values`. Relies on `modify` visiting the foci in the same order `getAll` returns them.
+const replaceAll = <S, A>(traversal: Traversal<S, A>, values: readonly A[]) => (s: S): S => {
+  let i = 0;
+  return traversal.modify(() => values[i++])(s);
+};
+
+/**
+ * Traversal<S, A> focuses on zero or more values A inside a structure S: every element of
+ * an array, every value of a record, or every item that matches a predicate.
+ *
+ * `getAll` reads every focus, in order. `modify` applies a function to every focus and
+ * returns a new structure; the structure is never mutated, and when nothing is focused it
+ * comes back unchanged. `modify` must visit the foci in the same order `getAll` returns them.
+ *
+ * Compose with other Traversals, Prisms and Isos via `andThen`, with a Lens via
+ * `andThenLens`, and with an Optional via `andThenOptional`. `Lens.andThen` and
+ * `Optional.andThen` accept a Traversal as their next step.
+ *
+ * @example
+ * ```ts
+ * type Item = { name: string; price: number };
+ * type Order = { id: string; items: readonly Item[] };
+ *
+ * const prices = pipe(
+ *   Lens.prop<Order>()("items"),
+ *   Lens.andThen(Traversal.each<Item>()),
+ *   Traversal.andThenLens(Lens.prop<Item>()("price")),
+ * ); // Traversal<Order, number>
+ *
+ * pipe(order, Traversal.getAll(prices));                  // [10, 25]
+ * pipe(order, Traversal.modify(prices)(p => p * 0.9));    // new Order, every price discounted
+ * pipe(order, Traversal.foldMap(prices)(Combinable.sum)(p => p)); // 35
+ * ```
+ */
+export type Traversal<S, A> = {
+  readonly getAll: (s: S) => readonly A[];
+  readonly modify: (f: (a: A) => A) => (s: S) => S;
+};
+
+export namespace Traversal {
+  /**
+   * Constructs a Traversal from a function reading every focus and a function updating
+   * every focus. Both must visit the foci in the same order.
+   *
+   * @example
+   * ```ts
+   * const ends = Traversal.make(
+   *   (pair: readonly [number, number]) => [pair[0], pair[1]],
+   *   (f) => (pair) => [f(pair[0]), f(pair[1])] as const,
+   * ); // Traversal<readonly [number, number], number>
+   * ```
+   */
+  export const make = <S, A>(
+    getAll: (s: S) => readonly A[],
+    modify: (f: (a: A) => A) => (s: S) => S,
+  ): Traversal<S, A> => ({ getAll, modify });
+
+  /**
+   * A Traversal that focuses on every element of an array. `modify` returns the same array
+   * when no element changes.
+   *
+   * @example
+   * ```ts
+   * pipe([1, 2, 3], Traversal.modify(Traversal.each<number>())(n => n * 10)); // [10, 20, 30]
+   * ```
+   */
+  export const each = <A>(): Traversal<readonly A[], A> =>
+    make((s) => s, (f) => (s) => {
+      const result = s.map((a) => f(a));
+      return result.some((a, i) => a !== s[i]) ? result : s;
+    });
+
+  /**
+   * A Traversal that focuses on every value of a record. `modify` returns the same record
+   * when no value changes.
+   *
+   * @example
+   * ```ts
+   * pipe({ a: 1, b: 2 }, Traversal.getAll(Traversal.eachValue<number>())); // [1, 2]
+   * ```
+   */
+  export const eachValue = <A>(): Traversal<Readonly<Record<string, A>>, A> =>
+    make(
+      (s) => Object.values(s),
+      (f) => (s) => {
+        const result: Record<string, A> = {};
+        let changed = false;
+        for (const key of Object.keys(s)) {
+          result[key] = f(s[key]);
+          if (result[key] !== s[key]) changed = true;
+        }
+        return changed ? result : s;
+      },
+    );
+
+  /**
+   * A Traversal that focuses on a value only when it passes the predicate. Use it after
+   * `each` to focus on the matching items of a collection. With a Refinement, the focus is
+   * narrowed to the refined type.
+   *
+   * `modify` should keep the value passing the predicate; otherwise reading back through the
+   * same Traversal will no longer find it.
+   *
+   * @example
+   * ```ts
+   * const admins = pipe(
+   *   Traversal.each<User>(),
+   *   Traversal.andThen(Traversal.filtered((u: User) => u.role === "admin")),
+   * );
+   *
+   * pipe(users, Traversal.modify(admins)(u => ({ ...u, active: false })));
+   * // only admins are deactivated
+   * ```
+   */
+  export const filtered: {
+    <A, B extends A>(refinement: Refinement<A, B>): Traversal<A, B>;
+    <A>(predicate: (a: A) => boolean): Traversal<A, A>;
+  } = <A>(predicate: (a: A) => boolean): Traversal<A, A> =>
+    make((s) => (predicate(s) ? [s] : []), (f) => (s) => (predicate(s) ? f(s) : s));
+
+  /**
+   * Converts a Lens to a Traversal that always has exactly one focus.
+   */
+  export const fromLens = <S, A>(lens: Lens<S, A>): Traversal<S, A> =>
+    make((s) => [lens.get(s)], (f) => (s) => lens.set(f(lens.get(s)))(s));
+
+  /**
+   * Converts an Optional to a Traversal with one focus when the value is present and none
+   * otherwise.
+   */
+  export const fromOptional = <S, A>(optional: Optional<S, A>): Traversal<S, A> =>
+    make(
+      (s) => {
+        const val = optional.get(s);
+        return val.kind === "None" ? [] : [val.value];
+      },
+      (f) => (s) => {
+        const val = optional.get(s);
+        return val.kind === "None" ? s : optional.set(f(val.value))(s);
+      },
+    );
+
+  /**
+   * Converts a Prism to a Traversal with one focus when the structure is in the focused
+   * case and none otherwise.
+   */
+  export const fromPrism = <S, A>(prism: Prism<S, A>): Traversal<S, A> =>
+    make(
+      (s) => {
+        const val = prism.getOption(s);
+        return val.kind === "None" ? [] : [val.value];
+      },
+      (f) => (s) => {
+        const val = prism.getOption(s);
+        return val.kind === "None" ? s : prism.reverseGet(f(val.value));
+      },
+    );
+
+  /**
+   * Reads every focus, in order.
+   *
+   * @example
+   * ```ts
+   * pipe(order, Traversal.getAll(prices)); // [10, 25]
+   * ```
+   */
+  export const getAll = <S, A>(traversal: Traversal<S, A>) => (s: S): readonly A[] =>
+    traversal.getAll(s);
+
+  /**
+   * Applies a function to every focus, returning a new structure.
+   *
+   * @example
+   * ```ts
+   * pipe(order, Traversal.modify(prices)(p => p * 2));
+   * ```
+   */
+  export const modify = <S, A>(traversal: Traversal<S, A>) => (f: (a: A) => A) => (s: S): S =>
+    traversal.modify(f)(s);
+
+  /**
+   * Replaces every focus with the same value, returning a new structure.
+   *
+   * @example
+   * ```ts
+   * pipe(order, Traversal.set(prices)(0)); // every item free
+   * ```
+   */
+  export const set = <S, A>(traversal: Traversal<S, A>) => (a: A) => (s: S): S =>
+    traversal.modify(() => a)(s);
+
+  /**
+   * Maps every focus to a value and combines the results with a Combinable, starting from
+   * its empty value. See `Arr.foldMap`.
+   *
+   * @example
+   * ```ts
+   * pipe(order, Traversal.foldMap(prices)(Combinable.sum)(p => p)); // total price
+   * pipe(order, Traversal.foldMap(prices)(Combinable.any)(p => p > 100)); // any expensive item?
+   * ```
+   */
+  export const foldMap =
+    <S, A>(traversal: Traversal<S, A>) =>
+    <B>(combinable: Combinable<B>) =>
+    (f: (a: A) => B) =>
+    (s: S): B =>
+      traversal.getAll(s).reduce((acc, a) => combinable.combine(acc, f(a)), combinable.empty);
+
+  /**
+   * Updates every focus with a function returning a Result. If every call succeeds, returns
+   * Ok with the updated structure; otherwise returns the first Err, and no focus is updated.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   order,
+   *   Traversal.traverseResult(prices)(p => (p >= 0 ? Result.ok(p) : Result.err("negative"))),
+   * ); // Ok(order) or Err("negative")
+   * ```
+   */
+  export const traverseResult =
+    <S, A>(traversal: Traversal<S, A>) =>
+    <E>(f: (a: A) => Result<E, A>) =>
+    (
+      s: S,
+    ): Result<E, S> => {
+      const values: A[] = [];
+      for (const a of traversal.getAll(s)) {
+        const mapped = f(a);
+        if (Result.isErr(mapped)) return mapped;
+        values.push(mapped.value);
+      }
+      return Result.ok(replaceAll(traversal, values)(s));
+    };
+
+  /**
+   * Updates every focus with a function returning a Task. The Tasks run in parallel and
+   * the structure is rebuilt once they have all resolved.
+   *
+   * @example
+   * ```ts
+   * pipe(
+   *   order,
+   *   Traversal.traverseTask(prices)(p => convertCurrency(p, "EUR")),
+   * ); // Task<Order> with every price converted
+   * ```
+   */
+  export const traverseTask =
+    <S, A>(traversal: Traversal<S, A>) => (f: (a: A) => Task<A>) => (s: S): Task<S> =>
+      Task.from((signal) =>
+        Promise.all(traversal.getAll(s).map((a) => Deferred.toPromise(f(a)(signal)))).then(
+          (values) => replaceAll(traversal, values)(s),
+        )
+      );
+
+  /**
+   * Composes a Traversal with another Traversal, a Prism or an Iso, producing a Traversal:
+   * focuses on every outer focus, then on the inner focus (or foci) within each.
+   *
+   * @example
+   * ```ts
+   * const circles = pipe(Traversal.each<Shape>(), Traversal.andThen(circle));
+   * // Traversal<readonly Shape[], { kind: "Circle"; radius: number }>
+   * ```
+   */
+  export const andThen =
+    <A, B>(inner: Traversal<A, B> | Prism<A, B> | Iso<A, B>) =>
+    <S>(outer: Traversal<S, A>): Traversal<S, B> => {
+      const focus: Traversal<A, B> = "getAll" in inner
+        ? inner
+        : "getOption" in inner
+        ? fromPrism(inner)
+        : make((a) => [inner.get(a)], (f) => (a) => inner.reverseGet(f(inner.get(a))));
+      return make(
+        (s) => outer.getAll(s).flatMap(focus.getAll),
+        (f) => outer.modify(focus.modify(f)),
+      );
+    };
+
+  /**
+   * Composes a Traversal with a Lens, producing a Traversal that focuses on the Lens's
+   * field within every outer focus.
+   *
+   * @example
+   * ```ts
+   * const names = pipe(Traversal.each<User>(), Traversal.andThenLens(Lens.prop<User>()("name")));
+   * ```
+   */
+  export const andThenLens =
+    <A, B>(inner: Lens<A, B>) => <S>(outer: Traversal<S, A>): Traversal<S, B> =>
+      andThen(fromLens(inner))(outer);
+
+  /**
+   * Composes a Traversal with an Optional, producing a Traversal that skips the outer foci
+   * where the Optional finds nothing.
+   *
+   * @example
+   * ```ts
+   * const bios = pipe(
+   *   Traversal.each<Profile>(),
+   *   Traversal.andThenOptional(Optional.prop<Profile>()("bio")),
+   * );
+   * ```
+   */
+  export const andThenOptional =
+    <A, B>(inner: Optional<A, B>) => <S>(outer: Traversal<S, A>): Traversal<S, B> =>
+      andThen(fromOptional(inner))(outer);
+}
@@ -0,0 +1,181 @@
+import { Option } from "./Option.ts";
+import { Result } from "./Result.ts";
+import { Task } from "./Task.ts";
+
+/**
+ * A pair of values: the same `readonly [A, B]` shape produced by `Arr.zip` and `State.run`.
+ *
+ * The namespace replaces the `([a, b]) => [f(a), b]` lambdas that pairs otherwise need, with
+ * functions that transform one side, both sides, or swap them, and traversals that run an
+ * Option, Result or Task on one side while keeping the other.
+ *
+ * @example
+ * ```ts
+ * pipe(
+ *   names,
+ *   Arr.zip(scores),
+ *   Arr.map(Tuple.mapSnd(score => score * 100)),
+ * ); // readonly (readonly [string, number])[]
+ * ```
+ */
+export type Tuple<A, B> = readonly [A, B];
+
+export namespace Tuple {
+  /**
+   * Creates a pair.
+   *
+   * @example
+   * ```ts
+   * Tuple.make("alice", 42); // ["alice", 42]
+   * ```
+   */
+  export const make = <A, B>(first: A, second: B): Tuple<A, B> => [first, second];
+
+  /**
+   * Returns the first value of a pair.
+   */
+  export const fst = <A, B>(data: Tuple<A, B>): A => data[0];
+
+  /**
+   * Returns the second value of a pair.
+   */
+  export const snd = <A, B>(data: Tuple<A, B>): B => data[1];
+
+  /**
+   * Transforms the first value, keeping the second.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make("alice", 42), Tuple.mapFst(s => s.toUpperCase())); // ["ALICE", 42]
+   * ```
+   */
+  export const mapFst = <A, C>(f: (a: A) => C) => <B>(data: Tuple<A, B>): Tuple<C, B> => [
+    f(data[0]),
+    data[1],
+  ];
+
+  /**
+   * Transforms the second value, keeping the first.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make("alice", 42), Tuple.mapSnd(n => n + 1)); // ["alice", 43]
+   * ```
+   */
+  export const mapSnd = <B, C>(f: (b: B) => C) => <A>(data: Tuple<A, B>): Tuple<A, C> => [
+    data[0],
+    f(data[1]),
+  ];
+
+  /**
+   * Transforms both values at once.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make("alice", 42), Tuple.bimap(s => s.length, n => n > 18)); // [5, true]
+   * ```
+   */
+  export const bimap =
+    <A, B, C, D>(onFst: (a: A) => C, onSnd: (b: B) => D) => (data: Tuple<A, B>): Tuple<C, D> => [
+      onFst(data[0]),
+      onSnd(data[1]),
+    ];
+
+  /**
+   * Swaps the two values.
+   *
+   * @example
+   * ```ts
+   * Tuple.swap(Tuple.make("alice", 42)); // [42, "alice"]
+   * ```
+   */
+  export const swap = <A, B>(data: Tuple<A, B>): Tuple<B, A> => [data[1], data[0]];
+
+  /**
+   * Returns the two values as an array.
+   *
+   * @example
+   * ```ts
+   * Tuple.toArray(Tuple.make(1, "a")); // [1, "a"]
+   * ```
+   */
+  export const toArray = <A, B>(data: Tuple<A, B>): readonly (A | B)[] => [data[0], data[1]];
+
+  /**
+   * Applies a function returning an Option to the first value. Returns None if the function
+   * does, otherwise the pair with the new first value.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make("42", "id"), Tuple.traverseFst(parseNumber)); // Some([42, "id"])
+   * ```
+   */
+  export const traverseFst =
+    <A, C>(f: (a: A) => Option<C>) => <B>(data: Tuple<A, B>): Option<Tuple<C, B>> =>
+      Option.map((c: C): Tuple<C, B> => [c, data[1]])(f(data[0]));
+
+  /**
+   * Applies a function returning an Option to the second value. Returns None if the function
+   * does, otherwise the pair with the new second value.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make("id", "42"), Tuple.traverseSnd(parseNumber)); // Some(["id", 42])
+   * ```
+   */
+  export const traverseSnd =
+    <B, C>(f: (b: B) => Option<C>) => <A>(data: Tuple<A, B>): Option<Tuple<A, C>> =>
+      Option.map((c: C): Tuple<A, C> => [data[0], c])(f(data[1]));
+
+  /**
+   * Applies a function returning a Result to the first value, keeping the second.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make(rawEmail, userId), Tuple.traverseFstResult(validateEmail));
+   * // Ok([email, userId]) or Err(error)
+   * ```
+   */
+  export const traverseFstResult =
+    <E, A, C>(f: (a: A) => Result<E, C>) => <B>(data: Tuple<A, B>): Result<E, Tuple<C, B>> =>
+      Result.map<E, C, Tuple<C, B>>((c) => [c, data[1]])(f(data[0]));
+
+  /**
+   * Applies a function returning a Result to the second value, keeping the first.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make(userId, rawEmail), Tuple.traverseSndResult(validateEmail));
+   * // Ok([userId, email]) or Err(error)
+   * ```
+   */
+  export const traverseSndResult =
+    <E, B, C>(f: (b: B) => Result<E, C>) => <A>(data: Tuple<A, B>): Result<E, Tuple<A, C>> =>
+      Result.map<E, C, Tuple<A, C>>((c) => [data[0], c])(f(data[1]));
+
+  /**
+   * Runs a Task on the first value, keeping the second.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make(userId, requestId), Tuple.traverseFstTask(fetchUser));
+   * // Task<readonly [User, string]>
+   * ```
+   */
+  export const traverseFstTask =
+    <A, C>(f: (a: A) => Task<C>) => <B>(data: Tuple<A, B>): Task<Tuple<C, B>> =>
+      Task.map((c: C): Tuple<C, B> => [c, data[1]])(f(data[0]));
+
+  /**
+   * Runs a Task on the second value, keeping the first.
+   *
+   * @example
+   * ```ts
+   * pipe(Tuple.make(requestId, userId), Tuple.traverseSndTask(fetchUser));
+   * // Task<readonly [string, User]>
+   * ```
+   */
+  export const traverseSndTask =
+    <B, C>(f: (b: B) => Task<C>) => <A>(data: Tuple<A, B>): Task<Tuple<A, C>> =>
+      Task.map((c: C): Tuple<A, C> => [data[0], c])(f(data[1]));
+}
@@ -1,4 +1,4 @@
-import { NonEmptyList } from "../Types/NonEmptyList.ts";
+import { isNonEmptyList, NonEmptyList } from "../Types/NonEmptyList.ts";
 import { WithErrors, WithKind, WithValue } from "./InternalTypes.ts";
 
 /**
@@ -274,4 +274,100 @@ export namespace Validation {
     }
     return errors.length > 0 ? invalidAll(errors as unknown as NonEmptyList<E>) : valid(values);
   };
+
+  /**
+   * Lifts a plain two-argument function to work on Validations. If either argument is
+   * Invalid, returns Invalid with the errors of both.
+   *
+   * @example
+   * ```ts
+   * const makeUser = Validation.lift2((name: string, age: number) => ({ name, age }));
+   * makeUser(validateName(name), validateAge(age));
+   * // Valid({ name, age }) or Invalid([...errors from both])
+   * ```
+   */
+  export const lift2 =
+    <A, B, C>(f: (a: A, b: B) => C) =>
+    <E>(first: Validation<E, A>, second: Validation<E, B>): Validation<E, C> =>
+      map(([a, b]: readonly [A, B]) => f(a, b))(product(first, second));
+
+  /**
+   * Lifts a plain three-argument function to work on Validations. If any argument is
+   * Invalid, returns Invalid with the errors of all of them.
+   *
+   * @example
+   * ```ts
+   * const makeUser = Validation.lift3(
+   *   (name: string, email: string, age: number) => ({ name, email, age }),
+   * );
+   * makeUser(validateName(name), validateEmail(email), validateAge(age));
+   * ```
+   */
+  export const lift3 = <A, B, C, D>(f: (a: A, b: B, c: C) => D) =>
+  <E>(
+    first: Validation<E, A>,
+    second: Validation<E, B>,
+    third: Validation<E, C>,
+  ): Validation<E, D> =>
+    map(([a, b, c]: readonly [A, B, C]) => f(a, b, c))(all([first, second, third] as const));
+
+  /**
+   * Collects a tuple of Validations into a Validation of a tuple. If any element is Invalid,
+   * returns Invalid with the errors of every Invalid element, in order.
+   *
+   * @example
+   * ```ts
+   * Validation.all([validateName(name), validateAge(age)] as const);
+   * // Valid(["alice", 30]) or Invalid([...all errors])
+   * ```
+   */
+  export const all = <T extends readonly Validation<unknown, unknown>[]>(
+    data: T,
+  ): Validation<
+    T[number] extends Validation<infer E, unknown> ? E : never,
+    { readonly [K in keyof T]: T[K] extends Validation<unknown, infer A> ? A : never }
+  > => {
+    const values: unknown[] = [];
+    const errors: unknown[] = [];
+    for (const v of data) {
+      if (isValid(v)) values.push(v.value);
+      else errors.push(...v.errors);
+    }
+    return (isNonEmptyList(errors) ? invalidAll(errors) : valid(values)) as Validation<
+      T[number] extends Validation<infer E, unknown> ? E : never,
+      { readonly [K in keyof T]: T[K] extends Validation<unknown, infer A> ? A : never }
+    >;
+  };
+
+  /**
+   * Collects a record of Validations into a Validation of a record with the same keys. If
+   * any field is Invalid, returns Invalid with the errors of every Invalid field.
+   *
+   * @example
+   * ```ts
+   * Validation.struct({
+   *   name: validateName(form.name),
+   *   email: validateEmail(form.email),
+   *   age: validateAge(form.age),
+   * }); // Validation<string, { name: string; email: string; age: number }>
+   * ```
+   */
+  export const struct = <R extends Readonly<Record<string, Validation<unknown, unknown>>>>(
+    data: R,
+  ): Validation<
+    R[keyof R] extends Validation<infer E, unknown> ? E : never,
+    { readonly [K in keyof R]: R[K] extends Validation<unknown, infer A> ? A : never }
+  > => {
+    const values: Record<string, unknown> = {};
+    const errors: unknown[] = [];
+    for (const key of Object.keys(data)) {
+      const v = data[key];
+      if (isValid(v)) values[key] = v.value;
+      else errors.push(...v.errors);
+    }
+    return (isNonEmptyList(errors) ? invalidAll(errors) : valid(values)) as Validation<
+      R[keyof R] extends Validation<infer E, unknown> ? E : never,
+      { readonly [K in keyof R]: R[K] extends Validation<unknown, infer A> ? A : never }
+    >;
+  };
 }
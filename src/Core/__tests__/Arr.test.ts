@@ -1,6 +1,9 @@
 import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { Arr } from "../Arr.ts";
+import { Combinable } from "../Combinable.ts";
+import { Equality } from "../Equality.ts";
 import { Option } from "../Option.ts";
+import { Ordering } from "../Ordering.ts";
 import { Result } from "../Result.ts";
 import { Task } from "../Task.ts";
 import { pipe } from "../../Composition/pipe.ts";
@@ -168,7 +171,7 @@ Deno.test("findIndex - returns None for an empty array", () => {
 });
 
 // =============================================================================
-// Transform: map, filter, partition, groupBy, uniq, uniqBy, sortBy
+// Transform: map, filter, partition, groupBy, uniq, uniqBy, uniqWith, sortBy, sortWith, min, max
 // =============================================================================
 
 Deno.test("map - transforms each element", () => {
@@ -317,6 +320,44 @@ Deno.test("uniqBy - returns empty for empty array", () => {
   assertEquals(result, []);
 });
 
+Deno.test("uniqWith - removes structurally equal elements, keeping the first", () => {
+  const result = pipe(
+    [{ x: 1, tag: "a" }, { x: 1, tag: "b" }, { x: 2, tag: "c" }],
+    Arr.uniqWith(pipe(Equality.number, Equality.using((p: { x: number; tag: string }) => p.x))),
+  );
+  assertEquals(result, [{ x: 1, tag: "a" }, { x: 2, tag: "c" }]);
+});
+
+Deno.test("uniqWith - compares objects by structure rather than reference", () => {
+  const result = pipe(
+    [{ x: 1 }, { x: 1 }],
+    Arr.uniqWith(Equality.struct({ x: Equality.number })),
+  );
+  assertEquals(result, [{ x: 1 }]);
+});
+
+Deno.test("includesWith - finds a structurally equal element", () => {
+  const eq = Equality.struct({ x: Equality.number });
+  assertStrictEquals(pipe([{ x: 1 }, { x: 2 }], Arr.includesWith(eq)({ x: 2 })), true);
+  assertStrictEquals(pipe([{ x: 1 }, { x: 2 }], Arr.includesWith(eq)({ x: 3 })), false);
+});
+
+Deno.test("difference - keeps elements not present in the other array", () => {
+  const result = pipe([1, 2, 3, 4], Arr.difference(Equality.number)([2, 4]));
+  assertEquals(result, [1, 3]);
+});
+
+Deno.test("difference - compares with the given Equality", () => {
+  const eq = Equality.struct({ id: Equality.number });
+  const result = pipe([{ id: 1 }, { id: 2 }], Arr.difference(eq)([{ id: 2 }]));
+  assertEquals(result, [{ id: 1 }]);
+});
+
+Deno.test("intersection - keeps elements present in the other array, in original order", () => {
+  const result = pipe([1, 2, 3, 4], Arr.intersection(Equality.number)([4, 2, 6]));
+  assertEquals(result, [2, 4]);
+});
+
 Deno.test("sortBy - sorts array using comparison function", () => {
   const result = pipe(
     [3, 1, 4, 1, 5, 9],
@@ -350,6 +391,59 @@ Deno.test("sortBy - returns empty for empty array", () => {
   assertEquals(result, []);
 });
 
+Deno.test("sortWith - sorts using an Ordering", () => {
+  const result = pipe([3, 1, 2], Arr.sortWith(Ordering.number));
+  assertEquals(result, [1, 2, 3]);
+});
+
+Deno.test("sortWith - keeps tied elements in their original order", () => {
+  const result = pipe(
+    [{ k: 1, v: "a" }, { k: 0, v: "b" }, { k: 1, v: "c" }],
+    Arr.sortWith(pipe(Ordering.number, Ordering.using((x: { k: number; v: string }) => x.k))),
+  );
+  assertEquals(result.map((x) => x.v), ["b", "a", "c"]);
+});
+
+Deno.test("sortWith - does not mutate the input", () => {
+  const input = [3, 1, 2];
+  pipe(input, Arr.sortWith(Ordering.number));
+  assertEquals(input, [3, 1, 2]);
+});
+
+Deno.test("sortedInsert - inserts a value keeping the array sorted", () => {
+  assertEquals(pipe([1, 3, 5], Arr.sortedInsert(Ordering.number)(4)), [1, 3, 4, 5]);
+  assertEquals(pipe([1, 3, 5], Arr.sortedInsert(Ordering.number)(0)), [0, 1, 3, 5]);
+  assertEquals(pipe([1, 3, 5], Arr.sortedInsert(Ordering.number)(9)), [1, 3, 5, 9]);
+  assertEquals(pipe([] as number[], Arr.sortedInsert(Ordering.number)(1)), [1]);
+});
+
+Deno.test("sortedInsert - inserts after tied elements", () => {
+  const byK = pipe(Ordering.number, Ordering.using((x: { k: number; v: string }) => x.k));
+  const result = pipe(
+    [{ k: 1, v: "a" }, { k: 2, v: "b" }],
+    Arr.sortedInsert(byK)({ k: 1, v: "new" }),
+  );
+  assertEquals(result.map((x) => x.v), ["a", "new", "b"]);
+});
+
+Deno.test("min - returns the smallest element", () => {
+  assertEquals(pipe([3, 1, 2], Arr.min(Ordering.number)), Option.some(1));
+});
+
+Deno.test("min - returns None for an empty array", () => {
+  assertEquals(pipe([] as number[], Arr.min(Ordering.number)), Option.none());
+});
+
+Deno.test("max - returns the largest element", () => {
+  assertEquals(pipe([3, 1, 2], Arr.max(Ordering.number)), Option.some(3));
+});
+
+Deno.test("max - returns the first of several tied elements", () => {
+  const byK = pipe(Ordering.number, Ordering.using((x: { k: number; v: string }) => x.k));
+  const result = pipe([{ k: 2, v: "a" }, { k: 2, v: "b" }], Arr.max(byK));
+  assertEquals(result, Option.some({ k: 2, v: "a" }));
+});
+
 // =============================================================================
 // Combine: zip, zipWith, intersperse, chunksOf, flatten, flatMap
 // =============================================================================
@@ -511,7 +605,7 @@ Deno.test("flatMap - empty array returns empty array", () => {
 });
 
 // =============================================================================
-// Reduce
+// Reduce: reduce, combineAll, foldMap
 // =============================================================================
 
 Deno.test("reduce - sums numbers", () => {
@@ -553,6 +647,34 @@ Deno.test("reduce - builds an object from entries", () => {
   assertEquals(result, { a: 1, b: 2, c: 3 });
 });
 
+Deno.test("combineAll - combines every element", () => {
+  assertStrictEquals(pipe([1, 2, 3], Arr.combineAll(Combinable.sum)), 6);
+  assertStrictEquals(pipe(["a", "b", "c"], Arr.combineAll(Combinable.string)), "abc");
+});
+
+Deno.test("combineAll - returns the empty value for an empty array", () => {
+  assertStrictEquals(pipe([] as number[], Arr.combineAll(Combinable.product)), 1);
+  assertStrictEquals(pipe([] as boolean[], Arr.combineAll(Combinable.all)), true);
+});
+
+Deno.test("foldMap - maps and combines in one pass", () => {
+  const orders = [{ total: 10, rush: false }, { total: 25, rush: true }];
+  assertStrictEquals(pipe(orders, Arr.foldMap(Combinable.sum)((o) => o.total)), 35);
+  assertStrictEquals(pipe(orders, Arr.foldMap(Combinable.any)((o) => o.rush)), true);
+});
+
+Deno.test("foldMap - aggregates several fields with a struct Combinable", () => {
+  const stats = Combinable.struct<{ count: number; slowest: number }>({
+    count: Combinable.sum,
+    slowest: Combinable.max,
+  });
+  const result = pipe(
+    [120, 80, 300],
+    Arr.foldMap(stats)((ms: number) => ({ count: 1, slowest: ms })),
+  );
+  assertEquals(result, { count: 3, slowest: 300 });
+});
+
 // =============================================================================
 // Traverse / Sequence (Option)
 // =============================================================================
@@ -781,6 +903,112 @@ Deno.test("sequenceTaskResult - returns first Err", async () => {
   assertEquals(result, Result.err("oops"));
 });
 
+// =============================================================================
+// traverseTaskLimited / traverseTaskResultLimited
+// =============================================================================
+
+Deno.test("traverseTaskLimited - runs at most limit Tasks at once, in input order", async () => {
+  let active = 0;
+  let peak = 0;
+  const work = (n: number): Task<number> =>
+    Task.from(() => {
+      active++;
+      peak = Math.max(peak, active);
+      return new Promise((resolve) =>
+        setTimeout(() => {
+          active--;
+          resolve(n * 10);
+        }, (5 - n) * 5)
+      );
+    });
+  const result = await pipe([1, 2, 3, 4], Arr.traverseTaskLimited(work, 2))();
+  assertEquals(result, [10, 20, 30, 40]);
+  assertStrictEquals(peak, 2);
+});
+
+Deno.test("traverseTaskLimited - empty array resolves to empty array", async () => {
+  const result = await pipe([] as number[], Arr.traverseTaskLimited(Task.resolve, 3))();
+  assertEquals(result, []);
+});
+
+Deno.test("traverseTaskResultLimited - all succeed returns Ok in input order", async () => {
+  const work = (n: number): Task<Result<string, number>> =>
+    Task.from(() => new Promise((r) => setTimeout(() => r(Result.ok(n)), (4 - n) * 5)));
+  const result = await pipe([1, 2, 3], Arr.traverseTaskResultLimited(work, 2))();
+  assertEquals(result, Result.ok([1, 2, 3]));
+});
+
+Deno.test("traverseTaskResultLimited - fails fast and starts no new work after an Err", async () => {
+  const started: number[] = [];
+  const work = (n: number): Task<Result<string, number>> =>
+    Task.from(() => {
+      started.push(n);
+      return Promise.resolve(n === 2 ? Result.err(`bad ${n}`) : Result.ok(n));
+    });
+  const result = await pipe([1, 2, 3, 4, 5], Arr.traverseTaskResultLimited(work, 2))();
+  assertEquals(result, Result.err("bad 2"));
+  assertEquals(started, [1, 2, 3]);
+});
+
+Deno.test("traverseTaskResultLimited - aborts the Tasks still running after an Err", async () => {
+  const aborted: number[] = [];
+  const work = (n: number): Task<Result<string, number>> =>
+    Task.from((signal) =>
+      new Promise((resolve) => {
+        signal?.addEventListener("abort", () => aborted.push(n), { once: true });
+        setTimeout(() => resolve(n === 1 ? Result.err(`bad ${n}`) : Result.ok(n)), n * 5);
+      })
+    );
+  const result = await pipe([1, 2, 3], Arr.traverseTaskResultLimited(work, 3))();
+  assertEquals(result, Result.err("bad 1"));
+  assertEquals(aborted, [1, 2, 3]);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+});
+
+Deno.test("traverseTaskResultLimited - failFast: false runs everything and returns the earliest Err", async () => {
+  const started: number[] = [];
+  const work = (n: number): Task<Result<string, number>> =>
+    Task.from(() => {
+      started.push(n);
+      const r = n % 2 === 0 ? Result.err(`bad ${n}`) : Result.ok(n);
+      return new Promise((resolve) => setTimeout(() => resolve(r), (6 - n) * 5));
+    });
+  const result = await pipe(
+    [1, 2, 3, 4, 5],
+    Arr.traverseTaskResultLimited(work, 2, { failFast: false }),
+  )();
+  assertEquals(result, Result.err("bad 2"));
+  assertEquals(started, [1, 2, 3, 4, 5]);
+});
+
+Deno.test("traverseTaskResultLimited - treats a NaN limit as 1 and rounds a fractional limit down", async () => {
+  let active = 0;
+  let peak = 0;
+  const work = (n: number): Task<Result<string, number>> =>
+    Task.from(() => {
+      active++;
+      peak = Math.max(peak, active);
+      return new Promise((resolve) =>
+        setTimeout(() => {
+          active--;
+          resolve(Result.ok(n));
+        }, 5)
+      );
+    });
+  const result = await pipe([1, 2, 3], Arr.traverseTaskResultLimited(work, NaN))();
+  assertEquals(result, Result.ok([1, 2, 3]));
+  assertStrictEquals(peak, 1);
+  peak = 0;
+  await pipe([1, 2, 3, 4], Arr.traverseTaskResultLimited(work, 2.5))();
+  assertStrictEquals(peak, 2);
+});
+
+Deno.test("traverseTaskResultLimited - empty array returns Ok of empty array", async () => {
+  const work = (n: number): Task<Result<string, number>> => Task.resolve(Result.ok(n));
+  const result = await pipe([] as number[], Arr.traverseTaskResultLimited(work, 2))();
+  assertEquals(result, Result.ok([]));
+});
+
 // =============================================================================
 // Predicates: isNonEmpty, some, every
 // =============================================================================
@@ -967,6 +1195,18 @@ Deno.test("dropWhile - empty array returns empty", () => {
   assertEquals(result, []);
 });
 
+// =============================================================================
+// Set conversion: toSet, fromSet
+// =============================================================================
+
+Deno.test("toSet - creates a Set without duplicates", () => {
+  assertEquals(pipe(["read", "write", "read"], Arr.toSet), new Set(["read", "write"]));
+});
+
+Deno.test("fromSet - returns elements in insertion order", () => {
+  assertEquals(Arr.fromSet(new Set([3, 1, 2])), [3, 1, 2]);
+});
+
 // =============================================================================
 // Size
 // =============================================================================
@@ -0,0 +1,350 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { AsyncIter } from "../AsyncIter.ts";
+import { Option } from "../Option.ts";
+import { Result } from "../Result.ts";
+import { Task } from "../Task.ts";
+import { TaskResult } from "../TaskResult.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+// Emits the values while recording how many were read and whether the stream was closed.
+const tracked = <A>(values: readonly A[]) => {
+  const log = { reads: 0, closed: false };
+  const stream: AsyncIterable<A> = {
+    async *[Symbol.asyncIterator]() {
+      try {
+        for (const v of values) {
+          log.reads++;
+          yield v;
+        }
+      } finally {
+        log.closed = true;
+      }
+    },
+  };
+  return { stream, log };
+};
+
+// A Task that resolves after `ms`, clearing its timer if aborted.
+const after = <A>(ms: number, value: A, onAbort?: () => void): Task<A> =>
+  Task.from((signal) =>
+    new Promise<A>((resolve) => {
+      const id = setTimeout(() => resolve(value), ms);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(id);
+        onAbort?.();
+      });
+    })
+  );
+
+// ---------------------------------------------------------------------------
+// laziness
+// ---------------------------------------------------------------------------
+
+Deno.test("AsyncIter reads nothing until a terminal Task runs", async () => {
+  const { stream, log } = tracked([1, 2, 3]);
+  const task = pipe(stream, AsyncIter.map((n: number) => n * 2), AsyncIter.toTask);
+  assertStrictEquals(log.reads, 0);
+  assertEquals(await task(), [2, 4, 6]);
+  assertStrictEquals(log.reads, 3);
+});
+
+Deno.test("AsyncIter pipelines can be run more than once", async () => {
+  const task = pipe(AsyncIter.fromIterable([1, 2]), AsyncIter.toTask);
+  assertEquals(await task(), [1, 2]);
+  assertEquals(await task(), [1, 2]);
+});
+
+// ---------------------------------------------------------------------------
+// map / filter / take
+// ---------------------------------------------------------------------------
+
+Deno.test("AsyncIter.filter keeps matching values", async () => {
+  const result = await pipe(
+    AsyncIter.fromIterable([1, 2, 3, 4]),
+    AsyncIter.filter((n: number) => n % 2 === 0),
+    AsyncIter.toTask,
+  )();
+  assertEquals(result, [2, 4]);
+});
+
+Deno.test("AsyncIter.take stops reading and closes the source", async () => {
+  const { stream, log } = tracked([1, 2, 3, 4]);
+  assertEquals(await pipe(stream, AsyncIter.take(2), AsyncIter.toTask)(), [1, 2]);
+  assertStrictEquals(log.reads, 2);
+  assertStrictEquals(log.closed, true);
+});
+
+Deno.test("AsyncIter.take with zero emits nothing and reads nothing", async () => {
+  const { stream, log } = tracked([1, 2]);
+  assertEquals(await pipe(stream, AsyncIter.take(0), AsyncIter.toTask)(), []);
+  assertStrictEquals(log.reads, 0);
+});
+
+// ---------------------------------------------------------------------------
+// mapTask
+// ---------------------------------------------------------------------------
+
+Deno.test("AsyncIter.mapTask runs one Task at a time by default", async () => {
+  let active = 0;
+  let peak = 0;
+  const work = (n: number) =>
+    Task.from(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((r) => setTimeout(r, 5));
+      active--;
+      return n * 10;
+    });
+  const result = await pipe(
+    AsyncIter.fromIterable([1, 2, 3]),
+    AsyncIter.mapTask(work),
+    AsyncIter.toTask,
+  )();
+  assertEquals(result, [10, 20, 30]);
+  assertStrictEquals(peak, 1);
+});
+
+Deno.test("AsyncIter.mapTask respects the concurrency limit and keeps source order", async () => {
+  let active = 0;
+  let peak = 0;
+  const work = (ms: number) =>
+    Task.from(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((r) => setTimeout(r, ms));
+      active--;
+      return ms;
+    });
+  const result = await pipe(
+    AsyncIter.fromIterable([30, 5, 20, 5, 10]),
+    AsyncIter.mapTask(work, { concurrency: 2 }),
+    AsyncIter.toTask,
+  )();
+  assertEquals(result, [30, 5, 20, 5, 10]);
+  assertStrictEquals(peak, 2);
+});
+
+// ---------------------------------------------------------------------------
+// mapTaskResult / toTaskResult
+// ---------------------------------------------------------------------------
+
+Deno.test("AsyncIter.mapTaskResult collects every Ok", async () => {
+  const result = await pipe(
+    AsyncIter.fromIterable([1, 2, 3]),
+    AsyncIter.mapTaskResult((n: number) => TaskResult.ok<string, number>(n + 1)),
+    AsyncIter.toTaskResult,
+  )();
+  assertEquals(result, Result.ok([2, 3, 4]));
+});
+
+Deno.test("AsyncIter.mapTaskResult stops reading the source at the first Err", async () => {
+  const { stream, log } = tracked([1, 2, 3, 4]);
+  const result = await pipe(
+    stream,
+    AsyncIter.mapTaskResult((n: number) =>
+      n === 2 ? TaskResult.err<string, number>("bad 2") : TaskResult.ok<string, number>(n)
+    ),
+    AsyncIter.toTaskResult,
+  )();
+  assertEquals(result, Result.err("bad 2"));
+  assertStrictEquals(log.reads, 2);
+  assertStrictEquals(log.closed, true);
+});
+
+Deno.test("AsyncIter.mapTaskResult aborts Tasks still in flight after an Err", async () => {
+  let aborted = 0;
+  const work = (n: number): TaskResult<string, number> =>
+    n === 1 ? after(5, Result.err("first failed")) : after(50, Result.ok(n), () => aborted++);
+  const result = await pipe(
+    AsyncIter.fromIterable([1, 2, 3]),
+    AsyncIter.mapTaskResult(work, { concurrency: 3 }),
+    AsyncIter.toTaskResult,
+  )();
+  assertEquals(result, Result.err("first failed"));
+  assertStrictEquals(aborted, 2);
+});
+
+Deno.test("AsyncIter.toTaskResult stops at an Err already in the stream", async () => {
+  const result = await pipe(
+    AsyncIter.fromIterable<Result<string, number>>([Result.ok(1), Result.err("x"), Result.ok(3)]),
+    AsyncIter.toTaskResult,
+  )();
+  assertEquals(result, Result.err("x"));
+});
+
+// ---------------------------------------------------------------------------
+// buffer / chunk
+// ---------------------------------------------------------------------------
+
+Deno.test("AsyncIter.buffer reads ahead of the consumer", async () => {
+  const { stream, log } = tracked([1, 2, 3, 4, 5, 6]);
+  const it = pipe(stream, AsyncIter.buffer(3))[Symbol.asyncIterator]();
+  assertEquals(await it.next(), { done: false, value: 1 });
+  await new Promise((r) => setTimeout(r, 0));
+  assertStrictEquals(log.reads, 4);
+  await it.return?.();
+});
+
+Deno.test("AsyncIter.buffer emits every value in order", async () => {
+  const result = await pipe(
+    AsyncIter.fromIterable([1, 2, 3]),
+    AsyncIter.buffer(2),
+    AsyncIter.toTask,
+  )();
+  assertEquals(result, [1, 2, 3]);
+});
+
+Deno.test("AsyncIter.buffer keeps one read in flight and stops after the source ends", async () => {
+  const log = { reads: 0, inFlight: 0, maxInFlight: 0 };
+  const values = [1, 2, 3];
+  const stream: AsyncIterable<number> = {
+    [Symbol.asyncIterator]: () => ({
+      next: async () => {
+        const i = log.reads++;
+        log.maxInFlight = Math.max(log.maxInFlight, ++log.inFlight);
+        await new Promise((r) => setTimeout(r, 1));
+        log.inFlight--;
+        return i < values.length
+          ? { done: false, value: values[i] }
+          : { done: true, value: undefined };
+      },
+    }),
+  };
+  const result = await pipe(stream, AsyncIter.buffer(5), AsyncIter.toTask)();
+  assertEquals(result, [1, 2, 3]);
+  assertStrictEquals(log.maxInFlight, 1);
+  assertStrictEquals(log.reads, 4);
+});
+
+Deno.test("AsyncIter.chunk groups values, with a smaller last chunk", async () => {
+  const result = await pipe(
+    AsyncIter.fromIterable([1, 2, 3, 4, 5]),
+    AsyncIter.chunk(2),
+    AsyncIter.toTask,
+  )();
+  assertEquals(result, [[1, 2], [3, 4], [5]]);
+});
+
+// ---------------------------------------------------------------------------
+// merge
+// ---------------------------------------------------------------------------
+
+Deno.test("AsyncIter.merge emits values in arrival order until every stream ends", async () => {
+  const timed = (values: readonly (readonly [number, string])[]): AsyncIterable<string> => ({
+    async *[Symbol.asyncIterator]() {
+      for (const [ms, v] of values) {
+        await new Promise((r) => setTimeout(r, ms));
+        yield v;
+      }
+    },
+  });
+  const result = await pipe(
+    AsyncIter.merge(timed([[10, "a1"], [30, "a2"]]), timed([[20, "b1"]])),
+    AsyncIter.toTask,
+  )();
+  assertEquals(result, ["a1", "b1", "a2"]);
+});
+
+Deno.test("AsyncIter.merge with no streams is empty", async () => {
+  assertEquals(await pipe(AsyncIter.merge<number>(), AsyncIter.toTask)(), []);
+});
+
+// ---------------------------------------------------------------------------
+// fromPaginated
+// ---------------------------------------------------------------------------
+
+const pages: Record<number, { items: readonly string[]; next: Option<number> }> = {
+  0: { items: ["a", "b"], next: Option.some(1) },
+  1: { items: ["c", "d"], next: Option.some(2) },
+  2: { items: ["e"], next: Option.none() },
+};
+
+Deno.test("AsyncIter.fromPaginated streams every page", async () => {
+  const result = await pipe(
+    AsyncIter.fromPaginated(
+      0,
+      (cursor: number) => TaskResult.ok<string, typeof pages[number]>(pages[cursor]),
+    ),
+    AsyncIter.toTaskResult,
+  )();
+  assertEquals(result, Result.ok(["a", "b", "c", "d", "e"]));
+});
+
+Deno.test("AsyncIter.fromPaginated fetches only the pages the consumer needs", async () => {
+  const fetched: number[] = [];
+  const result = await pipe(
+    AsyncIter.fromPaginated(0, (cursor: number) => {
+      fetched.push(cursor);
+      return TaskResult.ok<string, typeof pages[number]>(pages[cursor]);
+    }),
+    AsyncIter.take(3),
+    AsyncIter.toTaskResult,
+  )();
+  assertEquals(result, Result.ok(["a", "b", "c"]));
+  assertEquals(fetched, [0, 1]);
+});
+
+Deno.test("AsyncIter.fromPaginated stops after a failed page", async () => {
+  const fetched: number[] = [];
+  const result = await pipe(
+    AsyncIter.fromPaginated(0, (cursor: number) => {
+      fetched.push(cursor);
+      return cursor === 1
+        ? TaskResult.err<string, typeof pages[number]>("page 1 failed")
+        : TaskResult.ok<string, typeof pages[number]>(pages[cursor]);
+    }),
+    AsyncIter.toTaskResult,
+  )();
+  assertEquals(result, Result.err("page 1 failed"));
+  assertEquals(fetched, [0, 1]);
+});
+
+Deno.test("AsyncIter.fromPaginated aborts the page fetch when the consumer aborts", async () => {
+  let aborted = false;
+  const controller = new AbortController();
+  pipe(
+    AsyncIter.fromPaginated(
+      0,
+      (cursor: number) =>
+        after<Result<string, typeof pages[number]>>(50, Result.ok(pages[cursor]), () => {
+          aborted = true;
+        }),
+    ),
+    AsyncIter.toTaskResult,
+  )(controller.signal);
+  await new Promise((r) => setTimeout(r, 5));
+  controller.abort();
+  assertStrictEquals(aborted, true);
+});
+
+// ---------------------------------------------------------------------------
+// toTask
+// ---------------------------------------------------------------------------
+
+Deno.test("AsyncIter.toTask stops reading once the signal is aborted", async () => {
+  const { stream, log } = tracked([1, 2, 3, 4]);
+  const controller = new AbortController();
+  const result = await pipe(
+    stream,
+    AsyncIter.map((n: number) => {
+      if (n === 2) controller.abort();
+      return n;
+    }),
+    AsyncIter.toTask,
+  )(controller.signal);
+  assertEquals(result, [1, 2]);
+  assertStrictEquals(log.closed, true);
+});
+
+Deno.test("AsyncIter.toTask aborts the Tasks in the stream when the signal aborts", async () => {
+  const aborted: number[] = [];
+  const controller = new AbortController();
+  pipe(
+    AsyncIter.fromIterable([1, 2, 3]),
+    AsyncIter.mapTask((n: number) => after(50, n, () => aborted.push(n)), { concurrency: 2 }),
+    AsyncIter.toTask,
+  )(controller.signal);
+  await new Promise((r) => setTimeout(r, 5));
+  controller.abort();
+  assertEquals(aborted, [1, 2]);
+});
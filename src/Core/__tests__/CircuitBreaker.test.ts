@@ -0,0 +1,244 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { CircuitBreaker, type CircuitState } from "../CircuitBreaker.ts";
+import { Deferred } from "../Deferred.ts";
+import { Result } from "../Result.ts";
+import { Task } from "../Task.ts";
+import { TaskResult } from "../TaskResult.ts";
+
+// A clock the tests move forward by hand.
+const fakeClock = () => {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => void (time += ms) };
+};
+
+// Succeeds for "ok" and fails with the input otherwise, counting its calls.
+const service = () => {
+  const calls: string[] = [];
+  const call = (input: string): TaskResult<string, string> => {
+    calls.push(input);
+    return input === "ok" ? TaskResult.ok(input) : TaskResult.err(input);
+  };
+  return { calls, call };
+};
+
+// ---------------------------------------------------------------------------
+// consecutive failures
+// ---------------------------------------------------------------------------
+
+Deno.test("CircuitBreaker passes calls through while closed", async () => {
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 2, cooldown: 1000 });
+  const { call } = service();
+  const guarded = CircuitBreaker.protect(breaker)(call);
+
+  assertEquals(await guarded("ok")(), Result.ok("ok"));
+  assertEquals(await guarded("boom")(), Result.err("boom"));
+  assertEquals(CircuitBreaker.state(breaker), "Closed");
+});
+
+Deno.test("CircuitBreaker opens after consecutive failures and rejects without calling", async () => {
+  const clock = fakeClock();
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 2, cooldown: 1000, now: clock.now });
+  const { calls, call } = service();
+  const guarded = CircuitBreaker.protect(breaker)(call);
+
+  await guarded("boom")();
+  await guarded("boom")();
+  assertEquals(CircuitBreaker.state(breaker), "Open");
+
+  clock.advance(400);
+  assertEquals(await guarded("ok")(), Result.err({ kind: "CircuitOpen", retryAfter: 600 }));
+  assertEquals(calls, ["boom", "boom"]);
+});
+
+Deno.test("CircuitBreaker resets the consecutive count on success", async () => {
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 2, cooldown: 1000 });
+  const guarded = CircuitBreaker.protect(breaker)(service().call);
+
+  await guarded("boom")();
+  await guarded("ok")();
+  await guarded("boom")();
+  assertEquals(CircuitBreaker.state(breaker), "Closed");
+});
+
+Deno.test("CircuitBreaker counts only the errors isFailure accepts", async () => {
+  const breaker = CircuitBreaker.make({
+    consecutiveFailures: 1,
+    cooldown: 1000,
+    isFailure: (e: string) => e !== "not found",
+  });
+  const guarded = CircuitBreaker.protect(breaker)(service().call);
+
+  assertEquals(await guarded("not found")(), Result.err("not found"));
+  assertEquals(CircuitBreaker.state(breaker), "Closed");
+  await guarded("boom")();
+  assertEquals(CircuitBreaker.state(breaker), "Open");
+});
+
+// ---------------------------------------------------------------------------
+// failure rate
+// ---------------------------------------------------------------------------
+
+Deno.test("CircuitBreaker opens when the failure rate over the window is reached", async () => {
+  const breaker = CircuitBreaker.make({ failureRate: 0.5, window: 4, cooldown: 1000 });
+  const guarded = CircuitBreaker.protect(breaker)(service().call);
+
+  await guarded("boom")();
+  await guarded("boom")();
+  await guarded("ok")();
+  assertEquals(CircuitBreaker.state(breaker), "Closed"); // fewer calls than the window
+  await guarded("ok")();
+  assertEquals(CircuitBreaker.state(breaker), "Open"); // 2 of the last 4 failed
+});
+
+Deno.test("CircuitBreaker only counts the last window calls", async () => {
+  const breaker = CircuitBreaker.make({
+    failureRate: 0.5,
+    window: 3,
+    minimumCalls: 1,
+    cooldown: 1000,
+  });
+  const guarded = CircuitBreaker.protect(breaker)(service().call);
+
+  await guarded("ok")();
+  await guarded("ok")();
+  await guarded("boom")();
+  await guarded("ok")();
+  assertEquals(CircuitBreaker.state(breaker), "Closed"); // 1 of the last 3 failed
+  await guarded("boom")();
+  assertEquals(CircuitBreaker.state(breaker), "Open"); // 2 of the last 3 failed
+});
+
+// ---------------------------------------------------------------------------
+// half-open
+// ---------------------------------------------------------------------------
+
+Deno.test("CircuitBreaker turns half-open after the cool-down and closes on a successful trial", async () => {
+  const clock = fakeClock();
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 1, cooldown: 1000, now: clock.now });
+  const guarded = CircuitBreaker.protect(breaker)(service().call);
+
+  await guarded("boom")();
+  clock.advance(1000);
+  assertEquals(CircuitBreaker.state(breaker), "HalfOpen");
+  assertEquals(await guarded("ok")(), Result.ok("ok"));
+  assertEquals(CircuitBreaker.state(breaker), "Closed");
+});
+
+Deno.test("CircuitBreaker reopens for another cool-down when the trial fails", async () => {
+  const clock = fakeClock();
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 1, cooldown: 1000, now: clock.now });
+  const guarded = CircuitBreaker.protect(breaker)(service().call);
+
+  await guarded("boom")();
+  clock.advance(1000);
+  assertEquals(await guarded("still down")(), Result.err("still down"));
+  assertEquals(CircuitBreaker.state(breaker), "Open");
+  clock.advance(999);
+  assertEquals(await guarded("ok")(), Result.err({ kind: "CircuitOpen", retryAfter: 1 }));
+});
+
+Deno.test("CircuitBreaker lets a single trial through while half-open", async () => {
+  const clock = fakeClock();
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 1, cooldown: 1000, now: clock.now });
+  let release: () => void = () => {};
+  const slow = (): TaskResult<string, string> =>
+    Task.from(() => new Promise((resolve) => (release = () => resolve(Result.ok("trial")))));
+  const guarded = CircuitBreaker.protect(breaker)((input: string) =>
+    input === "slow" ? slow() : TaskResult.err(input)
+  );
+
+  await guarded("boom")();
+  clock.advance(1000);
+  const trial = Deferred.toPromise(guarded("slow")());
+  await Promise.resolve();
+  assertEquals(await guarded("other")(), Result.err({ kind: "CircuitOpen", retryAfter: 1000 }));
+  release();
+  assertEquals(await trial, Result.ok("trial"));
+  assertEquals(CircuitBreaker.state(breaker), "Closed");
+});
+
+Deno.test("CircuitBreaker gives up an aborted trial and lets the next call through", async () => {
+  const clock = fakeClock();
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 1, cooldown: 1000, now: clock.now });
+  const hanging = (): TaskResult<string, string> => Task.from(() => new Promise(() => {}));
+  const guarded = CircuitBreaker.protect(breaker)((input: string) =>
+    input === "hang" ? hanging() : input === "ok" ? TaskResult.ok(input) : TaskResult.err(input)
+  );
+
+  await guarded("boom")();
+  clock.advance(1000);
+  const controller = new AbortController();
+  guarded("hang")(controller.signal);
+  await Promise.resolve();
+  controller.abort();
+  assertEquals(await guarded("ok")(), Result.ok("ok"));
+  assertEquals(CircuitBreaker.state(breaker), "Closed");
+});
+
+Deno.test("CircuitBreaker gives up a trial still running after another cool-down", async () => {
+  const clock = fakeClock();
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 1, cooldown: 1000, now: clock.now });
+  const hanging = (): TaskResult<string, string> => Task.from(() => new Promise(() => {}));
+  const guarded = CircuitBreaker.protect(breaker)((input: string) =>
+    input === "hang" ? hanging() : input === "ok" ? TaskResult.ok(input) : TaskResult.err(input)
+  );
+
+  await guarded("boom")();
+  clock.advance(1000);
+  guarded("hang")();
+  await Promise.resolve();
+  clock.advance(400);
+  assertEquals(await guarded("ok")(), Result.err({ kind: "CircuitOpen", retryAfter: 600 }));
+  clock.advance(600);
+  assertEquals(await guarded("ok")(), Result.ok("ok"));
+  assertEquals(CircuitBreaker.state(breaker), "Closed");
+});
+
+// ---------------------------------------------------------------------------
+// onStateChange / reset / isCircuitOpen
+// ---------------------------------------------------------------------------
+
+Deno.test("CircuitBreaker reports every state change", async () => {
+  const clock = fakeClock();
+  const changes: [CircuitState, CircuitState][] = [];
+  const breaker = CircuitBreaker.make({
+    consecutiveFailures: 1,
+    cooldown: 1000,
+    now: clock.now,
+    onStateChange: (from, to) => changes.push([from, to]),
+  });
+  const guarded = CircuitBreaker.protect(breaker)(service().call);
+
+  await guarded("boom")();
+  clock.advance(1000);
+  await guarded("ok")();
+  assertEquals(changes, [["Closed", "Open"], ["Open", "HalfOpen"], ["HalfOpen", "Closed"]]);
+});
+
+Deno.test("CircuitBreaker.reset closes an open circuit", async () => {
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 1, cooldown: 1000 });
+  const guarded = CircuitBreaker.protect(breaker)(service().call);
+
+  await guarded("boom")();
+  CircuitBreaker.reset(breaker);
+  assertEquals(CircuitBreaker.state(breaker), "Closed");
+  assertEquals(await guarded("ok")(), Result.ok("ok"));
+});
+
+Deno.test("CircuitBreaker trips every function protected by the same breaker", async () => {
+  const breaker = CircuitBreaker.make({ consecutiveFailures: 1, cooldown: 1000 });
+  const users = CircuitBreaker.protect(breaker)(service().call);
+  const orders = service();
+  const guardedOrders = CircuitBreaker.protect(breaker)(orders.call);
+
+  await users("boom")();
+  await guardedOrders("ok")();
+  assertEquals(orders.calls, []);
+});
+
+Deno.test("CircuitBreaker.isCircuitOpen recognises only the CircuitOpen error", () => {
+  assertEquals(CircuitBreaker.isCircuitOpen({ kind: "CircuitOpen", retryAfter: 0 }), true);
+  assertEquals(CircuitBreaker.isCircuitOpen({ kind: "Other" }), false);
+  assertEquals(CircuitBreaker.isCircuitOpen("CircuitOpen"), false);
+  assertEquals(CircuitBreaker.isCircuitOpen(null), false);
+});
@@ -0,0 +1,110 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Combinable } from "../Combinable.ts";
+import { Option } from "../Option.ts";
+
+// Checks that `empty` is neutral on both sides and that `combine` is associative for the
+// given sample values.
+const assertLaws = <A>(c: Combinable<A>, a: A, b: A, d: A) => {
+  assertEquals(c.combine(c.empty, a), a);
+  assertEquals(c.combine(a, c.empty), a);
+  assertEquals(c.combine(c.combine(a, b), d), c.combine(a, c.combine(b, d)));
+};
+
+// ---------------------------------------------------------------------------
+// primitives
+// ---------------------------------------------------------------------------
+
+Deno.test("Combinable.string concatenates", () => {
+  assertStrictEquals(Combinable.string.combine("ab", "cd"), "abcd");
+  assertLaws(Combinable.string, "a", "b", "c");
+});
+
+Deno.test("Combinable.sum and Combinable.product", () => {
+  assertStrictEquals(Combinable.sum.combine(2, 3), 5);
+  assertStrictEquals(Combinable.product.combine(2, 3), 6);
+  assertLaws(Combinable.sum, 1, 2, 3);
+  assertLaws(Combinable.product, 2, 3, 4);
+});
+
+Deno.test("Combinable.min and Combinable.max", () => {
+  assertStrictEquals(Combinable.min.combine(2, 3), 2);
+  assertStrictEquals(Combinable.max.combine(2, 3), 3);
+  assertLaws(Combinable.min, 5, -1, 3);
+  assertLaws(Combinable.max, 5, -1, 3);
+});
+
+Deno.test("Combinable.all and Combinable.any", () => {
+  assertStrictEquals(Combinable.all.combine(true, false), false);
+  assertStrictEquals(Combinable.any.combine(true, false), true);
+  assertStrictEquals(Combinable.all.empty, true);
+  assertStrictEquals(Combinable.any.empty, false);
+  assertLaws(Combinable.all, true, false, true);
+  assertLaws(Combinable.any, true, false, false);
+});
+
+Deno.test("Combinable.make builds an instance from combine and empty", () => {
+  const longest = Combinable.make((a: string, b: string) => (b.length > a.length ? b : a), "");
+  assertStrictEquals(longest.combine("pipe", "pipeline"), "pipeline");
+  assertStrictEquals(longest.empty, "");
+});
+
+// ---------------------------------------------------------------------------
+// arrays
+// ---------------------------------------------------------------------------
+
+Deno.test("Combinable.array concatenates without mutating", () => {
+  const a = [1, 2];
+  assertEquals(Combinable.array<number>().combine(a, [3]), [1, 2, 3]);
+  assertEquals(a, [1, 2]);
+  assertLaws(Combinable.array<number>(), [1], [2, 3], [4]);
+});
+
+// ---------------------------------------------------------------------------
+// Option
+// ---------------------------------------------------------------------------
+
+Deno.test("Combinable.first keeps the first Some", () => {
+  const c = Combinable.first<number>();
+  assertEquals(c.combine(Option.some(1), Option.some(2)), Option.some(1));
+  assertEquals(c.combine(Option.none(), Option.some(2)), Option.some(2));
+  assertLaws(c, Option.some(1), Option.none(), Option.some(3));
+});
+
+Deno.test("Combinable.last keeps the last Some", () => {
+  const c = Combinable.last<number>();
+  assertEquals(c.combine(Option.some(1), Option.some(2)), Option.some(2));
+  assertEquals(c.combine(Option.some(1), Option.none()), Option.some(1));
+  assertLaws(c, Option.some(1), Option.none(), Option.some(3));
+});
+
+Deno.test("Combinable.option combines inner values and skips None", () => {
+  const c = Combinable.option(Combinable.sum);
+  assertEquals(c.combine(Option.some(1), Option.some(2)), Option.some(3));
+  assertEquals(c.combine(Option.some(1), Option.none()), Option.some(1));
+  assertEquals(c.empty, Option.none());
+  assertLaws(c, Option.some(1), Option.none(), Option.some(3));
+});
+
+// ---------------------------------------------------------------------------
+// records and structs
+// ---------------------------------------------------------------------------
+
+Deno.test("Combinable.record merges keys and combines shared values", () => {
+  const c = Combinable.record(Combinable.sum);
+  assertEquals(c.combine({ a: 1, b: 2 }, { b: 10, c: 3 }), { a: 1, b: 12, c: 3 });
+  assertEquals(c.empty, {});
+  assertLaws(c, { a: 1 }, { a: 2, b: 1 }, { b: 5 });
+});
+
+Deno.test("Combinable.struct combines each field with its own instance", () => {
+  const c = Combinable.struct<{ hits: number; slowest: number; paths: readonly string[] }>({
+    hits: Combinable.sum,
+    slowest: Combinable.max,
+    paths: Combinable.array(),
+  });
+  assertEquals(
+    c.combine({ hits: 1, slowest: 120, paths: ["/a"] }, { hits: 2, slowest: 80, paths: ["/b"] }),
+    { hits: 3, slowest: 120, paths: ["/a", "/b"] },
+  );
+  assertEquals(c.empty, { hits: 0, slowest: -Infinity, paths: [] });
+});
@@ -0,0 +1,234 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { DecodedType, Decoder } from "../Decoder.ts";
+import { Refinement } from "../Refinement.ts";
+import { Validation } from "../Validation.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+// ---------------------------------------------------------------------------
+// primitives
+// ---------------------------------------------------------------------------
+
+Deno.test("Decoder.string accepts strings", () => {
+  assertEquals(Decoder.string("hi"), Validation.valid("hi"));
+});
+
+Deno.test("Decoder.string rejects other values", () => {
+  assertEquals(Decoder.string(1), Validation.invalid({ path: "", message: "expected string" }));
+});
+
+Deno.test("Decoder.number accepts numbers and rejects NaN", () => {
+  assertEquals(Decoder.number(1.5), Validation.valid(1.5));
+  assertEquals(Decoder.number(NaN), Validation.invalid({ path: "", message: "expected number" }));
+  assertEquals(Decoder.number("1"), Validation.invalid({ path: "", message: "expected number" }));
+});
+
+Deno.test("Decoder.boolean accepts booleans", () => {
+  assertEquals(Decoder.boolean(false), Validation.valid(false));
+  assertEquals(Decoder.boolean(0), Validation.invalid({ path: "", message: "expected boolean" }));
+});
+
+Deno.test("Decoder.literal accepts only the listed values", () => {
+  const Role = Decoder.literal("admin", "member");
+  assertEquals(Role("admin"), Validation.valid("admin"));
+  assertEquals(
+    Role("guest"),
+    Validation.invalid({ path: "", message: 'expected "admin" | "member"' }),
+  );
+});
+
+// ---------------------------------------------------------------------------
+// struct
+// ---------------------------------------------------------------------------
+
+Deno.test("Decoder.struct decodes every field and drops unknown keys", () => {
+  const Point = Decoder.struct({ x: Decoder.number, y: Decoder.number });
+  assertEquals(Point({ x: 1, y: 2, z: 3 }), Validation.valid({ x: 1, y: 2 }));
+});
+
+Deno.test("Decoder.struct accumulates errors for every failing field", () => {
+  const Point = Decoder.struct({ x: Decoder.number, y: Decoder.number });
+  assertEquals(
+    Point({ x: "1" }),
+    Validation.invalidAll([
+      { path: "x", message: "expected number" },
+      { path: "y", message: "expected number" },
+    ]),
+  );
+});
+
+Deno.test("Decoder.struct rejects non-objects", () => {
+  const Point = Decoder.struct({ x: Decoder.number });
+  assertEquals(Point([1]), Validation.invalid({ path: "", message: "expected object" }));
+  assertEquals(Point(null), Validation.invalid({ path: "", message: "expected object" }));
+});
+
+Deno.test("Decoder.struct brackets keys that are not identifiers", () => {
+  const Headers = Decoder.struct({ "content-type": Decoder.string });
+  assertEquals(
+    Headers({}),
+    Validation.invalid({ path: '["content-type"]', message: "expected string" }),
+  );
+});
+
+// ---------------------------------------------------------------------------
+// array / record
+// ---------------------------------------------------------------------------
+
+Deno.test("Decoder.array decodes every element", () => {
+  assertEquals(Decoder.array(Decoder.number)([1, 2]), Validation.valid([1, 2]));
+});
+
+Deno.test("Decoder.array reports the index of each failing element", () => {
+  assertEquals(
+    Decoder.array(Decoder.number)([1, "2", true]),
+    Validation.invalidAll([
+      { path: "[1]", message: "expected number" },
+      { path: "[2]", message: "expected number" },
+    ]),
+  );
+});
+
+Deno.test("Decoder.array rejects non-arrays", () => {
+  assertEquals(
+    Decoder.array(Decoder.number)({}),
+    Validation.invalid({ path: "", message: "expected array" }),
+  );
+});
+
+Deno.test("Decoder.record decodes every value", () => {
+  assertEquals(Decoder.record(Decoder.number)({ a: 1, b: 2 }), Validation.valid({ a: 1, b: 2 }));
+});
+
+Deno.test("Decoder.record reports the key of each failing value", () => {
+  assertEquals(
+    Decoder.record(Decoder.number)({ a: 1, b: "x" }),
+    Validation.invalid({ path: "b", message: "expected number" }),
+  );
+});
+
+// ---------------------------------------------------------------------------
+// nested paths
+// ---------------------------------------------------------------------------
+
+Deno.test("Decoder builds JSON paths through nested structs and arrays", () => {
+  const Payload = Decoder.struct({
+    users: Decoder.array(Decoder.struct({ email: Decoder.string })),
+  });
+  const input = {
+    users: [{ email: "a@x" }, { email: "b@x" }, { email: "c@x" }, { email: 4 }],
+  };
+  assertEquals(
+    Payload(input),
+    Validation.invalid({ path: "users[3].email", message: "expected string" }),
+  );
+});
+
+Deno.test("Decoder builds JSON paths through arrays of arrays and records", () => {
+  const Grid = Decoder.record(Decoder.array(Decoder.array(Decoder.number)));
+  assertEquals(
+    Grid({ main: [[1], [2, "x"]] }),
+    Validation.invalid({ path: "main[1][1]", message: "expected number" }),
+  );
+});
+
+Deno.test("Decoder.formatError renders the path and message", () => {
+  assertEquals(
+    Decoder.formatError({ path: "users[3].email", message: "expected string" }),
+    "users[3].email: expected string",
+  );
+  assertEquals(Decoder.formatError({ path: "", message: "expected object" }), "expected object");
+});
+
+// ---------------------------------------------------------------------------
+// union
+// ---------------------------------------------------------------------------
+
+Deno.test("Decoder.union returns the first successful alternative", () => {
+  const Id = Decoder.union(Decoder.string, Decoder.number);
+  assertEquals(Id("a"), Validation.valid("a"));
+  assertEquals(Id(1), Validation.valid(1));
+});
+
+Deno.test("Decoder.union reports the errors of every alternative", () => {
+  const Id = Decoder.union(Decoder.string, Decoder.number);
+  assertEquals(
+    Id(true),
+    Validation.invalidAll([
+      { path: "", message: "expected string" },
+      { path: "", message: "expected number" },
+    ]),
+  );
+});
+
+// ---------------------------------------------------------------------------
+// optional / nullable
+// ---------------------------------------------------------------------------
+
+Deno.test("Decoder.optional allows a struct field to be missing", () => {
+  const Profile = Decoder.struct({ name: Decoder.string, bio: Decoder.optional(Decoder.string) });
+  assertEquals(Profile({ name: "a" }), Validation.valid({ name: "a" }));
+  assertEquals(Profile({ name: "a", bio: "b" }), Validation.valid({ name: "a", bio: "b" }));
+});
+
+Deno.test("Decoder.optional still checks a present value", () => {
+  const Profile = Decoder.struct({ bio: Decoder.optional(Decoder.string) });
+  assertEquals(
+    Profile({ bio: 1 }),
+    Validation.invalid({ path: "bio", message: "expected string" }),
+  );
+});
+
+Deno.test("Decoder.nullable accepts null", () => {
+  const MaybeName = Decoder.nullable(Decoder.string);
+  assertEquals(MaybeName(null), Validation.valid(null));
+  assertEquals(MaybeName("a"), Validation.valid("a"));
+  assertEquals(MaybeName(undefined), Validation.invalid({ path: "", message: "expected string" }));
+});
+
+// ---------------------------------------------------------------------------
+// refine / map
+// ---------------------------------------------------------------------------
+
+type Email = string & { readonly _tag: "Email" };
+const isEmail: Refinement<string, Email> = Refinement.make((s) => s.includes("@"));
+
+Deno.test("Decoder.refine narrows a decoded value", () => {
+  const EmailDecoder = pipe(Decoder.string, Decoder.refine(isEmail, "expected email"));
+  assertEquals(EmailDecoder("a@b"), Validation.valid("a@b" as Email));
+  assertEquals(EmailDecoder("nope"), Validation.invalid({ path: "", message: "expected email" }));
+});
+
+Deno.test("Decoder.refine failures inside a struct carry the field path", () => {
+  const Contact = Decoder.struct({
+    email: pipe(Decoder.string, Decoder.refine(isEmail, "expected email")),
+  });
+  assertEquals(
+    Contact({ email: "nope" }),
+    Validation.invalid({ path: "email", message: "expected email" }),
+  );
+});
+
+Deno.test("Decoder.map transforms the decoded value", () => {
+  const Length = pipe(Decoder.string, Decoder.map((s: string) => s.length));
+  assertEquals(Length("abc"), Validation.valid(3));
+});
+
+// ---------------------------------------------------------------------------
+// inference
+// ---------------------------------------------------------------------------
+
+Deno.test("DecodedType infers the type from the definition", () => {
+  const User = Decoder.struct({
+    name: Decoder.string,
+    role: Decoder.literal("admin", "member"),
+    tags: Decoder.array(Decoder.string),
+    age: Decoder.optional(Decoder.number),
+    nickname: Decoder.nullable(Decoder.string),
+  });
+  type User = DecodedType<typeof User>;
+  const user: User = { name: "a", role: "admin", tags: [], nickname: null };
+  assertEquals(
+    User(user),
+    Validation.valid({ name: "a", role: "admin", tags: [], nickname: null }),
+  );
+});
@@ -0,0 +1,122 @@
+import { assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Equality } from "../Equality.ts";
+import { Option } from "../Option.ts";
+import { Result } from "../Result.ts";
+import { These } from "../These.ts";
+import { Validation } from "../Validation.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+// ---------------------------------------------------------------------------
+// primitives
+// ---------------------------------------------------------------------------
+
+Deno.test("Equality.strict compares by reference", () => {
+  const obj = { a: 1 };
+  assertStrictEquals(Equality.strict(obj, obj), true);
+  assertStrictEquals(Equality.strict(obj, { a: 1 }), false);
+});
+
+Deno.test("Equality.string compares strings", () => {
+  assertStrictEquals(Equality.string("a", "a"), true);
+  assertStrictEquals(Equality.string("a", "b"), false);
+});
+
+Deno.test("Equality.number treats NaN as equal to itself", () => {
+  assertStrictEquals(Equality.number(1, 1), true);
+  assertStrictEquals(Equality.number(1, 2), false);
+  assertStrictEquals(Equality.number(NaN, NaN), true);
+});
+
+Deno.test("Equality.boolean compares booleans", () => {
+  assertStrictEquals(Equality.boolean(true, true), true);
+  assertStrictEquals(Equality.boolean(true, false), false);
+});
+
+Deno.test("Equality.date compares the instant, not the reference", () => {
+  assertStrictEquals(Equality.date(new Date(0), new Date(0)), true);
+  assertStrictEquals(Equality.date(new Date(0), new Date(1)), false);
+});
+
+// ---------------------------------------------------------------------------
+// struct / tuple / array / record
+// ---------------------------------------------------------------------------
+
+type Point = { x: number; y: number };
+const pointEquality = Equality.struct<Point>({ x: Equality.number, y: Equality.number });
+
+Deno.test("Equality.struct compares every field", () => {
+  assertStrictEquals(pointEquality({ x: 1, y: 2 }, { x: 1, y: 2 }), true);
+  assertStrictEquals(pointEquality({ x: 1, y: 2 }, { x: 1, y: 3 }), false);
+});
+
+Deno.test("Equality.tuple compares every position", () => {
+  const eq = Equality.tuple(Equality.string, Equality.number);
+  assertStrictEquals(eq(["a", 1], ["a", 1]), true);
+  assertStrictEquals(eq(["a", 1], ["a", 2]), false);
+});
+
+Deno.test("Equality.array compares length and elements pairwise", () => {
+  const eq = Equality.array(pointEquality);
+  assertStrictEquals(eq([{ x: 1, y: 2 }], [{ x: 1, y: 2 }]), true);
+  assertStrictEquals(eq([{ x: 1, y: 2 }], [{ x: 1, y: 2 }, { x: 1, y: 2 }]), false);
+  assertStrictEquals(eq([{ x: 1, y: 2 }], [{ x: 2, y: 2 }]), false);
+});
+
+Deno.test("Equality.record compares keys and values", () => {
+  const eq = Equality.record(Equality.number);
+  assertStrictEquals(eq({ a: 1, b: 2 }, { b: 2, a: 1 }), true);
+  assertStrictEquals(eq({ a: 1 }, { b: 1 }), false);
+  assertStrictEquals(eq({ a: 1 }, { a: 1, b: 2 }), false);
+});
+
+// ---------------------------------------------------------------------------
+// using
+// ---------------------------------------------------------------------------
+
+Deno.test("Equality.using compares a projection of the values", () => {
+  type User = { id: string; name: string };
+  const byId = pipe(Equality.string, Equality.using((u: User) => u.id));
+  assertStrictEquals(byId({ id: "1", name: "a" }, { id: "1", name: "b" }), true);
+  assertStrictEquals(byId({ id: "1", name: "a" }, { id: "2", name: "a" }), false);
+});
+
+// ---------------------------------------------------------------------------
+// Option / Result / Validation / These
+// ---------------------------------------------------------------------------
+
+Deno.test("Equality.option compares Some values and treats None as equal to None", () => {
+  const eq = Equality.option(pointEquality);
+  assertStrictEquals(eq(Option.some({ x: 1, y: 2 }), Option.some({ x: 1, y: 2 })), true);
+  assertStrictEquals(eq(Option.none(), Option.none()), true);
+  assertStrictEquals(eq(Option.some({ x: 1, y: 2 }), Option.none()), false);
+  assertStrictEquals(eq(Option.none(), Option.some({ x: 1, y: 2 })), false);
+});
+
+Deno.test("Equality.result compares each side with its own Equality", () => {
+  const eq = Equality.result<string, number>(Equality.string, Equality.number);
+  assertStrictEquals(eq(Result.ok(1), Result.ok(1)), true);
+  assertStrictEquals(eq(Result.err("a"), Result.err("a")), true);
+  assertStrictEquals(eq(Result.ok(1), Result.err("a")), false);
+  assertStrictEquals(eq(Result.err("a"), Result.err("b")), false);
+});
+
+Deno.test("Equality.validation compares values and error lists", () => {
+  const eq = Equality.validation<string, number>(Equality.string, Equality.number);
+  assertStrictEquals(eq(Validation.valid(1), Validation.valid(1)), true);
+  assertStrictEquals(
+    eq(Validation.invalidAll(["a", "b"]), Validation.invalidAll(["a", "b"])),
+    true,
+  );
+  assertStrictEquals(eq(Validation.invalidAll(["a", "b"]), Validation.invalid("a")), false);
+  assertStrictEquals(eq(Validation.valid(1), Validation.invalid("a")), false);
+});
+
+Deno.test("Equality.these requires the same variant and equal values", () => {
+  const eq = Equality.these<string, number>(Equality.string, Equality.number);
+  assertStrictEquals(eq(These.first("a"), These.first("a")), true);
+  assertStrictEquals(eq(These.second(1), These.second(1)), true);
+  assertStrictEquals(eq(These.both("a", 1), These.both("a", 1)), true);
+  assertStrictEquals(eq(These.both("a", 1), These.both("a", 2)), false);
+  assertStrictEquals(eq(These.first("a"), These.both("a", 1)), false);
+  assertStrictEquals(eq(These.second(1), These.first("a")), false);
+});
@@ -0,0 +1,98 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Iso } from "../Iso.ts";
+import { Lens } from "../Lens.ts";
+import { Option } from "../Option.ts";
+import { Prism } from "../Prism.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+type LatLng = { lat: number; lng: number };
+
+const fahrenheit = Iso.make(
+  (c: number) => (c * 9) / 5 + 32,
+  (f: number) => ((f - 32) * 5) / 9,
+);
+
+const point = Iso.make(
+  ([lat, lng]: readonly [number, number]): LatLng => ({ lat, lng }),
+  ({ lat, lng }: LatLng): readonly [number, number] => [lat, lng],
+);
+
+// ---------------------------------------------------------------------------
+// make / get / reverseGet
+// ---------------------------------------------------------------------------
+
+Deno.test("Iso.get converts to the focused representation", () => {
+  assertStrictEquals(pipe(100, Iso.get(fahrenheit)), 212);
+});
+
+Deno.test("Iso.reverseGet converts back to the original representation", () => {
+  assertStrictEquals(pipe(212, Iso.reverseGet(fahrenheit)), 100);
+});
+
+Deno.test("Iso.id converts a value to itself", () => {
+  const id = Iso.id<string>();
+  assertStrictEquals(id.get("a"), "a");
+  assertStrictEquals(id.reverseGet("a"), "a");
+});
+
+// ---------------------------------------------------------------------------
+// reverse / modify
+// ---------------------------------------------------------------------------
+
+Deno.test("Iso.reverse swaps the two directions", () => {
+  const celsius = Iso.reverse(fahrenheit);
+  assertStrictEquals(celsius.get(212), 100);
+  assertStrictEquals(celsius.reverseGet(100), 212);
+});
+
+Deno.test("Iso.modify applies the function in the focused representation", () => {
+  assertStrictEquals(pipe(20, Iso.modify(fahrenheit)((f) => f + 9)), 25);
+});
+
+// ---------------------------------------------------------------------------
+// andThen
+// ---------------------------------------------------------------------------
+
+Deno.test("Iso.andThen with an Iso produces an Iso", () => {
+  const swap = Iso.make(
+    ({ lat, lng }: LatLng): LatLng => ({ lat: lng, lng: lat }),
+    ({ lat, lng }: LatLng): LatLng => ({ lat: lng, lng: lat }),
+  );
+  const swapped: Iso<readonly [number, number], LatLng> = pipe(point, Iso.andThen(swap));
+  assertEquals(swapped.get([1, 2]), { lat: 2, lng: 1 });
+  assertEquals(swapped.reverseGet({ lat: 2, lng: 1 }), [1, 2]);
+});
+
+Deno.test("Iso.andThen with a Lens produces a Lens", () => {
+  const latLens: Lens<readonly [number, number], number> = pipe(
+    point,
+    Iso.andThen(Lens.prop<LatLng>()("lat")),
+  );
+  assertStrictEquals(latLens.get([52, 13]), 52);
+  assertEquals(pipe([52, 13] as const, Lens.set(latLens)(48)), [48, 13]);
+});
+
+Deno.test("Iso.andThen with a Prism produces a Prism", () => {
+  type Boxed = { readonly value: Option<number> };
+  const unbox = Iso.make((b: Boxed) => b.value, (value: Option<number>): Boxed => ({ value }));
+  const boxedNumber: Prism<Boxed, number> = pipe(unbox, Iso.andThen(Prism.some<number>()));
+  assertEquals(boxedNumber.getOption({ value: Option.some(1) }), Option.some(1));
+  assertEquals(boxedNumber.getOption({ value: Option.none() }), Option.none());
+  assertEquals(boxedNumber.reverseGet(2), { value: Option.some(2) });
+});
+
+// ---------------------------------------------------------------------------
+// toLens / toPrism
+// ---------------------------------------------------------------------------
+
+Deno.test("Iso.toLens get converts and set replaces with the converted value", () => {
+  const lens = Iso.toLens(fahrenheit);
+  assertStrictEquals(lens.get(100), 212);
+  assertStrictEquals(lens.set(212)(0), 100);
+});
+
+Deno.test("Iso.toPrism getOption always returns Some", () => {
+  const prism = Iso.toPrism(fahrenheit);
+  assertEquals(prism.getOption(0), Option.some(32));
+  assertStrictEquals(prism.reverseGet(32), 0);
+});
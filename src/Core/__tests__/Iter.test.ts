@@ -0,0 +1,181 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Iter } from "../Iter.ts";
+import { Option } from "../Option.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+// Yields the source values while recording how many were read.
+const counted = <A>(values: readonly A[], log: { reads: number }): Iterable<A> => ({
+  *[Symbol.iterator]() {
+    for (const v of values) {
+      log.reads++;
+      yield v;
+    }
+  },
+});
+
+// ---------------------------------------------------------------------------
+// laziness
+// ---------------------------------------------------------------------------
+
+Deno.test("Iter transformations do not evaluate until a terminal operation runs", () => {
+  const log = { reads: 0 };
+  let mapped = 0;
+  const pipeline = pipe(
+    counted([1, 2, 3], log),
+    Iter.map((n: number) => {
+      mapped++;
+      return n * 2;
+    }),
+    Iter.filter((n: number) => n > 2),
+  );
+  assertStrictEquals(log.reads, 0);
+  assertStrictEquals(mapped, 0);
+  assertEquals(Iter.toArray(pipeline), [4, 6]);
+  assertStrictEquals(mapped, 3);
+});
+
+Deno.test("Iter.take stops reading the source once satisfied", () => {
+  const log = { reads: 0 };
+  const result = pipe(counted([1, 2, 3, 4, 5], log), Iter.take(2), Iter.toArray);
+  assertEquals(result, [1, 2]);
+  assertStrictEquals(log.reads, 2);
+});
+
+Deno.test("Iter pipelines can be iterated more than once", () => {
+  const doubled = pipe([1, 2, 3], Iter.map((n: number) => n * 2));
+  assertEquals(Iter.toArray(doubled), [2, 4, 6]);
+  assertEquals(Iter.toArray(doubled), [2, 4, 6]);
+});
+
+// ---------------------------------------------------------------------------
+// range / unfold
+// ---------------------------------------------------------------------------
+
+Deno.test("Iter.range produces numbers up to the exclusive end", () => {
+  assertEquals(Iter.toArray(Iter.range(0, 5)), [0, 1, 2, 3, 4]);
+});
+
+Deno.test("Iter.range supports custom and negative steps", () => {
+  assertEquals(Iter.toArray(Iter.range(0, 10, 3)), [0, 3, 6, 9]);
+  assertEquals(Iter.toArray(Iter.range(10, 0, -5)), [10, 5]);
+});
+
+Deno.test("Iter.range without an end is infinite", () => {
+  assertEquals(pipe(Iter.range(5), Iter.take(3), Iter.toArray), [5, 6, 7]);
+});
+
+Deno.test("Iter.range with a zero step is empty", () => {
+  assertEquals(Iter.toArray(Iter.range(0, 5, 0)), []);
+});
+
+Deno.test("Iter.unfold builds a sequence from a seed until None", () => {
+  const countdown = Iter.unfold(
+    3,
+    (n: number) => n > 0 ? Option.some([n, n - 1] as const) : Option.none(),
+  );
+  assertEquals(Iter.toArray(countdown), [3, 2, 1]);
+});
+
+Deno.test("Iter.unfold can describe infinite sequences", () => {
+  const fib = Iter.unfold(
+    [0, 1] as const,
+    ([a, b]: readonly [number, number]) => Option.some([a, [b, a + b] as const] as const),
+  );
+  assertEquals(pipe(fib, Iter.take(7), Iter.toArray), [0, 1, 1, 2, 3, 5, 8]);
+});
+
+// ---------------------------------------------------------------------------
+// map / filter / flatMap
+// ---------------------------------------------------------------------------
+
+Deno.test("Iter.map transforms each value", () => {
+  assertEquals(pipe([1, 2, 3], Iter.map((n: number) => n * 10), Iter.toArray), [10, 20, 30]);
+});
+
+Deno.test("Iter.filter keeps matching values", () => {
+  assertEquals(pipe([1, 2, 3, 4], Iter.filter((n: number) => n % 2 === 0), Iter.toArray), [2, 4]);
+});
+
+Deno.test("Iter.flatMap flattens inner iterables", () => {
+  assertEquals(
+    pipe([1, 2], Iter.flatMap((n: number) => [n, n * 10]), Iter.toArray),
+    [1, 10, 2, 20],
+  );
+});
+
+Deno.test("Iter.flatMap works over infinite inner sequences with take", () => {
+  assertEquals(
+    pipe([1, 2], Iter.flatMap((n: number) => Iter.range(n)), Iter.take(3), Iter.toArray),
+    [1, 2, 3],
+  );
+});
+
+// ---------------------------------------------------------------------------
+// take / drop / takeWhile
+// ---------------------------------------------------------------------------
+
+Deno.test("Iter.take with zero or negative n is empty", () => {
+  const log = { reads: 0 };
+  assertEquals(pipe(counted([1, 2], log), Iter.take(0), Iter.toArray), []);
+  assertStrictEquals(log.reads, 0);
+});
+
+Deno.test("Iter.drop skips the first n values", () => {
+  assertEquals(pipe([1, 2, 3, 4], Iter.drop(2), Iter.toArray), [3, 4]);
+  assertEquals(pipe([1, 2], Iter.drop(5), Iter.toArray), []);
+});
+
+Deno.test("Iter.takeWhile stops at the first failing value", () => {
+  assertEquals(pipe([1, 2, 5, 1], Iter.takeWhile((n: number) => n < 3), Iter.toArray), [1, 2]);
+});
+
+// ---------------------------------------------------------------------------
+// zip / scan / chunksOf
+// ---------------------------------------------------------------------------
+
+Deno.test("Iter.zip pairs values and stops at the shorter side", () => {
+  assertEquals(pipe([1, 2, 3], Iter.zip(["a", "b"]), Iter.toArray), [[1, "a"], [2, "b"]]);
+  assertEquals(pipe([1], Iter.zip(Iter.range(0)), Iter.toArray), [[1, 0]]);
+});
+
+Deno.test("Iter.scan yields every intermediate accumulator", () => {
+  assertEquals(
+    pipe([1, 2, 3], Iter.scan(0, (acc: number, n: number) => acc + n), Iter.toArray),
+    [1, 3, 6],
+  );
+});
+
+Deno.test("Iter.chunksOf groups values, with a smaller last chunk", () => {
+  assertEquals(pipe([1, 2, 3, 4, 5], Iter.chunksOf(2), Iter.toArray), [[1, 2], [3, 4], [5]]);
+  assertEquals(pipe([] as number[], Iter.chunksOf(2), Iter.toArray), []);
+});
+
+// ---------------------------------------------------------------------------
+// terminal operations
+// ---------------------------------------------------------------------------
+
+Deno.test("Iter.toArray accepts any iterable", () => {
+  assertEquals(Iter.toArray(new Set([1, 2])), [1, 2]);
+  assertEquals(Iter.toArray("ab"), ["a", "b"]);
+});
+
+Deno.test("Iter.reduce folds every value", () => {
+  assertStrictEquals(pipe(Iter.range(1, 5), Iter.reduce(0, (acc, n) => acc + n)), 10);
+});
+
+Deno.test("Iter.find returns the first match and stops reading", () => {
+  const log = { reads: 0 };
+  assertEquals(pipe(counted([1, 2, 3, 4], log), Iter.find((n) => n > 1)), Option.some(2));
+  assertStrictEquals(log.reads, 2);
+});
+
+Deno.test("Iter.find returns None when nothing matches", () => {
+  assertEquals(pipe([1, 2], Iter.find((n) => n > 5)), Option.none());
+});
+
+Deno.test("Iter.find works on infinite sequences", () => {
+  assertEquals(
+    pipe(Iter.range(1), Iter.map((n: number) => n * n), Iter.find((n) => n > 50)),
+    Option.some(64),
+  );
+});
@@ -0,0 +1,115 @@
+import {
+  assertEquals,
+  assertStrictEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Lazy } from "../Lazy.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+// Returns a Lazy together with a counter of how often its thunk ran.
+const counted = <A>(value: A) => {
+  const log = { runs: 0 };
+  const lazy = Lazy.defer(() => {
+    log.runs++;
+    return value;
+  });
+  return { lazy, log };
+};
+
+// ---------------------------------------------------------------------------
+// of / defer / force / isEvaluated
+// ---------------------------------------------------------------------------
+
+Deno.test("Lazy.of is already evaluated", () => {
+  const lazy = Lazy.of(42);
+  assertStrictEquals(Lazy.isEvaluated(lazy), true);
+  assertStrictEquals(Lazy.force(lazy), 42);
+});
+
+Deno.test("Lazy.defer does not run the thunk until forced", () => {
+  const { lazy, log } = counted(42);
+  assertStrictEquals(log.runs, 0);
+  assertStrictEquals(Lazy.isEvaluated(lazy), false);
+  assertStrictEquals(Lazy.force(lazy), 42);
+  assertStrictEquals(Lazy.isEvaluated(lazy), true);
+});
+
+Deno.test("Lazy.force runs the thunk at most once", () => {
+  const { lazy, log } = counted({ big: "table" });
+  const first = Lazy.force(lazy);
+  const second = Lazy.force(lazy);
+  assertStrictEquals(first, second);
+  assertStrictEquals(log.runs, 1);
+});
+
+Deno.test("Lazy.force caches undefined results", () => {
+  const { lazy, log } = counted(undefined);
+  Lazy.force(lazy);
+  Lazy.force(lazy);
+  assertStrictEquals(log.runs, 1);
+});
+
+Deno.test("Lazy.defer retries a thunk that threw", () => {
+  let attempts = 0;
+  const lazy = Lazy.defer(() => {
+    attempts++;
+    if (attempts === 1) throw new Error("not yet");
+    return "ok";
+  });
+  assertThrows(() => Lazy.force(lazy), Error, "not yet");
+  assertStrictEquals(Lazy.isEvaluated(lazy), false);
+  assertStrictEquals(Lazy.force(lazy), "ok");
+});
+
+// ---------------------------------------------------------------------------
+// map / chain / zip
+// ---------------------------------------------------------------------------
+
+Deno.test("Lazy.map does not evaluate until the result is forced", () => {
+  const { lazy, log } = counted(2);
+  const doubled = pipe(lazy, Lazy.map((n: number) => n * 2));
+  assertStrictEquals(log.runs, 0);
+  assertStrictEquals(Lazy.force(doubled), 4);
+  assertStrictEquals(Lazy.isEvaluated(lazy), true);
+});
+
+Deno.test("Lazy.map shares the cached source between derived Lazies", () => {
+  const { lazy, log } = counted(2);
+  const doubled = pipe(lazy, Lazy.map((n: number) => n * 2));
+  const tripled = pipe(lazy, Lazy.map((n: number) => n * 3));
+  assertStrictEquals(Lazy.force(doubled) + Lazy.force(tripled), 10);
+  assertStrictEquals(log.runs, 1);
+});
+
+Deno.test("Lazy.map evaluates its own function at most once", () => {
+  let calls = 0;
+  const mapped = pipe(
+    Lazy.of(1),
+    Lazy.map((n: number) => {
+      calls++;
+      return n + 1;
+    }),
+  );
+  Lazy.force(mapped);
+  Lazy.force(mapped);
+  assertStrictEquals(calls, 1);
+});
+
+Deno.test("Lazy.chain sequences Lazies lazily", () => {
+  const { lazy, log } = counted(3);
+  const chained = pipe(lazy, Lazy.chain((n: number) => Lazy.defer(() => n * 10)));
+  assertStrictEquals(log.runs, 0);
+  assertStrictEquals(Lazy.force(chained), 30);
+  assertStrictEquals(Lazy.force(chained), 30);
+  assertStrictEquals(log.runs, 1);
+});
+
+Deno.test("Lazy.zip pairs two Lazies and forces both", () => {
+  const a = counted("a");
+  const b = counted(1);
+  const zipped = pipe(a.lazy, Lazy.zip(b.lazy));
+  assertStrictEquals(a.log.runs + b.log.runs, 0);
+  assertEquals(Lazy.force(zipped), ["a", 1]);
+  assertStrictEquals(Lazy.isEvaluated(a.lazy), true);
+  assertStrictEquals(Lazy.isEvaluated(b.lazy), true);
+});
@@ -1,6 +1,8 @@
-import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Iso } from "../Iso.ts";
 import { Lens } from "../Lens.ts";
 import { Optional } from "../Optional.ts";
+import { Prism } from "../Prism.ts";
 import { pipe } from "../../Composition/pipe.ts";
 
 type Address = { city: string; zip: string };
@@ -106,6 +108,45 @@ Deno.test("Lens.andThen modify updates the nested field", () => {
   assertEquals(updated.address.city, "BERLIN");
 });
 
+type Shape = { kind: "Circle"; radius: number } | { kind: "Square"; side: number };
+type Drawing = { title: string; shape: Shape };
+
+Deno.test("Lens.andThen with a Prism produces an Optional", () => {
+  const circleOpt = pipe(
+    Lens.prop<Drawing>()("shape"),
+    Lens.andThen(Prism.fromKind<Shape>()("Circle")),
+  );
+  const round: Drawing = { title: "a", shape: { kind: "Circle", radius: 1 } };
+  const square: Drawing = { title: "b", shape: { kind: "Square", side: 2 } };
+
+  assertEquals(pipe(round, Optional.get(circleOpt)), {
+    kind: "Some",
+    value: { kind: "Circle", radius: 1 },
+  });
+  assertEquals(pipe(square, Optional.get(circleOpt)), { kind: "None" });
+});
+
+Deno.test("Lens.andThen with a Prism sets only when the case matches", () => {
+  const circleOpt = pipe(
+    Lens.prop<Drawing>()("shape"),
+    Lens.andThen(Prism.fromKind<Shape>()("Circle")),
+  );
+  const round: Drawing = { title: "a", shape: { kind: "Circle", radius: 1 } };
+  const square: Drawing = { title: "b", shape: { kind: "Square", side: 2 } };
+
+  const updated = pipe(round, Optional.set(circleOpt)({ kind: "Circle", radius: 3 }));
+  assertEquals(updated, { title: "a", shape: { kind: "Circle", radius: 3 } });
+  assertStrictEquals(pipe(square, Optional.set(circleOpt)({ kind: "Circle", radius: 3 })), square);
+});
+
+Deno.test("Lens.andThen with an Iso produces a Lens", () => {
+  const upper = Iso.make((s: string) => s.toUpperCase(), (s: string) => s.toLowerCase());
+  const upperName: Lens<User, string> = pipe(Lens.prop<User>()("name"), Lens.andThen(upper));
+
+  assertEquals(pipe(alice, Lens.get(upperName)), "ALICE");
+  assertEquals(pipe(alice, Lens.set(upperName)("BOB")).name, "bob");
+});
+
 // ---------------------------------------------------------------------------
 // andThenOptional
 // ---------------------------------------------------------------------------
@@ -141,6 +182,39 @@ Deno.test("Lens.andThenOptional set updates inner value", () => {
   assertEquals(updated.profile.bio, "updated");
 });
 
+// ---------------------------------------------------------------------------
+// path
+// ---------------------------------------------------------------------------
+
+type Customer = { name: string; address: Address };
+type Order = { id: string; customer: Customer; items: readonly string[] };
+
+const order: Order = {
+  id: "o1",
+  customer: { name: "Alice", address: { city: "Berlin", zip: "10115" } },
+  items: ["pen"],
+};
+
+Deno.test("Lens.path get reads the nested field", () => {
+  const cityLens = Lens.path<Order>()("customer", "address", "city");
+  assertEquals(pipe(order, Lens.get(cityLens)), "Berlin");
+});
+
+Deno.test("Lens.path set copies only the objects along the path", () => {
+  const cityLens = Lens.path<Order>()("customer", "address", "city");
+  const updated = pipe(order, Lens.set(cityLens)("Hamburg"));
+
+  assertEquals(updated.customer.address, { city: "Hamburg", zip: "10115" });
+  assertEquals(order.customer.address.city, "Berlin");
+  assertStrictEquals(updated.items, order.items);
+  assertStrictEquals(updated.customer.name, order.customer.name);
+});
+
+Deno.test("Lens.path with a single key behaves like Lens.prop", () => {
+  const idLens = Lens.path<Order>()("id");
+  assertEquals(pipe(order, Lens.modify(idLens)((id) => id.toUpperCase())).id, "O1");
+});
+
 // ---------------------------------------------------------------------------
 // toOptional
 // ---------------------------------------------------------------------------
@@ -0,0 +1,139 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Map } from "../Map.ts";
+import { Option } from "../Option.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+const of = <K, V>(...entries: (readonly [K, V])[]): ReadonlyMap<K, V> =>
+  new globalThis.Map(entries);
+
+// ---------------------------------------------------------------------------
+// lookup
+// ---------------------------------------------------------------------------
+
+Deno.test("Map.lookup returns Some for a present key", () => {
+  assertEquals(pipe(of([1, "a"]), Map.lookup(1)), Option.some("a"));
+});
+
+Deno.test("Map.lookup returns None for a missing key", () => {
+  assertEquals(pipe(of([1, "a"]), Map.lookup(2)), Option.none());
+});
+
+Deno.test("Map.lookup returns Some for a key stored with an undefined value", () => {
+  assertEquals(
+    pipe(of<string, undefined>(["a", undefined]), Map.lookup("a")),
+    Option.some(undefined),
+  );
+});
+
+Deno.test("Map.lookup compares object keys by reference", () => {
+  const key = { id: 1 };
+  const data = of([key, "a"]);
+  assertEquals(pipe(data, Map.lookup(key)), Option.some("a"));
+  assertEquals(pipe(data, Map.lookup({ id: 1 })), Option.none());
+});
+
+// ---------------------------------------------------------------------------
+// insert / remove
+// ---------------------------------------------------------------------------
+
+Deno.test("Map.insert adds or replaces a key without mutating the input", () => {
+  const data = of([1, "a"]);
+  assertEquals(pipe(data, Map.insert(2, "b")), of([1, "a"], [2, "b"]));
+  assertEquals(pipe(data, Map.insert(1, "z")), of([1, "z"]));
+  assertEquals(data, of([1, "a"]));
+});
+
+Deno.test("Map.remove deletes a key without mutating the input", () => {
+  const data = of([1, "a"], [2, "b"]);
+  assertEquals(pipe(data, Map.remove(1)), of([2, "b"]));
+  assertEquals(data.size, 2);
+});
+
+Deno.test("Map.remove returns the same map when the key is missing", () => {
+  const data = of([1, "a"]);
+  assertStrictEquals(pipe(data, Map.remove(9)), data);
+});
+
+// ---------------------------------------------------------------------------
+// modifyAt / upsertAt
+// ---------------------------------------------------------------------------
+
+Deno.test("Map.modifyAt updates a present key", () => {
+  const data = of([1, 10]);
+  assertEquals(pipe(data, Map.modifyAt(1, (n: number) => n + 1)), Option.some(of([1, 11])));
+  assertEquals(data, of([1, 10]));
+});
+
+Deno.test("Map.modifyAt returns None for a missing key", () => {
+  assertEquals(pipe(of([1, 10]), Map.modifyAt(2, (n: number) => n + 1)), Option.none());
+});
+
+Deno.test("Map.upsertAt receives None for a missing key and Some for a present one", () => {
+  const increment = Map.upsertAt(
+    "clicks",
+    Option.match({ some: (n: number) => n + 1, none: () => 1 }),
+  );
+  assertEquals(pipe(of<string, number>(), increment), of(["clicks", 1]));
+  assertEquals(pipe(of<string, number>(), increment, increment), of(["clicks", 2]));
+});
+
+// ---------------------------------------------------------------------------
+// map / filter / partition
+// ---------------------------------------------------------------------------
+
+Deno.test("Map.map transforms values and keeps keys", () => {
+  assertEquals(pipe(of([1, 2], [2, 3]), Map.map((n: number) => `${n}`)), of([1, "2"], [2, "3"]));
+});
+
+Deno.test("Map.filter keeps entries whose value matches", () => {
+  assertEquals(pipe(of([1, 2], [2, 3]), Map.filter((n: number) => n > 2)), of([2, 3]));
+});
+
+Deno.test("Map.partition splits entries by the predicate", () => {
+  const [pass, fail] = pipe(of(["a", 1], ["b", 0], ["c", 5]), Map.partition((n: number) => n > 0));
+  assertEquals(pass, of(["a", 1], ["c", 5]));
+  assertEquals(fail, of(["b", 0]));
+});
+
+// ---------------------------------------------------------------------------
+// union
+// ---------------------------------------------------------------------------
+
+Deno.test("Map.union keeps keys from both maps and combines shared ones", () => {
+  const result = pipe(
+    of(["a", 1], ["b", 2]),
+    Map.union((x: number, y: number) => x + y)(of(["b", 10], ["c", 3])),
+  );
+  assertEquals(result, of(["a", 1], ["b", 12], ["c", 3]));
+});
+
+Deno.test("Map.union passes the piped value first to combine", () => {
+  const result = pipe(
+    of(["k", "left"]),
+    Map.union((x: string, y: string) => `${x}-${y}`)(of(["k", "right"])),
+  );
+  assertEquals(result, of(["k", "left-right"]));
+});
+
+// ---------------------------------------------------------------------------
+// keys / values / fromArray
+// ---------------------------------------------------------------------------
+
+Deno.test("Map.keys and Map.values return arrays in insertion order", () => {
+  const data = of([2, "b"], [1, "a"]);
+  assertEquals(Map.keys(data), [2, 1]);
+  assertEquals(Map.values(data), ["b", "a"]);
+});
+
+Deno.test("Map.fromArray keys elements by keyFn", () => {
+  const users = [{ id: 1, name: "Ann" }, { id: 2, name: "Bo" }];
+  assertEquals(
+    pipe(users, Map.fromArray((u) => u.id)),
+    of([1, users[0]], [2, users[1]]),
+  );
+});
+
+Deno.test("Map.fromArray keeps the last element for duplicate keys", () => {
+  const result = pipe(["apple", "avocado", "banana"], Map.fromArray((s: string) => s[0]));
+  assertEquals(result, of(["a", "avocado"], ["b", "banana"]));
+});
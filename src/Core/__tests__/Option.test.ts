@@ -1,4 +1,5 @@
 import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Combinable } from "../Combinable.ts";
 import { Option } from "../Option.ts";
 import { Result } from "../Result.ts";
 import { pipe } from "../../Composition/pipe.ts";
@@ -447,6 +448,30 @@ Deno.test("Option.recover preserves Some typed as Option<A | B>", () => {
   assertEquals(result, { kind: "Some", value: 42 });
 });
 
+// ---------------------------------------------------------------------------
+// combine
+// ---------------------------------------------------------------------------
+
+Deno.test("Option.combine combines two Somes, piped value first", () => {
+  assertEquals(
+    pipe(Option.some(1), Option.combine(Combinable.sum)(Option.some(2))),
+    Option.some(3),
+  );
+  assertEquals(
+    pipe(Option.some("a"), Option.combine(Combinable.string)(Option.some("b"))),
+    Option.some("ab"),
+  );
+});
+
+Deno.test("Option.combine returns the Some when the other is None", () => {
+  assertEquals(pipe(Option.some(1), Option.combine(Combinable.sum)(Option.none())), Option.some(1));
+  assertEquals(pipe(Option.none(), Option.combine(Combinable.sum)(Option.some(2))), Option.some(2));
+});
+
+Deno.test("Option.combine returns None when both are None", () => {
+  assertEquals(pipe(Option.none(), Option.combine(Combinable.sum)(Option.none())), Option.none());
+});
+
 // ---------------------------------------------------------------------------
 // ap
 // ---------------------------------------------------------------------------
@@ -510,3 +535,83 @@ Deno.test("Option pipe short-circuits on None", () => {
   );
   assertStrictEquals(result, 0);
 });
+
+// ---------------------------------------------------------------------------
+// lift2 / lift3 / all / struct
+// ---------------------------------------------------------------------------
+
+Deno.test("Option.lift2 applies the function when both are Some", () => {
+  const add = Option.lift2((a: number, b: number) => a + b);
+  assertEquals(add(Option.some(1), Option.some(2)), Option.some(3));
+});
+
+Deno.test("Option.lift2 returns None when either is None", () => {
+  const add = Option.lift2((a: number, b: number) => a + b);
+  assertEquals(add(Option.some(1), Option.none()), Option.none());
+  assertEquals(add(Option.none(), Option.some(2)), Option.none());
+});
+
+Deno.test("Option.lift3 applies the function when all are Some", () => {
+  const join = Option.lift3((a: string, b: number, c: boolean) => `${a}${b}${c}`);
+  assertEquals(join(Option.some("a"), Option.some(1), Option.some(true)), Option.some("a1true"));
+  assertEquals(join(Option.some("a"), Option.some(1), Option.none()), Option.none());
+});
+
+Deno.test("Option.all collects a tuple of Somes", () => {
+  const result = Option.all([Option.some("alice"), Option.some(30)] as const);
+  assertEquals(result, Option.some(["alice", 30] as const));
+});
+
+Deno.test("Option.all returns None when any element is None", () => {
+  assertEquals(Option.all([Option.some(1), Option.none(), Option.some(3)]), Option.none());
+});
+
+Deno.test("Option.all of an empty tuple is Some of an empty tuple", () => {
+  assertEquals(Option.all([] as const), Option.some([] as const));
+});
+
+Deno.test("Option.struct collects a record of Somes", () => {
+  const result = Option.struct({ name: Option.some("alice"), age: Option.some(30) });
+  assertEquals(result, Option.some({ name: "alice", age: 30 }));
+});
+
+Deno.test("Option.struct returns None when any field is None", () => {
+  assertEquals(Option.struct({ name: Option.some("alice"), age: Option.none() }), Option.none());
+});
+
+// ---------------------------------------------------------------------------
+// gen
+// ---------------------------------------------------------------------------
+
+Deno.test("Option.gen unwraps every Some and wraps the returned value", () => {
+  const result = Option.gen(function* ($) {
+    const a = yield* $(Option.some(2));
+    const b = yield* $(Option.some(3));
+    return a * b;
+  });
+  assertEquals(result, Option.some(6));
+});
+
+Deno.test("Option.gen stops at the first None", () => {
+  let reached = false;
+  const result = Option.gen(function* ($) {
+    const a = yield* $(Option.some(2));
+    yield* $(Option.none());
+    reached = true;
+    return a;
+  });
+  assertEquals(result, Option.none());
+  assertStrictEquals(reached, false);
+});
+
+Deno.test("Option.gen runs finally blocks when it stops early", () => {
+  let cleaned = false;
+  Option.gen(function* ($) {
+    try {
+      return yield* $(Option.none());
+    } finally {
+      cleaned = true;
+    }
+  });
+  assertStrictEquals(cleaned, true);
+});
@@ -1,6 +1,9 @@
 import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { Optional } from "../Optional.ts";
+import { Iso } from "../Iso.ts";
 import { Lens } from "../Lens.ts";
+import { Prism } from "../Prism.ts";
+import { Result } from "../Result.ts";
 import { pipe } from "../../Composition/pipe.ts";
 
 type Address = { city: string; zip: string; landmark?: string };
@@ -284,6 +287,33 @@ Deno.test("Optional.andThen set is a no-op when inner focus is absent", () => {
   assertEquals(updated.capital?.landmark, "Eiffel");
 });
 
+Deno.test("Optional.andThen with a Prism focuses through the matching case", () => {
+  type Job = { result?: Result<string, number> };
+  const okOpt = pipe(Optional.prop<Job>()("result"), Optional.andThen(Prism.ok<string, number>()));
+
+  assertEquals(pipe({ result: Result.ok(1) }, Optional.get(okOpt)), { kind: "Some", value: 1 });
+  assertEquals(pipe({ result: Result.err("e") }, Optional.get(okOpt)), { kind: "None" });
+  assertEquals(pipe({}, Optional.get(okOpt)), { kind: "None" });
+  assertEquals(pipe({ result: Result.ok(1) }, Optional.set(okOpt)(2)), { result: Result.ok(2) });
+  const failed: Job = { result: Result.err("e") };
+  assertStrictEquals(pipe(failed, Optional.set(okOpt)(2)), failed);
+});
+
+Deno.test("Optional.andThen with an Iso converts the focused value", () => {
+  const chars = Iso.make((s: string) => s.split(""), (cs: readonly string[]) => cs.join(""));
+  const landmarkChars = pipe(Optional.prop<City>()("landmark"), Optional.andThen(chars));
+
+  assertEquals(
+    pipe({ name: "Rome", landmark: "Forum" }, Optional.get(landmarkChars)),
+    { kind: "Some", value: ["F", "o", "r", "u", "m"] },
+  );
+  assertEquals(pipe({ name: "Rome" }, Optional.get(landmarkChars)), { kind: "None" });
+  assertEquals(
+    pipe({ name: "Rome", landmark: "Forum" }, Optional.set(landmarkChars)(["a", "b"])),
+    { name: "Rome", landmark: "ab" },
+  );
+});
+
 // ---------------------------------------------------------------------------
 // andThenLens
 // ---------------------------------------------------------------------------
@@ -323,3 +353,70 @@ Deno.test("Optional.andThenLens set is a no-op when optional focus is absent", (
   const region: Region = {};
   assertEquals(pipe(region, Optional.set(capitalNameOpt)("Lyon")), region);
 });
+
+// ---------------------------------------------------------------------------
+// path
+// ---------------------------------------------------------------------------
+
+type Line = { sku: string; price: number };
+type Order = {
+  customer: { name: string; address?: { city: string; landmark?: string } };
+  phone: string | null;
+  lines: readonly Line[];
+};
+
+const order: Order = {
+  customer: { name: "Alice", address: { city: "Paris" } },
+  phone: null,
+  lines: [{ sku: "a", price: 10 }, { sku: "b", price: 25 }],
+};
+
+Deno.test("Optional.path get returns Some when every step is present", () => {
+  const cityOpt = Optional.path<Order>()("customer", "address", "city");
+  assertEquals(pipe(order, Optional.get(cityOpt)), { kind: "Some", value: "Paris" });
+});
+
+Deno.test("Optional.path get returns None when a step is missing", () => {
+  const landmarkOpt = Optional.path<Order>()("customer", "address", "landmark");
+  const cityOpt = Optional.path<Order>()("customer", "address", "city");
+  const noAddress: Order = { ...order, customer: { name: "Bob" } };
+
+  assertEquals(pipe(order, Optional.get(landmarkOpt)), { kind: "None" });
+  assertEquals(pipe(noAddress, Optional.get(cityOpt)), { kind: "None" });
+  assertEquals(pipe(order, Optional.get(Optional.path<Order>()("phone"))), { kind: "None" });
+});
+
+Deno.test("Optional.path steps through array indices", () => {
+  const secondPrice = Optional.path<Order>()("lines", 1, "price");
+  const thirdPrice = Optional.path<Order>()("lines", 2, "price");
+
+  assertEquals(pipe(order, Optional.get(secondPrice)), { kind: "Some", value: 25 });
+  assertEquals(pipe(order, Optional.get(thirdPrice)), { kind: "None" });
+});
+
+Deno.test("Optional.path set copies only the objects and arrays along the path", () => {
+  const secondPrice = Optional.path<Order>()("lines", 1, "price");
+  const updated = pipe(order, Optional.set(secondPrice)(30));
+
+  assertEquals(updated.lines[1], { sku: "b", price: 30 });
+  assertEquals(order.lines[1].price, 25);
+  assertStrictEquals(updated.lines[0], order.lines[0]);
+  assertStrictEquals(updated.customer, order.customer);
+});
+
+Deno.test("Optional.path set inserts an absent final field", () => {
+  const landmarkOpt = Optional.path<Order>()("customer", "address", "landmark");
+  const updated = pipe(order, Optional.set(landmarkOpt)("Louvre"));
+  assertEquals(updated.customer.address, { city: "Paris", landmark: "Louvre" });
+});
+
+Deno.test("Optional.path set is a no-op when an intermediate step is missing", () => {
+  const cityOpt = Optional.path<Order>()("customer", "address", "city");
+  const noAddress: Order = { ...order, customer: { name: "Bob" } };
+  assertStrictEquals(pipe(noAddress, Optional.set(cityOpt)("Lyon")), noAddress);
+});
+
+Deno.test("Optional.path set is a no-op when an index is out of bounds", () => {
+  const thirdPrice = Optional.path<Order>()("lines", 2, "price");
+  assertStrictEquals(pipe(order, Optional.set(thirdPrice)(1)), order);
+});
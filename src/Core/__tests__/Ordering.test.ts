@@ -0,0 +1,137 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Ordering } from "../Ordering.ts";
+import { Option } from "../Option.ts";
+import { Result } from "../Result.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+const sortWith = <A>(ord: Ordering<A>) => (data: readonly A[]): readonly A[] => [...data].sort(ord);
+
+// ---------------------------------------------------------------------------
+// primitives
+// ---------------------------------------------------------------------------
+
+Deno.test("Ordering.number orders numbers ascending", () => {
+  assertStrictEquals(Ordering.number(1, 2) < 0, true);
+  assertStrictEquals(Ordering.number(2, 1) > 0, true);
+  assertStrictEquals(Ordering.number(1, 1), 0);
+});
+
+Deno.test("Ordering.string orders by code unit", () => {
+  assertEquals(pipe(["b", "a", "B"], sortWith(Ordering.string)), ["B", "a", "b"]);
+});
+
+Deno.test("Ordering.localeString orders according to the locale", () => {
+  assertEquals(pipe(["b", "a", "B"], sortWith(Ordering.localeString("en"))), ["a", "b", "B"]);
+});
+
+Deno.test("Ordering.localeString accepts collator options", () => {
+  const natural = Ordering.localeString("en", { numeric: true });
+  assertEquals(pipe(["item 10", "item 2"], sortWith(natural)), ["item 2", "item 10"]);
+});
+
+Deno.test("Ordering.date orders chronologically", () => {
+  const earlier = new Date(0);
+  const later = new Date(1000);
+  assertEquals(pipe([later, earlier], sortWith(Ordering.date)), [earlier, later]);
+  assertStrictEquals(Ordering.date(new Date(5), new Date(5)), 0);
+});
+
+// ---------------------------------------------------------------------------
+// reverse / using / combine
+// ---------------------------------------------------------------------------
+
+type Person = { first: string; last: string; age: number };
+
+const people: Person[] = [
+  { first: "Bo", last: "Smith", age: 40 },
+  { first: "Al", last: "Jones", age: 30 },
+  { first: "Al", last: "Smith", age: 20 },
+];
+
+const byAge = pipe(Ordering.number, Ordering.using((p: Person) => p.age));
+const byLast = pipe(Ordering.string, Ordering.using((p: Person) => p.last));
+const byFirst = pipe(Ordering.string, Ordering.using((p: Person) => p.first));
+
+Deno.test("Ordering.reverse sorts descending", () => {
+  assertEquals(pipe([1, 3, 2], sortWith(Ordering.reverse(Ordering.number))), [3, 2, 1]);
+});
+
+Deno.test("Ordering.using compares a projection", () => {
+  assertEquals(pipe(people, sortWith(byAge)).map((p) => p.age), [20, 30, 40]);
+});
+
+Deno.test("Ordering.combine breaks ties with later orderings", () => {
+  const sorted = pipe(people, sortWith(Ordering.combine(byLast, byFirst)));
+  assertEquals(sorted.map((p) => `${p.first} ${p.last}`), ["Al Jones", "Al Smith", "Bo Smith"]);
+});
+
+Deno.test("Ordering.combine returns 0 when every ordering ties", () => {
+  assertStrictEquals(Ordering.combine(byLast, byFirst)(people[0], { ...people[0], age: 99 }), 0);
+});
+
+Deno.test("Ordering.combine can mix directions", () => {
+  const sorted = pipe(people, sortWith(Ordering.combine(byFirst, Ordering.reverse(byAge))));
+  assertEquals(sorted.map((p) => p.age), [30, 20, 40]);
+});
+
+// ---------------------------------------------------------------------------
+// nullsFirst / nullsLast
+// ---------------------------------------------------------------------------
+
+Deno.test("Ordering.nullsFirst places null and undefined first", () => {
+  const ord = Ordering.nullsFirst(Ordering.number);
+  assertEquals(pipe([2, null, 1], sortWith(ord)), [null, 1, 2]);
+  assertStrictEquals(ord(undefined, 1) < 0, true);
+  assertStrictEquals(ord(null, undefined), 0);
+});
+
+Deno.test("Ordering.nullsLast places null and undefined last", () => {
+  const ord = Ordering.nullsLast(Ordering.number);
+  assertEquals(pipe([2, null, 1], sortWith(ord)), [1, 2, null]);
+  assertStrictEquals(ord(undefined, 1) > 0, true);
+});
+
+// ---------------------------------------------------------------------------
+// Option / Result
+// ---------------------------------------------------------------------------
+
+Deno.test("Ordering.option places None before Some", () => {
+  const sorted = pipe(
+    [Option.some(2), Option.none(), Option.some(1)],
+    sortWith(Ordering.option(Ordering.number)),
+  );
+  assertEquals(sorted, [Option.none(), Option.some(1), Option.some(2)]);
+});
+
+Deno.test("Ordering.result places Err before Ok", () => {
+  const sorted = pipe(
+    [Result.ok(2), Result.err("b"), Result.ok(1), Result.err("a")] as Result<string, number>[],
+    sortWith(Ordering.result(Ordering.string, Ordering.number)),
+  );
+  assertEquals(sorted, [Result.err("a"), Result.err("b"), Result.ok(1), Result.ok(2)]);
+});
+
+// ---------------------------------------------------------------------------
+// clamp / between
+// ---------------------------------------------------------------------------
+
+Deno.test("Ordering.clamp restricts a value to the range", () => {
+  const clamp = Ordering.clamp(Ordering.number)(0, 10);
+  assertStrictEquals(clamp(15), 10);
+  assertStrictEquals(clamp(-5), 0);
+  assertStrictEquals(clamp(5), 5);
+});
+
+Deno.test("Ordering.between includes both bounds", () => {
+  const inRange = Ordering.between(Ordering.number)(0, 10);
+  assertStrictEquals(inRange(0), true);
+  assertStrictEquals(inRange(10), true);
+  assertStrictEquals(inRange(11), false);
+  assertStrictEquals(inRange(-1), false);
+});
+
+Deno.test("Ordering.between works with any Ordering", () => {
+  const inYear = Ordering.between(Ordering.date)(new Date("2024-01-01"), new Date("2024-12-31"));
+  assertStrictEquals(inYear(new Date("2024-06-15")), true);
+  assertStrictEquals(inYear(new Date("2025-01-01")), false);
+});
@@ -0,0 +1,123 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Iso } from "../Iso.ts";
+import { Option } from "../Option.ts";
+import { Prism } from "../Prism.ts";
+import { Refinement } from "../Refinement.ts";
+import { Result } from "../Result.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+type Circle = { kind: "Circle"; radius: number };
+type Square = { kind: "Square"; side: number };
+type Shape = Circle | Square;
+
+const circle = Prism.fromKind<Shape>()("Circle");
+const unit: Circle = { kind: "Circle", radius: 1 };
+const box: Shape = { kind: "Square", side: 2 };
+
+// ---------------------------------------------------------------------------
+// make
+// ---------------------------------------------------------------------------
+
+Deno.test("Prism.make constructs a prism from getOption and reverseGet", () => {
+  const integer = Prism.make(
+    (s: string) => (/^-?\d+$/.test(s) ? Option.some(Number(s)) : Option.none()),
+    (n: number) => String(n),
+  );
+  assertEquals(integer.getOption("42"), Option.some(42));
+  assertEquals(integer.getOption("4.2"), Option.none());
+  assertStrictEquals(integer.reverseGet(7), "7");
+});
+
+// ---------------------------------------------------------------------------
+// fromRefinement
+// ---------------------------------------------------------------------------
+
+Deno.test("Prism.fromRefinement focuses on values that pass the refinement", () => {
+  const isString = Refinement.make<unknown, string>((u) => typeof u === "string");
+  const str = Prism.fromRefinement(isString);
+  assertEquals(str.getOption("hi"), Option.some("hi"));
+  assertEquals(str.getOption(42), Option.none());
+  assertStrictEquals(str.reverseGet("hi"), "hi");
+});
+
+// ---------------------------------------------------------------------------
+// fromKind
+// ---------------------------------------------------------------------------
+
+Deno.test("Prism.fromKind focuses on the matching variant", () => {
+  assertEquals(pipe(unit, Prism.getOption(circle)), Option.some(unit));
+  assertEquals(pipe(box, Prism.getOption(circle)), Option.none());
+});
+
+Deno.test("Prism.fromKind reverseGet returns the variant as the union", () => {
+  const shape: Shape = pipe({ kind: "Circle", radius: 3 } as Circle, Prism.reverseGet(circle));
+  assertEquals(shape, { kind: "Circle", radius: 3 });
+});
+
+// ---------------------------------------------------------------------------
+// some / ok / err
+// ---------------------------------------------------------------------------
+
+Deno.test("Prism.some focuses on the value inside Some", () => {
+  const prism = Prism.some<number>();
+  assertEquals(prism.getOption(Option.some(1)), Option.some(1));
+  assertEquals(prism.getOption(Option.none()), Option.none());
+  assertEquals(prism.reverseGet(2), Option.some(2));
+});
+
+Deno.test("Prism.ok focuses on the value inside Ok", () => {
+  const prism = Prism.ok<string, number>();
+  assertEquals(prism.getOption(Result.ok(1)), Option.some(1));
+  assertEquals(prism.getOption(Result.err("boom")), Option.none());
+  assertEquals(prism.reverseGet(2), Result.ok(2));
+});
+
+Deno.test("Prism.err focuses on the error inside Err", () => {
+  const prism = Prism.err<string, number>();
+  assertEquals(prism.getOption(Result.err("boom")), Option.some("boom"));
+  assertEquals(prism.getOption(Result.ok(1)), Option.none());
+  assertEquals(prism.reverseGet("bad"), Result.err("bad"));
+});
+
+// ---------------------------------------------------------------------------
+// modify
+// ---------------------------------------------------------------------------
+
+Deno.test("Prism.modify updates the focused case", () => {
+  const doubled = pipe(unit, Prism.modify(circle)((c) => ({ ...c, radius: c.radius * 2 })));
+  assertEquals(doubled, { kind: "Circle", radius: 2 });
+});
+
+Deno.test("Prism.modify returns other cases unchanged", () => {
+  const result = pipe(box, Prism.modify(circle)((c) => ({ ...c, radius: c.radius * 2 })));
+  assertStrictEquals(result, box);
+});
+
+// ---------------------------------------------------------------------------
+// andThen / toOptional
+// ---------------------------------------------------------------------------
+
+Deno.test("Prism.andThen composes two prisms", () => {
+  const okCircle = pipe(Prism.ok<string, Shape>(), Prism.andThen(circle));
+  assertEquals(okCircle.getOption(Result.ok(unit)), Option.some(unit));
+  assertEquals(okCircle.getOption(Result.ok(box)), Option.none());
+  assertEquals(okCircle.getOption(Result.err("boom")), Option.none());
+  assertEquals(
+    okCircle.reverseGet({ kind: "Circle", radius: 5 }),
+    Result.ok({ kind: "Circle", radius: 5 }),
+  );
+});
+
+Deno.test("Prism.andThen with an Iso produces a prism", () => {
+  const cents = Iso.make((n: number) => n * 100, (c: number) => c / 100);
+  const okCents = pipe(Prism.ok<string, number>(), Prism.andThen(cents));
+  assertEquals(okCents.getOption(Result.ok(1.5)), Option.some(150));
+  assertEquals(okCents.reverseGet(250), Result.ok(2.5));
+});
+
+Deno.test("Prism.toOptional get uses getOption and set replaces only a matching case", () => {
+  const opt = Prism.toOptional(Prism.some<number>());
+  assertEquals(opt.get(Option.some(1)), Option.some(1));
+  assertEquals(opt.set(3)(Option.some(1)), Option.some(3));
+  assertEquals(opt.set(3)(Option.none()), Option.none());
+});
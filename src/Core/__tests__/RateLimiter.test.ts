@@ -0,0 +1,154 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Deferred } from "../Deferred.ts";
+import { RateLimiter } from "../RateLimiter.ts";
+import { Result } from "../Result.ts";
+import { Task } from "../Task.ts";
+import { TaskResult } from "../TaskResult.ts";
+
+// A clock the tests move forward by hand.
+const fakeClock = () => {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => void (time += ms) };
+};
+
+// ---------------------------------------------------------------------------
+// tokenBucket
+// ---------------------------------------------------------------------------
+
+Deno.test("RateLimiter.tokenBucket allows a burst up to the capacity", () => {
+  const limiter = RateLimiter.tokenBucket({ capacity: 2, refillEvery: 100, now: () => 0 });
+
+  assertEquals(limiter.tryAcquire(), true);
+  assertEquals(limiter.tryAcquire(), true);
+  assertEquals(limiter.tryAcquire(), false);
+  assertEquals(limiter.retryAfter(), 100);
+});
+
+Deno.test("RateLimiter.tokenBucket refills one permit every refillEvery ms", () => {
+  const clock = fakeClock();
+  const limiter = RateLimiter.tokenBucket({ capacity: 2, refillEvery: 100, now: clock.now });
+
+  limiter.tryAcquire();
+  limiter.tryAcquire();
+  clock.advance(60);
+  assertEquals(limiter.tryAcquire(), false);
+  assertEquals(limiter.retryAfter(), 40);
+  clock.advance(40);
+  assertEquals(limiter.tryAcquire(), true);
+});
+
+Deno.test("RateLimiter.tokenBucket never holds more than the capacity", () => {
+  const clock = fakeClock();
+  const limiter = RateLimiter.tokenBucket({ capacity: 2, refillEvery: 100, now: clock.now });
+
+  clock.advance(10_000);
+  assertEquals([limiter.tryAcquire(), limiter.tryAcquire(), limiter.tryAcquire()], [
+    true,
+    true,
+    false,
+  ]);
+});
+
+// ---------------------------------------------------------------------------
+// slidingWindow
+// ---------------------------------------------------------------------------
+
+Deno.test("RateLimiter.slidingWindow allows at most limit calls within the window", () => {
+  const clock = fakeClock();
+  const limiter = RateLimiter.slidingWindow({ limit: 2, window: 1000, now: clock.now });
+
+  assertEquals(limiter.tryAcquire(), true);
+  clock.advance(300);
+  assertEquals(limiter.tryAcquire(), true);
+  assertEquals(limiter.tryAcquire(), false);
+  assertEquals(limiter.retryAfter(), 700);
+  clock.advance(700);
+  assertEquals(limiter.tryAcquire(), true); // the first call has left the window
+  assertEquals(limiter.tryAcquire(), false);
+});
+
+// ---------------------------------------------------------------------------
+// reject
+// ---------------------------------------------------------------------------
+
+Deno.test("RateLimiter.reject fails calls over the limit without making them", async () => {
+  const calls: string[] = [];
+  const limiter = RateLimiter.slidingWindow({ limit: 1, window: 1000, now: () => 0 });
+  const search = RateLimiter.reject(limiter)((query: string): TaskResult<string, string> => {
+    calls.push(query);
+    return TaskResult.ok(query);
+  });
+
+  assertEquals(await search("a")(), Result.ok("a"));
+  assertEquals(await search("b")(), Result.err({ kind: "RateLimited", retryAfter: 1000 }));
+  assertEquals(calls, ["a"]);
+});
+
+Deno.test("RateLimiter.isRateLimited recognises only the RateLimited error", () => {
+  assertEquals(RateLimiter.isRateLimited({ kind: "RateLimited", retryAfter: 0 }), true);
+  assertEquals(RateLimiter.isRateLimited({ kind: "Other" }), false);
+  assertEquals(RateLimiter.isRateLimited(undefined), false);
+});
+
+// ---------------------------------------------------------------------------
+// queue
+// ---------------------------------------------------------------------------
+
+Deno.test("RateLimiter.queue delays calls over the limit and runs them in order", async () => {
+  const started: number[] = [];
+  const limiter = RateLimiter.slidingWindow({ limit: 2, window: 30 });
+  const work = RateLimiter.queue(limiter)((n: number) =>
+    Task.from(() => {
+      started.push(n);
+      return Promise.resolve(n);
+    })
+  );
+
+  const start = Date.now();
+  const results = await Promise.all([1, 2, 3, 4].map((n) => Deferred.toPromise(work(n)())));
+
+  assertEquals(results, [1, 2, 3, 4]);
+  assertEquals(started, [1, 2, 3, 4]);
+  assertEquals(Date.now() - start >= 25, true);
+});
+
+Deno.test("RateLimiter.queue wraps TaskResult factories unchanged", async () => {
+  const limiter = RateLimiter.tokenBucket({ capacity: 1, refillEvery: 1000 });
+  const fail = RateLimiter.queue(limiter)(() => TaskResult.err<string, number>("boom"));
+
+  assertEquals(await fail()(), Result.err("boom"));
+});
+
+Deno.test("RateLimiter.queue takes an aborted call out of the line", async () => {
+  const started: string[] = [];
+  const limiter = RateLimiter.tokenBucket({ capacity: 1, refillEvery: 20 });
+  const work = RateLimiter.queue(limiter)((name: string) =>
+    Task.from(() => {
+      started.push(name);
+      return Promise.resolve(name);
+    })
+  );
+  const controller = new AbortController();
+
+  await work("first")();
+  work("aborted")(controller.signal);
+  const last = work("last")();
+  controller.abort();
+
+  assertEquals(await last, "last");
+  assertEquals(started, ["first", "last"]);
+});
+
+Deno.test("RateLimiter.reject does not jump ahead of queued calls", async () => {
+  const clock = fakeClock();
+  const limiter = RateLimiter.tokenBucket({ capacity: 1, refillEvery: 10, now: clock.now });
+  const queued = RateLimiter.queue(limiter)(() => TaskResult.ok<string, string>("queued"));
+  const rejecting = RateLimiter.reject(limiter)(() => TaskResult.ok<string, string>("rejecting"));
+
+  await queued()();
+  const waiting = queued()();
+  clock.advance(10); // a permit is free, but the queued call is first in line
+  const rejected = await rejecting()();
+  assertEquals(Result.isErr(rejected) && RateLimiter.isRateLimited(rejected.error), true);
+  assertEquals(await waiting, Result.ok("queued"));
+});
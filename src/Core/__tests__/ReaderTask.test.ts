@@ -0,0 +1,137 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ReaderTask } from "../ReaderTask.ts";
+import { Reader } from "../Reader.ts";
+import { Task } from "../Task.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+type Config = { baseUrl: string; retries: number };
+
+const testConfig: Config = { baseUrl: "https://api.example.com", retries: 3 };
+
+// ---------------------------------------------------------------------------
+// resolve / ask / asks
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTask.resolve ignores the environment", async () => {
+  const rt = ReaderTask.resolve<Config, number>(42);
+  assertStrictEquals(await rt(testConfig)(), 42);
+});
+
+Deno.test("ReaderTask.ask returns the full environment", async () => {
+  assertEquals(await ReaderTask.ask<Config>()(testConfig)(), testConfig);
+});
+
+Deno.test("ReaderTask.asks projects a value from the environment", async () => {
+  const rt = ReaderTask.asks((c: Config) => c.baseUrl);
+  assertStrictEquals(await rt(testConfig)(), "https://api.example.com");
+});
+
+// ---------------------------------------------------------------------------
+// fromReader / fromTask
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTask.fromReader lifts a synchronous Reader", async () => {
+  const reader: Reader<Config, string> = (c) => `${c.baseUrl}/users`;
+  assertStrictEquals(
+    await ReaderTask.fromReader(reader)(testConfig)(),
+    "https://api.example.com/users",
+  );
+});
+
+Deno.test("ReaderTask.asks and fromReader read the environment only when the Task runs", async () => {
+  const reads: string[] = [];
+  const asked = ReaderTask.asks((c: Config) => {
+    reads.push("asks");
+    return c.retries;
+  })(testConfig);
+  const lifted = ReaderTask.fromReader((c: Config) => {
+    reads.push("fromReader");
+    return c.baseUrl;
+  })(testConfig);
+  assertEquals(reads, []);
+  assertStrictEquals(await asked(), 3);
+  assertStrictEquals(await lifted(), "https://api.example.com");
+  assertEquals(reads, ["asks", "fromReader"]);
+});
+
+Deno.test("ReaderTask.fromTask lifts a Task that ignores the environment", async () => {
+  const rt = ReaderTask.fromTask<Config, number>(Task.resolve(7));
+  assertStrictEquals(await rt(testConfig)(), 7);
+});
+
+// ---------------------------------------------------------------------------
+// map / chain / ap
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTask.map transforms the produced value", async () => {
+  const rt = pipe(
+    ReaderTask.asks((c: Config) => c.retries),
+    ReaderTask.map((n: number) => n * 2),
+  );
+  assertStrictEquals(await rt(testConfig)(), 6);
+});
+
+Deno.test("ReaderTask.chain passes the same environment to both steps", async () => {
+  const rt = pipe(
+    ReaderTask.asks((c: Config) => c.baseUrl),
+    ReaderTask.chain((url: string) => (c: Config) => Task.resolve(`${url}?retries=${c.retries}`)),
+  );
+  assertStrictEquals(await rt(testConfig)(), "https://api.example.com?retries=3");
+});
+
+Deno.test("ReaderTask.ap applies a wrapped function to a wrapped value", async () => {
+  const add = (a: number) => (b: number) => a + b;
+  const rt = pipe(
+    ReaderTask.resolve<Config, typeof add>(add),
+    ReaderTask.ap(ReaderTask.asks((c: Config) => c.retries)),
+    ReaderTask.ap(ReaderTask.resolve<Config, number>(10)),
+  );
+  assertStrictEquals(await rt(testConfig)(), 13);
+});
+
+// ---------------------------------------------------------------------------
+// tap
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTask.tap runs a side effect and returns the value unchanged", async () => {
+  const seen: number[] = [];
+  const rt = pipe(
+    ReaderTask.asks((c: Config) => c.retries),
+    ReaderTask.tap((n: number) => {
+      seen.push(n);
+    }),
+  );
+  assertStrictEquals(await rt(testConfig)(), 3);
+  assertEquals(seen, [3]);
+});
+
+// ---------------------------------------------------------------------------
+// local / run
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTask.local adapts the environment", async () => {
+  type AppEnv = { config: Config; name: string };
+  const rt = pipe(
+    ReaderTask.asks((c: Config) => c.baseUrl),
+    ReaderTask.local((env: AppEnv) => env.config),
+  );
+  assertStrictEquals(await rt({ config: testConfig, name: "app" })(), "https://api.example.com");
+});
+
+Deno.test("ReaderTask.run supplies the environment and returns a Task", async () => {
+  const task = pipe(ReaderTask.asks((c: Config) => c.retries), ReaderTask.run(testConfig));
+  assertStrictEquals(await task(), 3);
+});
+
+Deno.test("ReaderTask does not run until the Task is called", async () => {
+  let calls = 0;
+  const rt: ReaderTask<Config, number> = (c) =>
+    Task.from(() => {
+      calls++;
+      return Promise.resolve(c.retries);
+    });
+  const task = pipe(rt, ReaderTask.map((n: number) => n + 1), ReaderTask.run(testConfig));
+  assertStrictEquals(calls, 0);
+  assertStrictEquals(await task(), 4);
+  assertStrictEquals(calls, 1);
+});
@@ -0,0 +1,240 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ReaderTaskResult } from "../ReaderTaskResult.ts";
+import { ReaderTask } from "../ReaderTask.ts";
+import { Result } from "../Result.ts";
+import { Task } from "../Task.ts";
+import { TaskResult } from "../TaskResult.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+type Config = { baseUrl: string; retries: number };
+
+const testConfig: Config = { baseUrl: "https://api.example.com", retries: 3 };
+
+// ---------------------------------------------------------------------------
+// ok / err / ask / asks
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTaskResult.ok creates a successful ReaderTaskResult", async () => {
+  const rtr = ReaderTaskResult.ok<Config, string, number>(42);
+  assertEquals(await rtr(testConfig)(), Result.ok(42));
+});
+
+Deno.test("ReaderTaskResult.err creates a failed ReaderTaskResult", async () => {
+  const rtr = ReaderTaskResult.err<Config, string, number>("boom");
+  assertEquals(await rtr(testConfig)(), Result.err("boom"));
+});
+
+Deno.test("ReaderTaskResult.ask returns the full environment as Ok", async () => {
+  assertEquals(await ReaderTaskResult.ask<Config, string>()(testConfig)(), Result.ok(testConfig));
+});
+
+Deno.test("ReaderTaskResult.asks projects a value from the environment", async () => {
+  const rtr = ReaderTaskResult.asks<Config, string, number>((c) => c.retries);
+  assertEquals(await rtr(testConfig)(), Result.ok(3));
+});
+
+// ---------------------------------------------------------------------------
+// tryCatch
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTaskResult.tryCatch returns Ok when the promise resolves", async () => {
+  const rtr = ReaderTaskResult.tryCatch(
+    (c: Config) => Promise.resolve(c.baseUrl),
+    String,
+  );
+  assertEquals(await rtr(testConfig)(), Result.ok("https://api.example.com"));
+});
+
+Deno.test("ReaderTaskResult.tryCatch maps rejections through onError", async () => {
+  const rtr = ReaderTaskResult.tryCatch(
+    (_c: Config) => Promise.reject(new Error("offline")),
+    (e) => (e as Error).message,
+  );
+  assertEquals(await rtr(testConfig)(), Result.err("offline"));
+});
+
+Deno.test("ReaderTaskResult.tryCatch passes the signal through", async () => {
+  let received: AbortSignal | undefined;
+  const rtr = ReaderTaskResult.tryCatch(
+    (_c: Config, signal?: AbortSignal) => {
+      received = signal;
+      return Promise.resolve(1);
+    },
+    String,
+  );
+  const controller = new AbortController();
+  await rtr(testConfig)(controller.signal);
+  assertStrictEquals(received, controller.signal);
+});
+
+// ---------------------------------------------------------------------------
+// lifting
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTaskResult.fromResult lifts a Result", async () => {
+  const rtr = ReaderTaskResult.fromResult<Config, string, number>(Result.err("nope"));
+  assertEquals(await rtr(testConfig)(), Result.err("nope"));
+});
+
+Deno.test("ReaderTaskResult.fromReader lifts a Reader as Ok", async () => {
+  const rtr = ReaderTaskResult.fromReader<Config, string, string>((c) => `${c.baseUrl}/users`);
+  assertEquals(await rtr(testConfig)(), Result.ok("https://api.example.com/users"));
+});
+
+Deno.test("ReaderTaskResult.asks and fromReader read the environment only when the Task runs", async () => {
+  const reads: string[] = [];
+  const asked = ReaderTaskResult.asks<Config, string, number>((c) => {
+    reads.push("asks");
+    return c.retries;
+  })(testConfig);
+  const lifted = ReaderTaskResult.fromReader<Config, string, string>((c) => {
+    reads.push("fromReader");
+    return c.baseUrl;
+  })(testConfig);
+  assertEquals(reads, []);
+  assertEquals(await asked(), Result.ok(3));
+  assertEquals(await lifted(), Result.ok("https://api.example.com"));
+  assertEquals(reads, ["asks", "fromReader"]);
+});
+
+Deno.test("ReaderTaskResult.fromTask lifts a Task as Ok", async () => {
+  const rtr = ReaderTaskResult.fromTask<Config, string, number>(Task.resolve(5));
+  assertEquals(await rtr(testConfig)(), Result.ok(5));
+});
+
+Deno.test("ReaderTaskResult.fromReaderTask lifts a ReaderTask as Ok", async () => {
+  const rtr = ReaderTaskResult.fromReaderTask<Config, string, number>(
+    ReaderTask.asks((c: Config) => c.retries),
+  );
+  assertEquals(await rtr(testConfig)(), Result.ok(3));
+});
+
+Deno.test("ReaderTaskResult.fromTaskResult lifts a TaskResult unchanged", async () => {
+  const rtr = ReaderTaskResult.fromTaskResult<Config, string, number>(TaskResult.err("bad"));
+  assertEquals(await rtr(testConfig)(), Result.err("bad"));
+});
+
+// ---------------------------------------------------------------------------
+// map / mapError
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTaskResult.map transforms the success value", async () => {
+  const rtr = pipe(
+    ReaderTaskResult.asks<Config, string, number>((c) => c.retries),
+    ReaderTaskResult.map((n: number) => n * 10),
+  );
+  assertEquals(await rtr(testConfig)(), Result.ok(30));
+});
+
+Deno.test("ReaderTaskResult.map leaves errors untouched", async () => {
+  const rtr = pipe(
+    ReaderTaskResult.err<Config, string, number>("boom"),
+    ReaderTaskResult.map((n: number) => n * 10),
+  );
+  assertEquals(await rtr(testConfig)(), Result.err("boom"));
+});
+
+Deno.test("ReaderTaskResult.mapError transforms the error value", async () => {
+  const rtr = pipe(
+    ReaderTaskResult.err<Config, string, number>("boom"),
+    ReaderTaskResult.mapError((e: string) => e.length),
+  );
+  assertEquals(await rtr(testConfig)(), Result.err(4));
+});
+
+// ---------------------------------------------------------------------------
+// chain / recover
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTaskResult.chain passes the same environment to both steps", async () => {
+  const rtr = pipe(
+    ReaderTaskResult.asks<Config, string, string>((c) => c.baseUrl),
+    ReaderTaskResult.chain((url: string) => (c: Config) =>
+      TaskResult.ok<string, string>(`${url}?retries=${c.retries}`)
+    ),
+  );
+  assertEquals(await rtr(testConfig)(), Result.ok("https://api.example.com?retries=3"));
+});
+
+Deno.test("ReaderTaskResult.chain short-circuits on Err", async () => {
+  let called = false;
+  const rtr = pipe(
+    ReaderTaskResult.err<Config, string, number>("boom"),
+    ReaderTaskResult.chain((n: number) => {
+      called = true;
+      return ReaderTaskResult.ok<Config, string, number>(n + 1);
+    }),
+  );
+  assertEquals(await rtr(testConfig)(), Result.err("boom"));
+  assertStrictEquals(called, false);
+});
+
+Deno.test("ReaderTaskResult.recover runs the fallback with the same environment", async () => {
+  const rtr = pipe(
+    ReaderTaskResult.err<Config, string, number>("boom"),
+    ReaderTaskResult.recover((_e: string) =>
+      ReaderTaskResult.asks<Config, string, number>((c) => c.retries)
+    ),
+  );
+  assertEquals(await rtr(testConfig)(), Result.ok(3));
+});
+
+Deno.test("ReaderTaskResult.recover does not run the fallback on Ok", async () => {
+  const rtr = pipe(
+    ReaderTaskResult.ok<Config, string, number>(1),
+    ReaderTaskResult.recover((_e: string) => ReaderTaskResult.ok<Config, string, number>(2)),
+  );
+  assertEquals(await rtr(testConfig)(), Result.ok(1));
+});
+
+// ---------------------------------------------------------------------------
+// tap / match / getOrElse
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTaskResult.tap runs a side effect on Ok only", async () => {
+  const seen: number[] = [];
+  const record = ReaderTaskResult.tap<Config, string, number>((n) => {
+    seen.push(n);
+  });
+  await record(ReaderTaskResult.ok(1))(testConfig)();
+  await record(ReaderTaskResult.err("boom"))(testConfig)();
+  assertEquals(seen, [1]);
+});
+
+Deno.test("ReaderTaskResult.match folds both cases into a ReaderTask", async () => {
+  const describe = ReaderTaskResult.match<Config, string, number, string>({
+    ok: (n) => `ok:${n}`,
+    err: (e) => `err:${e}`,
+  });
+  assertStrictEquals(await describe(ReaderTaskResult.ok(1))(testConfig)(), "ok:1");
+  assertStrictEquals(await describe(ReaderTaskResult.err("x"))(testConfig)(), "err:x");
+});
+
+Deno.test("ReaderTaskResult.getOrElse returns the default on Err", async () => {
+  const rt = pipe(
+    ReaderTaskResult.err<Config, string, number>("boom"),
+    ReaderTaskResult.getOrElse(() => 0),
+  );
+  assertStrictEquals(await rt(testConfig)(), 0);
+});
+
+// ---------------------------------------------------------------------------
+// local / run
+// ---------------------------------------------------------------------------
+
+Deno.test("ReaderTaskResult.local adapts the environment", async () => {
+  type AppEnv = { config: Config };
+  const rtr = pipe(
+    ReaderTaskResult.asks<Config, string, number>((c) => c.retries),
+    ReaderTaskResult.local((env: AppEnv) => env.config),
+  );
+  assertEquals(await rtr({ config: testConfig })(), Result.ok(3));
+});
+
+Deno.test("ReaderTaskResult.run supplies the environment and returns a TaskResult", async () => {
+  const task = pipe(
+    ReaderTaskResult.asks<Config, string, number>((c) => c.retries),
+    ReaderTaskResult.run(testConfig),
+  );
+  assertEquals(await task(), Result.ok(3));
+});
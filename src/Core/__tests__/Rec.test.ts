@@ -1,5 +1,7 @@
 import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { Rec } from "../Rec.ts";
+import { Combinable } from "../Combinable.ts";
+import { Equality } from "../Equality.ts";
 import { Option } from "../Option.ts";
 import { pipe } from "../../Composition/pipe.ts";
 
@@ -319,6 +321,25 @@ Deno.test("merge - complete override when all keys conflict", () => {
   assertEquals(result, { a: 10, b: 20 });
 });
 
+Deno.test("mergeWith - combines values under shared keys", () => {
+  const result = pipe({ a: 1, b: 2 }, Rec.mergeWith(Combinable.sum)({ b: 10, c: 3 }));
+  assertEquals(result, { a: 1, b: 12, c: 3 });
+});
+
+Deno.test("mergeWith - passes the piped value first to combine", () => {
+  const result = pipe({ k: "left" }, Rec.mergeWith(Combinable.string)({ k: "-right" }));
+  assertEquals(result, { k: "left-right" });
+});
+
+Deno.test("mergeWith - does not mutate either record", () => {
+  const data = { a: [1] };
+  const other = { a: [2] };
+  const result = pipe(data, Rec.mergeWith(Combinable.array<number>())(other));
+  assertEquals(result, { a: [1, 2] });
+  assertEquals(data, { a: [1] });
+  assertEquals(other, { a: [2] });
+});
+
 // =============================================================================
 // Info: isEmpty, size
 // =============================================================================
@@ -400,3 +421,25 @@ Deno.test("pipe composition - pick then merge", () => {
   );
   assertEquals(result, { a: 1, b: 2, d: 4 });
 });
+
+// =============================================================================
+// Compare: equals
+// =============================================================================
+
+Deno.test("equals - returns true for records with equal values under the same keys", () => {
+  assertStrictEquals(pipe({ a: 1, b: 2 }, Rec.equals(Equality.number)({ b: 2, a: 1 })), true);
+});
+
+Deno.test("equals - returns false when a value differs", () => {
+  assertStrictEquals(pipe({ a: 1, b: 2 }, Rec.equals(Equality.number)({ a: 1, b: 3 })), false);
+});
+
+Deno.test("equals - returns false when the keys differ", () => {
+  assertStrictEquals(pipe({ a: 1 }, Rec.equals(Equality.number)({ a: 1, b: 2 })), false);
+  assertStrictEquals(pipe({ a: 1, b: 2 }, Rec.equals(Equality.number)({ a: 1 })), false);
+});
+
+Deno.test("equals - compares nested values with the given Equality", () => {
+  const eq = Equality.array(Equality.number);
+  assertStrictEquals(pipe({ a: [1, 2] }, Rec.equals(eq)({ a: [1, 2] })), true);
+});
@@ -296,6 +296,76 @@ Deno.test("RemoteData.getOrElse returns Success value typed as A | B when Succes
   assertStrictEquals(result, 5);
 });
 
+// ---------------------------------------------------------------------------
+// lift2 / lift3 / all / struct
+// ---------------------------------------------------------------------------
+
+Deno.test("RemoteData.lift2 applies the function when both are Success", () => {
+  const add = RemoteData.lift2((a: number, b: number) => a + b);
+  assertEquals(add(RemoteData.success(1), RemoteData.success(2)), RemoteData.success(3));
+});
+
+Deno.test("RemoteData.lift2 prefers Failure, then Loading, then NotAsked", () => {
+  const add = RemoteData.lift2((a: number, b: number) => a + b);
+  assertEquals(add(RemoteData.loading(), RemoteData.failure("boom")), RemoteData.failure("boom"));
+  assertEquals(add(RemoteData.notAsked(), RemoteData.loading()), RemoteData.loading());
+  assertEquals(add(RemoteData.success(1), RemoteData.notAsked()), RemoteData.notAsked());
+});
+
+Deno.test("RemoteData.lift3 applies the function when all are Success", () => {
+  const sum = RemoteData.lift3((a: number, b: number, c: number) => a + b + c);
+  assertEquals(
+    sum(RemoteData.success(1), RemoteData.success(2), RemoteData.success(3)),
+    RemoteData.success(6),
+  );
+  assertEquals(
+    sum(RemoteData.success(1), RemoteData.loading(), RemoteData.success(3)),
+    RemoteData.loading(),
+  );
+});
+
+Deno.test("RemoteData.all collects a tuple of Successes", () => {
+  const result = RemoteData.all([RemoteData.success("alice"), RemoteData.success(30)] as const);
+  assertEquals(result, RemoteData.success(["alice", 30] as const));
+});
+
+Deno.test("RemoteData.all returns the first Failure", () => {
+  const result = RemoteData.all(
+    [
+      RemoteData.loading(),
+      RemoteData.failure("first"),
+      RemoteData.failure("second"),
+    ] as const,
+  );
+  assertEquals(result, RemoteData.failure("first"));
+});
+
+Deno.test("RemoteData.all is Loading when any element is Loading and none failed", () => {
+  const result = RemoteData.all(
+    [
+      RemoteData.notAsked(),
+      RemoteData.success(1),
+      RemoteData.loading(),
+    ] as const,
+  );
+  assertEquals(result, RemoteData.loading());
+});
+
+Deno.test("RemoteData.struct collects a record of Successes", () => {
+  const result = RemoteData.struct({
+    user: RemoteData.success("alice"),
+    stats: RemoteData.success(3),
+  });
+  assertEquals(result, RemoteData.success({ user: "alice", stats: 3 }));
+});
+
+Deno.test("RemoteData.struct follows the same rules as all", () => {
+  assertEquals(
+    RemoteData.struct({ user: RemoteData.success("alice"), stats: RemoteData.notAsked() }),
+    RemoteData.notAsked(),
+  );
+});
+
 // ---------------------------------------------------------------------------
 // tap
 // ---------------------------------------------------------------------------
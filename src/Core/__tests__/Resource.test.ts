@@ -0,0 +1,379 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Resource } from "../Resource.ts";
+import { Option } from "../Option.ts";
+import { Result } from "../Result.ts";
+import { Task } from "../Task.ts";
+import { TaskResult } from "../TaskResult.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+// Records acquisitions and releases so tests can assert on ordering.
+const tracked = (
+  log: string[],
+  name: string,
+  options: { failAcquire?: boolean; failRelease?: boolean } = {},
+): Resource<string, string> =>
+  Resource.make(
+    Task.from<Result<string, string>>(() => {
+      if (options.failAcquire) return Promise.resolve(Result.err(`acquire ${name}`));
+      log.push(`acquire ${name}`);
+      return Promise.resolve(Result.ok(name));
+    }),
+    (value) =>
+      Task.from(() => {
+        log.push(`release ${value}`);
+        return Promise.resolve(
+          options.failRelease ? Result.err(`release ${value}`) : Result.ok(undefined),
+        );
+      }),
+  );
+
+// ---------------------------------------------------------------------------
+// make / use
+// ---------------------------------------------------------------------------
+
+Deno.test("Resource.use acquires, uses and releases on success", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    tracked(log, "a"),
+    Resource.use((a: string) => {
+      log.push(`use ${a}`);
+      return TaskResult.ok<string, number>(a.length);
+    }),
+  )();
+  assertEquals(result, Result.ok(1));
+  assertEquals(log, ["acquire a", "use a", "release a"]);
+});
+
+Deno.test("Resource.make acquires nothing until used", () => {
+  const log: string[] = [];
+  pipe(tracked(log, "a"), Resource.use((a: string) => TaskResult.ok<string, string>(a)));
+  assertEquals(log, []);
+});
+
+Deno.test("Resource.use releases when the work returns Err", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    tracked(log, "a"),
+    Resource.use((_a: string) => TaskResult.err<string, number>("boom")),
+  )();
+  assertEquals(result, Result.err("boom"));
+  assertEquals(log, ["acquire a", "release a"]);
+});
+
+Deno.test("Resource.use releases and reports Thrown when the work throws", async () => {
+  const log: string[] = [];
+  const error = new Error("kaboom");
+  const result = await pipe(
+    tracked(log, "a"),
+    Resource.use((_a: string): TaskResult<string, number> =>
+      Task.from(() => Promise.reject(error))
+    ),
+  )();
+  assertEquals(result, Result.err({ kind: "Thrown", primary: Option.none(), thrown: error }));
+  assertEquals(log, ["acquire a", "release a"]);
+});
+
+Deno.test("Resource.use reports release errors alongside an exception from the work", async () => {
+  const log: string[] = [];
+  const error = new Error("kaboom");
+  const result = await pipe(
+    tracked(log, "a", { failRelease: true }),
+    Resource.use((_a: string): TaskResult<string, number> =>
+      Task.from(() => Promise.reject(error))
+    ),
+  )();
+  assertEquals(
+    result,
+    Result.err({
+      kind: "ReleaseError",
+      primary: Option.none(),
+      errors: ["release a"],
+      thrown: Option.some(error),
+    }),
+  );
+  assertEquals(log, ["acquire a", "release a"]);
+});
+
+Deno.test("Resource.use reports Thrown with the primary error when a release throws", async () => {
+  const error = new Error("kaboom");
+  const resource = Resource.make(
+    TaskResult.ok<string, string>("a"),
+    (_a) => Task.from(() => Promise.reject(error)),
+  );
+  const result = await pipe(
+    resource,
+    Resource.use((_a: string) => TaskResult.err<string, number>("boom")),
+  )();
+  assertEquals(
+    result,
+    Result.err({ kind: "Thrown", primary: Option.some("boom"), thrown: error }),
+  );
+});
+
+Deno.test("Resource.use does not run the work or release when acquire fails", async () => {
+  const log: string[] = [];
+  let used = false;
+  const result = await pipe(
+    tracked(log, "a", { failAcquire: true }),
+    Resource.use((_a: string) => {
+      used = true;
+      return TaskResult.ok<string, number>(1);
+    }),
+  )();
+  assertEquals(result, Result.err("acquire a"));
+  assertStrictEquals(used, false);
+  assertEquals(log, []);
+});
+
+Deno.test("Resource.use reports a release error after success", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    tracked(log, "a", { failRelease: true }),
+    Resource.use((_a: string) => TaskResult.ok<string, number>(1)),
+  )();
+  assertEquals(
+    result,
+    Result.err({
+      kind: "ReleaseError",
+      primary: Option.none(),
+      errors: ["release a"],
+      thrown: Option.none(),
+    }),
+  );
+});
+
+Deno.test("Resource.use reports a release error alongside the primary error", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    tracked(log, "a", { failRelease: true }),
+    Resource.use((_a: string) => TaskResult.err<string, number>("boom")),
+  )();
+  assertEquals(
+    result,
+    Result.err({
+      kind: "ReleaseError",
+      primary: Option.some("boom"),
+      errors: ["release a"],
+      thrown: Option.none(),
+    }),
+  );
+});
+
+Deno.test("Resource.use passes the signal to acquire and the work", async () => {
+  const controller = new AbortController();
+  const seen: (AbortSignal | undefined)[] = [];
+  const resource = Resource.make<string, number>(
+    (signal) => {
+      seen.push(signal);
+      return TaskResult.ok<string, number>(1)();
+    },
+    () => TaskResult.ok(undefined),
+  );
+  await pipe(
+    resource,
+    Resource.use((n: number): TaskResult<string, number> => (signal) => {
+      seen.push(signal);
+      return TaskResult.ok<string, number>(n)();
+    }),
+  )(controller.signal);
+  assertEquals(seen, [controller.signal, controller.signal]);
+});
+
+// ---------------------------------------------------------------------------
+// of / map
+// ---------------------------------------------------------------------------
+
+Deno.test("Resource.of provides a value without cleanup", async () => {
+  const result = await pipe(
+    Resource.of<string, number>(5),
+    Resource.use((n: number) => TaskResult.ok<string, number>(n * 2)),
+  )();
+  assertEquals(result, Result.ok(10));
+});
+
+Deno.test("Resource.map transforms the value and still releases the original", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    tracked(log, "a"),
+    Resource.map((a: string) => a.toUpperCase()),
+    Resource.use((a: string) => TaskResult.ok<string, string>(a)),
+  )();
+  assertEquals(result, Result.ok("A"));
+  assertEquals(log, ["acquire a", "release a"]);
+});
+
+Deno.test("Resource.map releases the resource when f throws", async () => {
+  const log: string[] = [];
+  const error = new Error("kaboom");
+  const result = await pipe(
+    tracked(log, "a", { failRelease: true }),
+    Resource.map((_a: string): string => {
+      throw error;
+    }),
+    Resource.use((a: string) => TaskResult.ok<string, string>(a)),
+  )();
+  assertEquals(
+    result,
+    Result.err({
+      kind: "ReleaseError",
+      primary: Option.none(),
+      errors: ["release a"],
+      thrown: Option.some(error),
+    }),
+  );
+  assertEquals(log, ["acquire a", "release a"]);
+});
+
+// ---------------------------------------------------------------------------
+// chain / both / all
+// ---------------------------------------------------------------------------
+
+Deno.test("Resource.chain releases in reverse acquisition order", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    tracked(log, "a"),
+    Resource.chain((a: string) => tracked(log, `${a}b`)),
+    Resource.use((b: string) => TaskResult.ok<string, string>(b)),
+  )();
+  assertEquals(result, Result.ok("ab"));
+  assertEquals(log, ["acquire a", "acquire ab", "release ab", "release a"]);
+});
+
+Deno.test("Resource.chain releases the first when the second fails to acquire", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    tracked(log, "a"),
+    Resource.chain((_a: string) => tracked(log, "b", { failAcquire: true })),
+    Resource.use((b: string) => TaskResult.ok<string, string>(b)),
+  )();
+  assertEquals(result, Result.err("acquire b"));
+  assertEquals(log, ["acquire a", "release a"]);
+});
+
+Deno.test("Resource.chain releases the first when acquiring the second throws", async () => {
+  const log: string[] = [];
+  const error = new Error("kaboom");
+  const result = await pipe(
+    tracked(log, "a"),
+    Resource.chain((_a: string): Resource<string, string> => {
+      throw error;
+    }),
+    Resource.use((b: string) => TaskResult.ok<string, string>(b)),
+  )();
+  assertEquals(result, Result.err({ kind: "Thrown", primary: Option.none(), thrown: error }));
+  assertEquals(log, ["acquire a", "release a"]);
+});
+
+Deno.test("Resource.chain keeps release errors when acquiring the second throws", async () => {
+  const log: string[] = [];
+  const error = new Error("kaboom");
+  const result = await pipe(
+    tracked(log, "a", { failRelease: true }),
+    Resource.chain((_a: string): Resource<string, string> => {
+      throw error;
+    }),
+    Resource.use((b: string) => TaskResult.ok<string, string>(b)),
+  )();
+  assertEquals(
+    result,
+    Result.err({
+      kind: "ReleaseError",
+      primary: Option.none(),
+      errors: ["release a"],
+      thrown: Option.some(error),
+    }),
+  );
+  assertEquals(log, ["acquire a", "release a"]);
+});
+
+Deno.test("Resource.both pairs values and releases second before first", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    tracked(log, "a"),
+    Resource.both(tracked(log, "b")),
+    Resource.use(([a, b]: readonly [string, string]) => TaskResult.ok<string, string>(a + b)),
+  )();
+  assertEquals(result, Result.ok("ab"));
+  assertEquals(log, ["acquire a", "acquire b", "release b", "release a"]);
+});
+
+Deno.test("Resource.all collects values and releases in reverse order", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    Resource.all([tracked(log, "a"), tracked(log, "b"), Resource.of<string, number>(3)] as const),
+    Resource.use(([a, b, n]) => TaskResult.ok<string, string>(`${a}${b}${n}`)),
+  )();
+  assertEquals(result, Result.ok("ab3"));
+  assertEquals(log, ["acquire a", "acquire b", "release b", "release a"]);
+});
+
+Deno.test("Resource.all releases acquired resources when a later one fails", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    Resource.all(
+      [
+        tracked(log, "a", { failRelease: true }),
+        tracked(log, "b"),
+        tracked(log, "c", { failAcquire: true }),
+      ] as const,
+    ),
+    Resource.use(() => TaskResult.ok<string, string>("unreachable")),
+  )();
+  assertEquals(
+    result,
+    Result.err({
+      kind: "ReleaseError",
+      primary: Option.some("acquire c"),
+      errors: ["release a"],
+      thrown: Option.none(),
+    }),
+  );
+  assertEquals(log, ["acquire a", "acquire b", "release b", "release a"]);
+});
+
+Deno.test("Resource.all runs every release even when several fail", async () => {
+  const log: string[] = [];
+  const result = await pipe(
+    Resource.all(
+      [
+        tracked(log, "a", { failRelease: true }),
+        tracked(log, "b", { failRelease: true }),
+      ] as const,
+    ),
+    Resource.use(() => TaskResult.ok<string, number>(1)),
+  )();
+  assertEquals(
+    result,
+    Result.err({
+      kind: "ReleaseError",
+      primary: Option.none(),
+      errors: ["release b", "release a"],
+      thrown: Option.none(),
+    }),
+  );
+});
+
+// ---------------------------------------------------------------------------
+// isReleaseError
+// ---------------------------------------------------------------------------
+
+Deno.test("Resource.isThrown distinguishes thrown exceptions from other errors", () => {
+  assertStrictEquals(
+    Resource.isThrown({ kind: "Thrown", primary: Option.none(), thrown: new Error("kaboom") }),
+    true,
+  );
+  assertStrictEquals(Resource.isThrown("boom"), false);
+});
+
+Deno.test("Resource.isReleaseError distinguishes release errors from primary errors", () => {
+  assertStrictEquals(Resource.isReleaseError("boom"), false);
+  assertStrictEquals(
+    Resource.isReleaseError({
+      kind: "ReleaseError",
+      primary: Option.none(),
+      errors: ["x"],
+      thrown: Option.none(),
+    }),
+    true,
+  );
+});
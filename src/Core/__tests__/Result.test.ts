@@ -480,3 +480,91 @@ Deno.test("Result pipe short-circuits on Err", () => {
   );
   assertStrictEquals(result, -1);
 });
+
+// ---------------------------------------------------------------------------
+// lift2 / lift3 / all / struct
+// ---------------------------------------------------------------------------
+
+Deno.test("Result.lift2 applies the function when both are Ok", () => {
+  const total = Result.lift2((price: number, qty: number) => price * qty);
+  assertEquals(total(Result.ok(5), Result.ok(3)), Result.ok(15));
+});
+
+Deno.test("Result.lift2 returns the first Err", () => {
+  const total = Result.lift2((price: number, qty: number) => price * qty);
+  assertEquals(total(Result.err("bad price"), Result.err("bad qty")), Result.err("bad price"));
+  assertEquals(total(Result.ok(5), Result.err("bad qty")), Result.err("bad qty"));
+});
+
+Deno.test("Result.lift3 applies the function when all are Ok", () => {
+  const sum = Result.lift3((a: number, b: number, c: number) => a + b + c);
+  assertEquals(sum(Result.ok(1), Result.ok(2), Result.ok(3)), Result.ok(6));
+  assertEquals(sum(Result.ok(1), Result.ok(2), Result.err("c")), Result.err("c"));
+});
+
+Deno.test("Result.all collects a tuple of Oks", () => {
+  const result = Result.all([Result.ok("alice"), Result.ok(30)] as const);
+  assertEquals(result, Result.ok(["alice", 30] as const));
+});
+
+Deno.test("Result.all returns the first Err in order", () => {
+  const result = Result.all([Result.ok(1), Result.err("second"), Result.err("third")] as const);
+  assertEquals(result, Result.err("second"));
+});
+
+Deno.test("Result.struct collects a record of Oks", () => {
+  const result = Result.struct({ user: Result.ok("alice"), prefs: Result.ok({ dark: true }) });
+  assertEquals(result, Result.ok({ user: "alice", prefs: { dark: true } }));
+});
+
+Deno.test("Result.struct returns the first Err", () => {
+  const result = Result.struct({
+    user: Result.ok("alice"),
+    prefs: Result.err("missing prefs"),
+    theme: Result.err("missing theme"),
+  });
+  assertEquals(result, Result.err("missing prefs"));
+});
+
+// ---------------------------------------------------------------------------
+// gen
+// ---------------------------------------------------------------------------
+
+Deno.test("Result.gen unwraps every Ok and wraps the returned value", () => {
+  const result = Result.gen(function* ($) {
+    const a = yield* $(Result.ok(2));
+    const b = yield* $(Result.ok("x"));
+    return `${b}${a}`;
+  });
+  assertEquals(result, Result.ok("x2"));
+});
+
+Deno.test("Result.gen stops at the first Err and returns it", () => {
+  const steps: string[] = [];
+  const parse = (s: string): Result<"ParseError", number> =>
+    isNaN(Number(s)) ? Result.err("ParseError") : Result.ok(Number(s));
+  const find = (n: number): Result<"NotFound", string> =>
+    n > 0 ? Result.ok(`item-${n}`) : Result.err("NotFound");
+
+  const result: Result<"ParseError" | "NotFound", string> = Result.gen(function* ($) {
+    const n = yield* $(parse("0"));
+    steps.push("parsed");
+    const item = yield* $(find(n));
+    steps.push("found");
+    return item;
+  });
+  assertEquals(result, Result.err("NotFound"));
+  assertEquals(steps, ["parsed"]);
+});
+
+Deno.test("Result.gen runs finally blocks when it stops early", () => {
+  let cleaned = false;
+  Result.gen(function* ($) {
+    try {
+      return yield* $(Result.err("boom"));
+    } finally {
+      cleaned = true;
+    }
+  });
+  assertStrictEquals(cleaned, true);
+});
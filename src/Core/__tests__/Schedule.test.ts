@@ -0,0 +1,126 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Option } from "../Option.ts";
+import { Schedule } from "../Schedule.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+const step = (attempt: number, elapsed = 0) => ({ attempt, elapsed, input: undefined });
+
+const delays = (schedule: Schedule, runs: number): Option<number>[] =>
+  Array.from({ length: runs }, (_, i) => schedule(step(i + 1)));
+
+// ---------------------------------------------------------------------------
+// fixed / exponential / fibonacci
+// ---------------------------------------------------------------------------
+
+Deno.test("Schedule.fixed always waits the same time", () => {
+  assertEquals(delays(Schedule.fixed(50), 3), [Option.some(50), Option.some(50), Option.some(50)]);
+});
+
+Deno.test("Schedule.exponential doubles the delay by default", () => {
+  assertEquals(delays(Schedule.exponential(100), 4), [
+    Option.some(100),
+    Option.some(200),
+    Option.some(400),
+    Option.some(800),
+  ]);
+});
+
+Deno.test("Schedule.exponential uses the given factor", () => {
+  assertEquals(delays(Schedule.exponential(10, 3), 3), [
+    Option.some(10),
+    Option.some(30),
+    Option.some(90),
+  ]);
+});
+
+Deno.test("Schedule.fibonacci grows along the Fibonacci sequence", () => {
+  assertEquals(delays(Schedule.fibonacci(100), 6), [
+    Option.some(100),
+    Option.some(100),
+    Option.some(200),
+    Option.some(300),
+    Option.some(500),
+    Option.some(800),
+  ]);
+});
+
+// ---------------------------------------------------------------------------
+// recurs / upTo / whileInput
+// ---------------------------------------------------------------------------
+
+Deno.test("Schedule.recurs allows the given number of repeats", () => {
+  assertEquals(delays(Schedule.recurs(2), 3), [Option.some(0), Option.some(0), Option.none()]);
+});
+
+Deno.test("Schedule.recurs(0) never repeats", () => {
+  assertEquals(Schedule.recurs(0)(step(1)), Option.none());
+});
+
+Deno.test("Schedule.upTo stops once the time budget is used", () => {
+  const budget = Schedule.upTo(1_000);
+  assertEquals(budget(step(1, 999)), Option.some(0));
+  assertEquals(budget(step(2, 1_000)), Option.none());
+});
+
+Deno.test("Schedule.whileInput continues while the input passes the predicate", () => {
+  const running = Schedule.whileInput((status: string) => status === "running");
+  assertEquals(running({ attempt: 1, elapsed: 0, input: "running" }), Option.some(0));
+  assertEquals(running({ attempt: 2, elapsed: 0, input: "done" }), Option.none());
+});
+
+// ---------------------------------------------------------------------------
+// jittered / maxDelay
+// ---------------------------------------------------------------------------
+
+Deno.test("Schedule.jittered scales each delay between half and one and a half times", () => {
+  const random = Math.random;
+  try {
+    Math.random = () => 0;
+    assertEquals(Schedule.jittered(Schedule.fixed(100))(step(1)), Option.some(50));
+    Math.random = () => 0.5;
+    assertEquals(Schedule.jittered(Schedule.fixed(100))(step(1)), Option.some(100));
+  } finally {
+    Math.random = random;
+  }
+});
+
+Deno.test("Schedule.jittered keeps stopping when the schedule stops", () => {
+  assertEquals(Schedule.jittered(Schedule.recurs(0))(step(1)), Option.none());
+});
+
+Deno.test("Schedule.maxDelay caps each delay", () => {
+  const capped = pipe(Schedule.exponential(100), Schedule.maxDelay(300));
+  assertEquals(delays(capped, 4), [
+    Option.some(100),
+    Option.some(200),
+    Option.some(300),
+    Option.some(300),
+  ]);
+});
+
+// ---------------------------------------------------------------------------
+// intersect / union
+// ---------------------------------------------------------------------------
+
+Deno.test("Schedule.intersect continues while both do, with the longer delay", () => {
+  const policy = pipe(Schedule.exponential(100), Schedule.intersect(Schedule.recurs(2)));
+  assertEquals(delays(policy, 3), [Option.some(100), Option.some(200), Option.none()]);
+});
+
+Deno.test("Schedule.union continues while either does, with the shorter delay", () => {
+  const policy = pipe(
+    Schedule.fixed(500),
+    Schedule.intersect(Schedule.recurs(1)),
+    Schedule.union(pipe(Schedule.fixed(100), Schedule.intersect(Schedule.recurs(2)))),
+  );
+  assertEquals(delays(policy, 3), [Option.some(100), Option.some(100), Option.none()]);
+});
+
+Deno.test("Schedule.intersect combines the input types of both schedules", () => {
+  const policy = pipe(
+    Schedule.whileInput((e: { retryable: boolean }) => e.retryable),
+    Schedule.intersect(Schedule.fixed(10)),
+  );
+  assertEquals(policy({ attempt: 1, elapsed: 0, input: { retryable: true } }), Option.some(10));
+  assertEquals(policy({ attempt: 1, elapsed: 0, input: { retryable: false } }), Option.none());
+});
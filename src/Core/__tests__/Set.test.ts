@@ -0,0 +1,113 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Set } from "../Set.ts";
+import { Ordering } from "../Ordering.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+const of = <A>(...values: A[]): ReadonlySet<A> => new globalThis.Set(values);
+
+// ---------------------------------------------------------------------------
+// member / isEmpty
+// ---------------------------------------------------------------------------
+
+Deno.test("Set.member checks membership", () => {
+  assertStrictEquals(pipe(of("read", "write"), Set.member("read")), true);
+  assertStrictEquals(pipe(of("read", "write"), Set.member("admin")), false);
+});
+
+Deno.test("Set.isEmpty is true only for an empty set", () => {
+  assertStrictEquals(Set.isEmpty(of()), true);
+  assertStrictEquals(Set.isEmpty(of(1)), false);
+});
+
+// ---------------------------------------------------------------------------
+// insert / remove / toggle
+// ---------------------------------------------------------------------------
+
+Deno.test("Set.insert adds a value without mutating the input", () => {
+  const data = of("read");
+  assertEquals(pipe(data, Set.insert("write")), of("read", "write"));
+  assertEquals(data, of("read"));
+});
+
+Deno.test("Set.insert returns the same set when the value is present", () => {
+  const data = of("read");
+  assertStrictEquals(pipe(data, Set.insert("read")), data);
+});
+
+Deno.test("Set.remove deletes a value without mutating the input", () => {
+  const data = of("read", "write");
+  assertEquals(pipe(data, Set.remove("write")), of("read"));
+  assertEquals(data, of("read", "write"));
+});
+
+Deno.test("Set.remove returns the same set when the value is missing", () => {
+  const data = of("read");
+  assertStrictEquals(pipe(data, Set.remove("write")), data);
+});
+
+Deno.test("Set.toggle removes a present value and adds a missing one", () => {
+  assertEquals(pipe(of("a"), Set.toggle("a")), of());
+  assertEquals(pipe(of("a"), Set.toggle("b")), of("a", "b"));
+});
+
+// ---------------------------------------------------------------------------
+// set algebra
+// ---------------------------------------------------------------------------
+
+Deno.test("Set.union contains elements from either set", () => {
+  assertEquals(pipe(of(1, 2), Set.union(of(2, 3))), of(1, 2, 3));
+});
+
+Deno.test("Set.intersection contains elements from both sets", () => {
+  assertEquals(pipe(of(1, 2), Set.intersection(of(2, 3))), of(2));
+});
+
+Deno.test("Set.difference removes the elements of other", () => {
+  assertEquals(pipe(of(1, 2), Set.difference(of(2, 3))), of(1));
+});
+
+Deno.test("Set.symmetricDifference contains elements in exactly one set", () => {
+  assertEquals(pipe(of(1, 2), Set.symmetricDifference(of(2, 3))), of(1, 3));
+});
+
+Deno.test("Set.isSubset checks that every element is in other", () => {
+  assertStrictEquals(pipe(of(1, 2), Set.isSubset(of(1, 2, 3))), true);
+  assertStrictEquals(pipe(of(1, 4), Set.isSubset(of(1, 2, 3))), false);
+  assertStrictEquals(pipe(of<number>(), Set.isSubset(of(1))), true);
+});
+
+Deno.test("Set operations compare objects by reference", () => {
+  const admin = { role: "admin" };
+  assertEquals(pipe(of(admin), Set.intersection(of({ role: "admin" }))), of());
+  assertEquals(pipe(of(admin), Set.intersection(of(admin))), of(admin));
+});
+
+// ---------------------------------------------------------------------------
+// map / filter / partition
+// ---------------------------------------------------------------------------
+
+Deno.test("Set.map transforms elements and merges duplicates", () => {
+  assertEquals(pipe(of("a", "A", "b"), Set.map((s: string) => s.toLowerCase())), of("a", "b"));
+});
+
+Deno.test("Set.filter keeps matching elements", () => {
+  assertEquals(pipe(of(1, 2, 3), Set.filter((n: number) => n > 1)), of(2, 3));
+});
+
+Deno.test("Set.partition splits elements by the predicate", () => {
+  const [even, odd] = pipe(of(1, 2, 3, 4), Set.partition((n: number) => n % 2 === 0));
+  assertEquals(even, of(2, 4));
+  assertEquals(odd, of(1, 3));
+});
+
+// ---------------------------------------------------------------------------
+// toSortedArray
+// ---------------------------------------------------------------------------
+
+Deno.test("Set.toSortedArray sorts elements by the Ordering", () => {
+  assertEquals(pipe(of("b", "c", "a"), Set.toSortedArray(Ordering.string)), ["a", "b", "c"]);
+  assertEquals(
+    pipe(of(1, 3, 2), Set.toSortedArray(Ordering.reverse(Ordering.number))),
+    [3, 2, 1],
+  );
+});
@@ -0,0 +1,176 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Result } from "../Result.ts";
+import { FieldError, Struct } from "../Struct.ts";
+import { Validation } from "../Validation.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+type User = { readonly id: number; readonly name: string; readonly email: string; age?: number };
+
+const user: User = { id: 1, name: " Alice ", email: "ALICE@EXAMPLE.COM", age: 30 };
+
+// ---------------------------------------------------------------------------
+// evolve
+// ---------------------------------------------------------------------------
+
+Deno.test("Struct.evolve transforms the given fields and keeps the rest", () => {
+  const result = pipe(
+    user,
+    Struct.evolve({ name: (s) => s.trim(), email: (s) => s.toLowerCase() }),
+  );
+  assertEquals(result, { id: 1, name: "Alice", email: "alice@example.com", age: 30 });
+});
+
+Deno.test("Struct.evolve changes field types to the functions' return types", () => {
+  const result: { readonly id: string; readonly name: number } = pipe(
+    { id: 1, name: "Alice" } as const,
+    Struct.evolve({ id: (n) => `user-${n}`, name: (s) => s.length }),
+  );
+  assertEquals(result, { id: "user-1", name: 5 });
+});
+
+Deno.test("Struct.evolve does not mutate the input", () => {
+  const input = { count: 1 };
+  pipe(input, Struct.evolve({ count: (n) => n + 1 }));
+  assertEquals(input, { count: 1 });
+});
+
+// ---------------------------------------------------------------------------
+// pick / omit / rename
+// ---------------------------------------------------------------------------
+
+Deno.test("Struct.pick keeps only the given fields", () => {
+  const result: { readonly id: number; readonly email: string } = pipe(
+    user,
+    Struct.pick("id", "email"),
+  );
+  assertEquals(result, { id: 1, email: "ALICE@EXAMPLE.COM" });
+});
+
+Deno.test("Struct.pick skips optional fields that are absent", () => {
+  const result = Struct.pick("id", "age")<User>({ id: 2, name: "Bob", email: "b@x.io" });
+  assertEquals(result, { id: 2 });
+});
+
+Deno.test("Struct.omit removes the given fields", () => {
+  const result: { readonly id: number; readonly name: string } = pipe(
+    user,
+    Struct.omit("email", "age"),
+  );
+  assertEquals(result, { id: 1, name: " Alice " });
+});
+
+Deno.test("Struct.pick and Struct.omit reject unknown keys at compile time", () => {
+  // @ts-expect-error "nme" is not a field of User
+  Struct.pick("nme")(user);
+  // @ts-expect-error "nme" is not a field of User
+  Struct.omit("nme")(user);
+});
+
+Deno.test("Struct.rename renames fields and keeps their values", () => {
+  const result: { readonly id: number; readonly fullName: string; readonly mail: string } = pipe(
+    { id: 1, name: "Alice", email: "a@x.io" },
+    Struct.rename({ name: "fullName", email: "mail" }),
+  );
+  assertEquals(result, { id: 1, fullName: "Alice", mail: "a@x.io" });
+});
+
+Deno.test("Struct.rename rejects unknown keys at compile time", () => {
+  // @ts-expect-error "nme" is not a field of the object
+  Struct.rename({ nme: "fullName" })({ name: "Alice" });
+});
+
+// ---------------------------------------------------------------------------
+// mapFields
+// ---------------------------------------------------------------------------
+
+Deno.test("Struct.mapFields applies the function to every field", () => {
+  const result: { readonly width: string; readonly height: string } = pipe(
+    { width: 1.234, height: 5.678 },
+    Struct.mapFields((n: number) => n.toFixed(1)),
+  );
+  assertEquals(result, { width: "1.2", height: "5.7" });
+});
+
+Deno.test("Struct.mapFields passes the key", () => {
+  const result = pipe(
+    { host: "localhost", port: 8080 },
+    Struct.mapFields((value, key) => `${key}=${value}`),
+  );
+  assertEquals(result, { host: "host=localhost", port: "port=8080" });
+});
+
+// ---------------------------------------------------------------------------
+// traverseResult
+// ---------------------------------------------------------------------------
+
+const parseAge = (n: number): Result<string, number> =>
+  n >= 0 ? Result.ok(n) : Result.err("must be positive");
+
+const parseEmail = (s: string): Result<string, string> =>
+  s.includes("@") ? Result.ok(s.toLowerCase()) : Result.err("invalid email");
+
+Deno.test("Struct.traverseResult returns Ok with the checked values", () => {
+  const result = pipe(
+    { name: "Alice", email: "ALICE@X.IO", age: 30 },
+    Struct.traverseResult({ email: parseEmail, age: parseAge }),
+  );
+  assertEquals(result, Result.ok({ name: "Alice", email: "alice@x.io", age: 30 }));
+});
+
+Deno.test("Struct.traverseResult collects every error keyed by field", () => {
+  const result = pipe(
+    { name: "Alice", email: "nope", age: -1 },
+    Struct.traverseResult({ email: parseEmail, age: parseAge }),
+  );
+  assertEquals(result, Result.err({ email: "invalid email", age: "must be positive" }));
+});
+
+Deno.test("Struct.traverseResult changes field types to the Ok types", () => {
+  const result: Result<unknown, { readonly id: number; readonly name: string }> = pipe(
+    { id: "42", name: "Alice" },
+    Struct.traverseResult({
+      id: (s) => (Number.isNaN(Number(s)) ? Result.err("not a number") : Result.ok(Number(s))),
+    }),
+  );
+  assertEquals(result, Result.ok({ id: 42, name: "Alice" }));
+});
+
+// ---------------------------------------------------------------------------
+// traverseValidation
+// ---------------------------------------------------------------------------
+
+const validatePassword = (s: string): Validation<string, string> => {
+  const errors = [
+    ...(s.length < 8 ? ["too short"] : []),
+    ...(/\d/.test(s) ? [] : ["no digit"]),
+  ];
+  return errors.length > 0
+    ? Validation.invalidAll(errors as [string, ...string[]])
+    : Validation.valid(s);
+};
+
+const validateName = (s: string): Validation<string, string> =>
+  s.trim().length > 0 ? Validation.valid(s.trim()) : Validation.invalid("required");
+
+Deno.test("Struct.traverseValidation returns Valid with the checked values", () => {
+  const result = pipe(
+    { name: " Alice ", password: "hunter22", remember: true },
+    Struct.traverseValidation({ name: validateName, password: validatePassword }),
+  );
+  assertEquals(result, Validation.valid({ name: "Alice", password: "hunter22", remember: true }));
+});
+
+Deno.test("Struct.traverseValidation tags every error with its field", () => {
+  const result = pipe(
+    { name: "", password: "short", remember: true },
+    Struct.traverseValidation({ name: validateName, password: validatePassword }),
+  );
+  assertEquals(
+    result,
+    Validation.invalidAll<FieldError<"name" | "password", string>>([
+      { key: "name", error: "required" },
+      { key: "password", error: "too short" },
+      { key: "password", error: "no digit" },
+    ]),
+  );
+});
@@ -1,4 +1,6 @@
 import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Lazy } from "../Lazy.ts";
+import { Schedule } from "../Schedule.ts";
 import { Task } from "../Task.ts";
 import { pipe } from "../../Composition/pipe.ts";
 
@@ -38,6 +40,23 @@ Deno.test("Task.from is lazy - does not execute until called", async () => {
   assertStrictEquals(executed, true);
 });
 
+// ---------------------------------------------------------------------------
+// fromLazy
+// ---------------------------------------------------------------------------
+
+Deno.test("Task.fromLazy forces the Lazy only when the Task runs", async () => {
+  let evaluations = 0;
+  const lazy = Lazy.defer(() => {
+    evaluations++;
+    return 42;
+  });
+  const task = Task.fromLazy(lazy);
+  assertStrictEquals(evaluations, 0);
+  assertStrictEquals(await task(), 42);
+  assertStrictEquals(await task(), 42);
+  assertStrictEquals(evaluations, 1);
+});
+
 // ---------------------------------------------------------------------------
 // map
 // ---------------------------------------------------------------------------
@@ -137,6 +156,35 @@ Deno.test("Task.ap with single argument function", async () => {
   assertStrictEquals(result, 14);
 });
 
+// ---------------------------------------------------------------------------
+// lift2 / lift3
+// ---------------------------------------------------------------------------
+
+Deno.test("Task.lift2 applies the function to both results", async () => {
+  const add = Task.lift2((a: number, b: number) => a + b);
+  assertStrictEquals(await add(Task.resolve(2), Task.resolve(3))(), 5);
+});
+
+Deno.test("Task.lift2 runs both Tasks in parallel", async () => {
+  const started: string[] = [];
+  const slow = (name: string) =>
+    Task.from(() => {
+      started.push(name);
+      return new Promise<string>((resolve) => setTimeout(() => resolve(name), 20));
+    });
+  const pending = Task.lift2((a: string, b: string) => a + b)(slow("a"), slow("b"))();
+  assertEquals(started, ["a", "b"]);
+  assertStrictEquals(await pending, "ab");
+});
+
+Deno.test("Task.lift3 applies the function to all three results", async () => {
+  const join = Task.lift3((a: string, b: number, c: boolean) => `${a}${b}${c}`);
+  assertStrictEquals(
+    await join(Task.resolve("a"), Task.resolve(1), Task.resolve(true))(),
+    "a1true",
+  );
+});
+
 // ---------------------------------------------------------------------------
 // tap
 // ---------------------------------------------------------------------------
@@ -386,6 +434,96 @@ Deno.test("Task.sequential with a single Task returns single-element array", asy
   assertEquals(result, [99]);
 });
 
+// ---------------------------------------------------------------------------
+// struct
+// ---------------------------------------------------------------------------
+
+Deno.test("Task.struct collects results into a record with the same keys", async () => {
+  const result = await Task.struct({ name: Task.resolve("alice"), age: Task.resolve(30) })();
+  assertEquals(result, { name: "alice", age: 30 });
+});
+
+Deno.test("Task.struct runs Tasks in parallel", async () => {
+  const started: string[] = [];
+  const slow = (name: string) =>
+    Task.from(() => {
+      started.push(name);
+      return new Promise<string>((resolve) => setTimeout(() => resolve(name), 20));
+    });
+  const pending = Task.struct({ a: slow("a"), b: slow("b") })();
+  assertEquals(started, ["a", "b"]);
+  assertEquals(await pending, { a: "a", b: "b" });
+});
+
+// ---------------------------------------------------------------------------
+// allLimited
+// ---------------------------------------------------------------------------
+
+const tracked = (active: { now: number; peak: number }, ms: number, value: number): Task<number> =>
+  Task.from(() => {
+    active.now++;
+    active.peak = Math.max(active.peak, active.now);
+    return new Promise((resolve) =>
+      setTimeout(() => {
+        active.now--;
+        resolve(value);
+      }, ms)
+    );
+  });
+
+Deno.test("Task.allLimited never runs more than limit Tasks at once", async () => {
+  const active = { now: 0, peak: 0 };
+  const tasks = [1, 2, 3, 4, 5, 6].map((n) => tracked(active, 5, n));
+  const result = await Task.allLimited(2)(tasks)();
+  assertEquals(result, [1, 2, 3, 4, 5, 6]);
+  assertStrictEquals(active.peak, 2);
+});
+
+Deno.test("Task.allLimited keeps input order regardless of completion order", async () => {
+  const active = { now: 0, peak: 0 };
+  const result = await Task.allLimited(3)([
+    tracked(active, 30, 1),
+    tracked(active, 10, 2),
+    tracked(active, 20, 3),
+  ])();
+  assertEquals(result, [1, 2, 3]);
+});
+
+Deno.test("Task.allLimited starts the next Task as soon as one resolves", async () => {
+  const started: number[] = [];
+  const make = (n: number, ms: number) =>
+    Task.from(() => {
+      started.push(n);
+      return new Promise<number>((r) => setTimeout(() => r(n), ms));
+    });
+  await Task.allLimited(2)([make(1, 40), make(2, 10), make(3, 10)])();
+  assertEquals(started, [1, 2, 3]);
+});
+
+Deno.test("Task.allLimited with an empty array resolves to an empty array", async () => {
+  const result = await Task.allLimited(4)([])();
+  assertEquals(result, []);
+});
+
+Deno.test("Task.allLimited treats a limit below 1 as 1", async () => {
+  const active = { now: 0, peak: 0 };
+  await Task.allLimited(0)([tracked(active, 5, 1), tracked(active, 5, 2)])();
+  assertStrictEquals(active.peak, 1);
+});
+
+Deno.test("Task.allLimited treats a NaN limit as 1", async () => {
+  const active = { now: 0, peak: 0 };
+  const result = await Task.allLimited(NaN)([tracked(active, 5, 1), tracked(active, 5, 2)])();
+  assertEquals(result, [1, 2]);
+  assertStrictEquals(active.peak, 1);
+});
+
+Deno.test("Task.allLimited rounds a fractional limit down", async () => {
+  const active = { now: 0, peak: 0 };
+  await Task.allLimited(2.5)([1, 2, 3, 4].map((n) => tracked(active, 5, n)))();
+  assertStrictEquals(active.peak, 2);
+});
+
 // ---------------------------------------------------------------------------
 // timeout
 // ---------------------------------------------------------------------------
@@ -490,6 +628,34 @@ Deno.test(
   },
 );
 
+Deno.test("Task.repeat with a schedule runs again while the schedule allows", async () => {
+  let n = 0;
+  const task = Task.from(() => Promise.resolve(n++));
+  const result = await pipe(task, Task.repeat({ schedule: Schedule.recurs(2) }))();
+  assertEquals(result, [0, 1, 2]);
+});
+
+Deno.test("Task.repeat passes each value to the schedule", async () => {
+  let n = 0;
+  const task = Task.from(() => Promise.resolve(++n));
+  const result = await pipe(
+    task,
+    Task.repeat({ schedule: Schedule.whileInput((value: number) => value < 4) }),
+  )();
+  assertEquals(result, [1, 2, 3, 4]);
+});
+
+Deno.test("Task.repeat waits the delays the schedule asks for", async () => {
+  const start = Date.now();
+  await pipe(
+    Task.resolve(1),
+    Task.repeat({ schedule: pipe(Schedule.fixed(30), Schedule.intersect(Schedule.recurs(2))) }),
+  )();
+  const elapsed = Date.now() - start;
+  assertStrictEquals(elapsed >= 50, true);
+  assertStrictEquals(elapsed < 120, true);
+});
+
 // ---------------------------------------------------------------------------
 // repeatUntil
 // ---------------------------------------------------------------------------
@@ -549,3 +715,322 @@ Deno.test("Task.repeatUntil inserts delay between runs", async () => {
   assertStrictEquals(elapsed >= 50, true);
   assertStrictEquals(elapsed < 120, true);
 });
+
+Deno.test("Task.repeatUntil with a schedule returns the last value once it stops", async () => {
+  let calls = 0;
+  const task = Task.from(() => Promise.resolve(++calls));
+  const result = await pipe(
+    task,
+    Task.repeatUntil({ when: (n) => n === 10, schedule: Schedule.recurs(2) }),
+  )();
+  assertStrictEquals(result, 3);
+  assertStrictEquals(calls, 3);
+});
+
+Deno.test("Task.repeatUntil with a schedule stops as soon as the predicate holds", async () => {
+  let calls = 0;
+  const task = Task.from(() => Promise.resolve(++calls));
+  const result = await pipe(
+    task,
+    Task.repeatUntil({ when: (n) => n === 2, schedule: Schedule.fixed(1) }),
+  )();
+  assertStrictEquals(result, 2);
+});
+
+// ---------------------------------------------------------------------------
+// cancellation
+// ---------------------------------------------------------------------------
+
+const abortableDelay = <A>(ms: number, value: A, onAbort: () => void = () => {}): Task<A> =>
+  Task.from((signal) =>
+    new Promise<A>((resolve) => {
+      const id = setTimeout(() => resolve(value), ms);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(id);
+        onAbort();
+      });
+    })
+  );
+
+Deno.test("Task.from passes the signal to the function", async () => {
+  const controller = new AbortController();
+  let received: AbortSignal | undefined;
+  const task = Task.from((signal) => {
+    received = signal;
+    return Promise.resolve(1);
+  });
+  await task(controller.signal);
+  assertStrictEquals(received, controller.signal);
+});
+
+Deno.test("Task.map and Task.chain thread the signal to every step", async () => {
+  const controller = new AbortController();
+  const seen: (AbortSignal | undefined)[] = [];
+  const step = (n: number) =>
+    Task.from((signal) => {
+      seen.push(signal);
+      return Promise.resolve(n);
+    });
+  await pipe(
+    step(1),
+    Task.map((n: number) => n + 1),
+    Task.chain((n: number) => step(n)),
+  )(controller.signal);
+  assertEquals(seen, [controller.signal, controller.signal]);
+});
+
+Deno.test("Task.race aborts the losing Tasks", async () => {
+  let aborted = false;
+  const result = await Task.race([
+    abortableDelay(10, "fast"),
+    abortableDelay(200, "slow", () => {
+      aborted = true;
+    }),
+  ])();
+  assertStrictEquals(result, "fast");
+  assertStrictEquals(aborted, true);
+});
+
+Deno.test("Task.race aborts every Task when the caller aborts", () => {
+  const controller = new AbortController();
+  let aborted = 0;
+  Task.race([
+    abortableDelay(100, 1, () => aborted++),
+    abortableDelay(200, 2, () => aborted++),
+  ])(controller.signal);
+  controller.abort();
+  assertStrictEquals(aborted, 2);
+});
+
+Deno.test("Task.timeout aborts the Task when the time runs out", async () => {
+  let aborted = false;
+  const result = await pipe(
+    abortableDelay(200, 42, () => {
+      aborted = true;
+    }),
+    Task.timeout(10, () => "timed out"),
+  )();
+  assertEquals(result, { kind: "Error", error: "timed out" });
+  assertStrictEquals(aborted, true);
+});
+
+Deno.test("Task.timeout clears its timer when the Task wins", async () => {
+  const result = await pipe(
+    abortableDelay(10, 42),
+    Task.timeout(1000, () => "timed out"),
+  )();
+  assertEquals(result, { kind: "Ok", value: 42 });
+});
+
+Deno.test("Task.delay clears its timer and never starts the Task when aborted", async () => {
+  const controller = new AbortController();
+  let started = false;
+  const task = Task.from(() => {
+    started = true;
+    return Promise.resolve(1);
+  });
+  pipe(task, Task.delay(50))(controller.signal);
+  controller.abort();
+  await new Promise((r) => setTimeout(r, 60));
+  assertStrictEquals(started, false);
+});
+
+Deno.test("Task.repeat stops repeating when aborted", async () => {
+  const controller = new AbortController();
+  let calls = 0;
+  const task = Task.from(() => {
+    calls++;
+    return Promise.resolve(calls);
+  });
+  pipe(task, Task.repeat({ times: 5, delay: 20 }))(controller.signal);
+  await new Promise((r) => setTimeout(r, 30));
+  controller.abort();
+  await new Promise((r) => setTimeout(r, 50));
+  assertStrictEquals(calls, 2);
+});
+
+Deno.test("Task.repeatUntil stops polling when aborted", async () => {
+  const controller = new AbortController();
+  let calls = 0;
+  const task = Task.from(() => {
+    calls++;
+    return Promise.resolve(false);
+  });
+  pipe(task, Task.repeatUntil({ when: (done) => done, delay: 20 }))(controller.signal);
+  await new Promise((r) => setTimeout(r, 10));
+  controller.abort();
+  await new Promise((r) => setTimeout(r, 40));
+  assertStrictEquals(calls, 1);
+});
+
+// ---------------------------------------------------------------------------
+// gen
+// ---------------------------------------------------------------------------
+
+Deno.test("Task.gen waits for each Task in order and resolves to the returned value", async () => {
+  const order: number[] = [];
+  const step = (n: number) =>
+    Task.from(() => {
+      order.push(n);
+      return Promise.resolve(n);
+    });
+  const task = Task.gen(function* ($) {
+    const a = yield* $(step(1));
+    const b = yield* $(step(a + 1));
+    return a + b;
+  });
+  assertStrictEquals(await task(), 3);
+  assertEquals(order, [1, 2]);
+});
+
+Deno.test("Task.gen is lazy and reruns the block on each run", async () => {
+  let runs = 0;
+  const task = Task.gen(function* ($) {
+    runs++;
+    return yield* $(Task.resolve(runs));
+  });
+  assertStrictEquals(runs, 0);
+  assertStrictEquals(await task(), 1);
+  assertStrictEquals(await task(), 2);
+});
+
+Deno.test("Task.gen passes the signal to every Task", async () => {
+  const controller = new AbortController();
+  const seen: (AbortSignal | undefined)[] = [];
+  const probe = Task.from((signal) => {
+    seen.push(signal);
+    return Promise.resolve(0);
+  });
+  await Task.gen(function* ($) {
+    yield* $(probe);
+    yield* $(probe);
+  })(controller.signal);
+  assertEquals(seen, [controller.signal, controller.signal]);
+});
+
+// ---------------------------------------------------------------------------
+// cached
+// ---------------------------------------------------------------------------
+
+// Counts runs and resolves each with the key and the run number.
+const counted = () => {
+  const runs: string[] = [];
+  const f = (key: string) =>
+    Task.from(() => {
+      runs.push(key);
+      return Promise.resolve(`${key}#${runs.length}`);
+    });
+  return { runs, f };
+};
+
+Deno.test("Task.cached runs once per key and caches the result", async () => {
+  const { runs, f } = counted();
+  const cachedF = Task.cached(f);
+
+  assertStrictEquals(await cachedF("a")(), "a#1");
+  assertStrictEquals(await cachedF("a")(), "a#1");
+  assertStrictEquals(await cachedF("b")(), "b#2");
+  assertEquals(runs, ["a", "b"]);
+});
+
+Deno.test("Task.cached does nothing until the Task is run", () => {
+  const { runs, f } = counted();
+  Task.cached(f)("a");
+  assertEquals(runs, []);
+});
+
+Deno.test("Task.cached shares a run between concurrent callers", async () => {
+  const { runs, f } = counted();
+  const cachedF = Task.cached(f);
+
+  const results = await Promise.all([cachedF("a")(), cachedF("a")(), cachedF("a")()]);
+  assertEquals(results, ["a#1", "a#1", "a#1"]);
+  assertEquals(runs, ["a"]);
+});
+
+Deno.test("Task.cached never resolves an aborted caller but finishes the shared run", async () => {
+  const { runs, f } = counted();
+  const cachedF = Task.cached(f);
+  const controller = new AbortController();
+  let abortedResolved = false;
+
+  cachedF("a")(controller.signal).then(() => (abortedResolved = true));
+  controller.abort();
+  assertStrictEquals(await cachedF("a")(), "a#1");
+  await new Promise((r) => setTimeout(r, 10));
+  assertStrictEquals(abortedResolved, false);
+  assertEquals(runs, ["a"]);
+});
+
+Deno.test("Task.cached runs again once the result is older than ttl", async () => {
+  let time = 0;
+  const { f } = counted();
+  const cachedF = Task.cached(f, { ttl: 100, now: () => time });
+
+  await cachedF("a")();
+  time = 99;
+  assertStrictEquals(await cachedF("a")(), "a#1");
+  time = 100;
+  assertStrictEquals(await cachedF("a")(), "a#2");
+});
+
+Deno.test("Task.cached serves a stale result while revalidating", async () => {
+  let time = 0;
+  const { runs, f } = counted();
+  const cachedF = Task.cached(f, { ttl: 100, staleWhileRevalidate: 50, now: () => time });
+
+  await cachedF("a")();
+  time = 120;
+  assertStrictEquals(await cachedF("a")(), "a#1"); // stale, refreshed in the background
+  assertStrictEquals(await cachedF("a")(), "a#2");
+  assertEquals(runs, ["a", "a"]);
+
+  time = 300; // past ttl and the stale window: waits for a fresh run
+  assertStrictEquals(await cachedF("a")(), "a#3");
+});
+
+Deno.test("Task.cached uses key to compute the cache key", async () => {
+  const { runs, f } = counted();
+  const cachedF = Task.cached((user: { id: string }) => f(user.id), { key: (user) => user.id });
+
+  await cachedF({ id: "a" })();
+  await cachedF({ id: "a" })();
+  assertEquals(runs, ["a"]);
+});
+
+Deno.test("Task.cached does not cache values rejected by when", async () => {
+  const { runs, f } = counted();
+  const cachedF = Task.cached(f, { when: (value) => value.endsWith("#2") });
+
+  await cachedF("a")();
+  await cachedF("a")();
+  await cachedF("a")();
+  assertEquals(runs, ["a", "a"]);
+});
+
+Deno.test("Task.cached invalidate drops one key and clear drops all", async () => {
+  const { runs, f } = counted();
+  const cachedF = Task.cached(f);
+
+  await cachedF("a")();
+  await cachedF("b")();
+  cachedF.invalidate("a");
+  await cachedF("a")();
+  await cachedF("b")();
+  assertEquals(runs, ["a", "b", "a"]);
+
+  cachedF.clear();
+  await cachedF("b")();
+  assertEquals(runs, ["a", "b", "a", "b"]);
+});
+
+Deno.test("Task.cached does not store a run invalidated while in flight", async () => {
+  const { runs, f } = counted();
+  const cachedF = Task.cached(f);
+
+  const inFlight = cachedF("a")();
+  cachedF.invalidate("a");
+  assertStrictEquals(await inFlight, "a#1");
+  assertStrictEquals(await cachedF("a")(), "a#2");
+  assertEquals(runs, ["a", "a"]);
+});
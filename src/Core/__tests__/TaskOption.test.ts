@@ -268,6 +268,67 @@ Deno.test("TaskOption.getOrElse returns Some value typed as A | B when Some", as
   assertStrictEquals(result, 5);
 });
 
+// ---------------------------------------------------------------------------
+// lift2 / lift3 / all / struct
+// ---------------------------------------------------------------------------
+
+Deno.test("TaskOption.lift2 applies the function when both are Some", async () => {
+  const add = TaskOption.lift2((a: number, b: number) => a + b);
+  assertEquals(await add(TaskOption.some(2), TaskOption.some(3))(), Option.some(5));
+  assertEquals(await add(TaskOption.some(2), TaskOption.none())(), Option.none());
+});
+
+Deno.test("TaskOption.lift2 runs both in parallel", async () => {
+  const started: string[] = [];
+  const slow = <A>(name: string, value: A) =>
+    Task.from(() => {
+      started.push(name);
+      return new Promise<A>((resolve) => setTimeout(() => resolve(value), 20));
+    });
+  const add = TaskOption.lift2((a: number, b: number) => a + b);
+  const pending = add(slow("a", Option.some(1)), slow("b", Option.some(2)))();
+  assertEquals(started, ["a", "b"]);
+  assertEquals(await pending, Option.some(3));
+});
+
+Deno.test("TaskOption.lift3 applies the function when all are Some", async () => {
+  const sum = TaskOption.lift3((a: number, b: number, c: number) => a + b + c);
+  assertEquals(
+    await sum(TaskOption.some(1), TaskOption.some(2), TaskOption.some(3))(),
+    Option.some(6),
+  );
+  assertEquals(
+    await sum(TaskOption.some(1), TaskOption.none(), TaskOption.some(3))(),
+    Option.none(),
+  );
+});
+
+Deno.test("TaskOption.all collects a tuple of Somes", async () => {
+  const result = await TaskOption.all([TaskOption.some("alice"), TaskOption.some(30)] as const)();
+  assertEquals(result, Option.some(["alice", 30] as const));
+});
+
+Deno.test("TaskOption.all returns None when any element is None", async () => {
+  const result = await TaskOption.all([TaskOption.some(1), TaskOption.none()] as const)();
+  assertEquals(result, Option.none());
+});
+
+Deno.test("TaskOption.struct collects a record of Somes", async () => {
+  const result = await TaskOption.struct({
+    user: TaskOption.some("alice"),
+    team: TaskOption.some("core"),
+  })();
+  assertEquals(result, Option.some({ user: "alice", team: "core" }));
+});
+
+Deno.test("TaskOption.struct returns None when any field is None", async () => {
+  const result = await TaskOption.struct({
+    user: TaskOption.some("alice"),
+    team: TaskOption.none(),
+  })();
+  assertEquals(result, Option.none());
+});
+
 // ---------------------------------------------------------------------------
 // tap
 // ---------------------------------------------------------------------------
@@ -383,3 +444,27 @@ Deno.test("TaskOption pipe short-circuits on None", async () => {
   )();
   assertStrictEquals(result, 0);
 });
+
+// ---------------------------------------------------------------------------
+// gen
+// ---------------------------------------------------------------------------
+
+Deno.test("TaskOption.gen unwraps TaskOptions and plain Options", async () => {
+  const task = TaskOption.gen(function* ($) {
+    const a = yield* $(TaskOption.some(2));
+    const b = yield* $(Option.some(5));
+    return a + b;
+  });
+  assertEquals(await task(), Option.some(7));
+});
+
+Deno.test("TaskOption.gen stops at the first None", async () => {
+  let reached = false;
+  const task = TaskOption.gen(function* ($) {
+    const a = yield* $(TaskOption.none<number>());
+    reached = true;
+    return a;
+  });
+  assertEquals(await task(), Option.none());
+  assertStrictEquals(reached, false);
+});
@@ -1,7 +1,9 @@
 import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { Result } from "../Result.ts";
+import { Schedule } from "../Schedule.ts";
 import { Task } from "../Task.ts";
 import { TaskResult } from "../TaskResult.ts";
+import { These } from "../These.ts";
 import { pipe } from "../../Composition/pipe.ts";
 
 // ---------------------------------------------------------------------------
@@ -322,6 +324,149 @@ Deno.test("TaskResult.getOrElse returns Ok value typed as A | B when Ok", async
   assertStrictEquals(result, 5);
 });
 
+// ---------------------------------------------------------------------------
+// lift2 / lift3 / all / struct
+// ---------------------------------------------------------------------------
+
+Deno.test("TaskResult.lift2 applies the function when both are Ok", async () => {
+  const add = TaskResult.lift2((a: number, b: number) => a + b);
+  assertEquals(await add(TaskResult.ok(2), TaskResult.ok(3))(), Result.ok(5));
+});
+
+Deno.test("TaskResult.lift2 returns the first Err in argument order", async () => {
+  const add = TaskResult.lift2((a: number, b: number) => a + b);
+  assertEquals(
+    await add(TaskResult.err("first"), TaskResult.err("second"))(),
+    Result.err("first"),
+  );
+});
+
+Deno.test("TaskResult.lift2 runs both in parallel", async () => {
+  const started: string[] = [];
+  const slow = <A>(name: string, value: A) =>
+    Task.from(() => {
+      started.push(name);
+      return new Promise<A>((resolve) => setTimeout(() => resolve(value), 20));
+    });
+  const add = TaskResult.lift2((a: number, b: number) => a + b);
+  const pending = add(slow("a", Result.ok(1)), slow("b", Result.ok(2)))();
+  assertEquals(started, ["a", "b"]);
+  assertEquals(await pending, Result.ok(3));
+});
+
+Deno.test("TaskResult.lift3 applies the function when all are Ok", async () => {
+  const sum = TaskResult.lift3((a: number, b: number, c: number) => a + b + c);
+  assertEquals(await sum(TaskResult.ok(1), TaskResult.ok(2), TaskResult.ok(3))(), Result.ok(6));
+  assertEquals(
+    await sum(TaskResult.ok(1), TaskResult.err("b"), TaskResult.ok(3))(),
+    Result.err("b"),
+  );
+});
+
+Deno.test("TaskResult.all collects a tuple of Oks", async () => {
+  const result = await TaskResult.all([TaskResult.ok("alice"), TaskResult.ok(30)] as const)();
+  assertEquals(result, Result.ok(["alice", 30] as const));
+});
+
+Deno.test("TaskResult.all returns the first Err in input order", async () => {
+  const started: string[] = [];
+  const slow = <A>(name: string, value: A) =>
+    Task.from(() => {
+      started.push(name);
+      return new Promise<A>((resolve) => setTimeout(() => resolve(value), 20));
+    });
+  const result = await TaskResult.all(
+    [
+      slow("a", Result.err("slow failure")),
+      TaskResult.err("fast failure"),
+    ] as const,
+  )();
+  assertEquals(result, Result.err("slow failure"));
+});
+
+Deno.test("TaskResult.struct collects a record of Oks in parallel", async () => {
+  const started: string[] = [];
+  const slow = <A>(name: string, value: A) =>
+    Task.from(() => {
+      started.push(name);
+      return new Promise<A>((resolve) => setTimeout(() => resolve(value), 20));
+    });
+  const pending = TaskResult.struct({
+    user: slow("user", Result.ok("alice")),
+    prefs: slow("prefs", Result.ok({ dark: true })),
+  })();
+  assertEquals(started, ["user", "prefs"]);
+  assertEquals(await pending, Result.ok({ user: "alice", prefs: { dark: true } }));
+});
+
+Deno.test("TaskResult.struct returns the first Err", async () => {
+  const result = await TaskResult.struct({
+    user: TaskResult.ok("alice"),
+    prefs: TaskResult.err("missing prefs"),
+  })();
+  assertEquals(result, Result.err("missing prefs"));
+});
+
+// ---------------------------------------------------------------------------
+// allSettled / partition / allThese
+// ---------------------------------------------------------------------------
+
+const batch: readonly TaskResult<string, number>[] = [
+  TaskResult.ok(1),
+  TaskResult.err("second failed"),
+  TaskResult.ok(3),
+  TaskResult.err("fourth failed"),
+];
+
+Deno.test("TaskResult.allSettled keeps every outcome with its index", async () => {
+  const settled = await TaskResult.allSettled(batch)();
+  assertEquals(settled, {
+    oks: [{ index: 0, value: 1 }, { index: 2, value: 3 }],
+    errs: [{ index: 1, error: "second failed" }, { index: 3, error: "fourth failed" }],
+  });
+});
+
+Deno.test("TaskResult.allSettled runs every TaskResult in parallel", async () => {
+  const started: number[] = [];
+  const slow = (n: number): TaskResult<string, number> =>
+    Task.from(() => {
+      started.push(n);
+      return new Promise((resolve) => setTimeout(() => resolve(Result.ok(n)), 20));
+    });
+  const pending = TaskResult.allSettled([slow(1), slow(2)])();
+  assertEquals(started, [1, 2]);
+  assertEquals((await pending).oks.length, 2);
+});
+
+Deno.test("TaskResult.allSettled of no TaskResults has no outcomes", async () => {
+  assertEquals(await TaskResult.allSettled([])(), { oks: [], errs: [] });
+});
+
+Deno.test("TaskResult.partition splits values and errors in input order", async () => {
+  const [values, errors] = await TaskResult.partition(batch)();
+  assertEquals(values, [1, 3]);
+  assertEquals(errors, ["second failed", "fourth failed"]);
+});
+
+Deno.test("TaskResult.allThese returns Second when every TaskResult succeeds", async () => {
+  const result = await TaskResult.allThese([TaskResult.ok(1), TaskResult.ok(2)])();
+  assertEquals(result, These.second([1, 2]));
+});
+
+Deno.test("TaskResult.allThese returns First when every TaskResult fails", async () => {
+  const result = await TaskResult.allThese([TaskResult.err("a"), TaskResult.err("b")])();
+  assertEquals(result, These.first(["a", "b"]));
+});
+
+Deno.test("TaskResult.allThese returns Both for a partial success", async () => {
+  const result = await TaskResult.allThese(batch)();
+  assertEquals(result, These.both(["second failed", "fourth failed"], [1, 3]));
+});
+
+Deno.test("TaskResult.allThese of no TaskResults is an empty success", async () => {
+  assertEquals(await TaskResult.allThese([])(), These.second([]));
+});
+
 // ---------------------------------------------------------------------------
 // tap
 // ---------------------------------------------------------------------------
@@ -523,6 +668,37 @@ Deno.test({
   },
 });
 
+// ---------------------------------------------------------------------------
+// repeat
+// ---------------------------------------------------------------------------
+
+Deno.test("TaskResult.repeat runs again while the schedule allows and returns the last Ok", async () => {
+  let calls = 0;
+  const task: TaskResult<string, number> = () => {
+    calls++;
+    return Task.resolve<Result<string, number>>(Result.ok(calls))();
+  };
+  const result = await pipe(
+    task,
+    TaskResult.repeat({ schedule: Schedule.whileInput((n: number) => n < 3) }),
+  )();
+  assertEquals(result, Result.ok(3));
+  assertStrictEquals(calls, 3);
+});
+
+Deno.test("TaskResult.repeat stops at the first Err", async () => {
+  let calls = 0;
+  const task: TaskResult<string, number> = () => {
+    calls++;
+    return Task.resolve<Result<string, number>>(
+      calls < 2 ? Result.ok(calls) : Result.err("gone"),
+    )();
+  };
+  const result = await pipe(task, TaskResult.repeat({ schedule: Schedule.recurs(5) }))();
+  assertEquals(result, Result.err("gone"));
+  assertStrictEquals(calls, 2);
+});
+
 // ---------------------------------------------------------------------------
 // timeout
 // ---------------------------------------------------------------------------
@@ -586,3 +762,222 @@ Deno.test({
     assertEquals(result, { kind: "Error", error: "request timed out" });
   },
 });
+
+// ---------------------------------------------------------------------------
+// cancellation
+// ---------------------------------------------------------------------------
+
+Deno.test("TaskResult.tryCatch passes the signal and maps the abort to Err", async () => {
+  const controller = new AbortController();
+  const task = TaskResult.tryCatch(
+    (signal) =>
+      new Promise<number>((_, reject) => {
+        signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      }),
+    (e) => (e as Error).message,
+  );
+  const pending = task(controller.signal);
+  controller.abort();
+  assertEquals(await pending, { kind: "Error", error: "aborted" });
+});
+
+Deno.test("TaskResult.timeout aborts the TaskResult when the time runs out", async () => {
+  let aborted = false;
+  const slow = TaskResult.tryCatch(
+    (signal) =>
+      new Promise<number>((resolve, reject) => {
+        const id = setTimeout(() => resolve(42), 200);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(id);
+          aborted = true;
+          reject(new Error("aborted"));
+        });
+      }),
+    () => "failed",
+  );
+  const result = await pipe(slow, TaskResult.timeout(10, () => "timed out"))();
+  assertEquals(result, { kind: "Error", error: "timed out" });
+  assertStrictEquals(aborted, true);
+});
+
+Deno.test("TaskResult.retry with a schedule retries until the schedule stops", async () => {
+  let calls = 0;
+  const task: TaskResult<string, number> = () => {
+    calls++;
+    return Task.resolve<Result<string, number>>(Result.err(`fail ${calls}`))();
+  };
+  const result = await pipe(task, TaskResult.retry({ schedule: Schedule.recurs(2) }))();
+  assertEquals(result, Result.err("fail 3"));
+  assertStrictEquals(calls, 3);
+});
+
+Deno.test("TaskResult.retry passes each error to the schedule", async () => {
+  let calls = 0;
+  const task: TaskResult<string, number> = () => {
+    calls++;
+    return Task.resolve<Result<string, number>>(Result.err(calls < 3 ? "busy" : "fatal"))();
+  };
+  const result = await pipe(
+    task,
+    TaskResult.retry({ schedule: Schedule.whileInput((e: string) => e === "busy") }),
+  )();
+  assertEquals(result, Result.err("fatal"));
+  assertStrictEquals(calls, 3);
+});
+
+Deno.test("TaskResult.retry calls onRetry before each retry", async () => {
+  const retries: [string, number, number][] = [];
+  let calls = 0;
+  const task: TaskResult<string, number> = () => {
+    calls++;
+    return Task.resolve<Result<string, number>>(
+      calls < 3 ? Result.err(`fail ${calls}`) : Result.ok(calls),
+    )();
+  };
+  const result = await pipe(
+    task,
+    TaskResult.retry({
+      schedule: pipe(Schedule.exponential(1), Schedule.intersect(Schedule.recurs(5))),
+      onRetry: (error: string, attempt, delay) => retries.push([error, attempt, delay]),
+    }),
+  )();
+  assertEquals(result, Result.ok(3));
+  assertEquals(retries, [["fail 1", 1, 1], ["fail 2", 2, 2]]);
+});
+
+Deno.test("TaskResult.retry clears the backoff timer and stops retrying when aborted", async () => {
+  const controller = new AbortController();
+  let calls = 0;
+  const task: TaskResult<string, number> = Task.from(() => {
+    calls++;
+    return Promise.resolve(Result.err("fail"));
+  });
+  pipe(task, TaskResult.retry({ attempts: 3, backoff: 50 }))(controller.signal);
+  await new Promise((r) => setTimeout(r, 10));
+  controller.abort();
+  await new Promise((r) => setTimeout(r, 60));
+  assertStrictEquals(calls, 1);
+});
+
+Deno.test("TaskResult.retry does not retry once the signal has aborted", async () => {
+  const controller = new AbortController();
+  let calls = 0;
+  const task: TaskResult<string, number> = Task.from(() => {
+    calls++;
+    controller.abort();
+    return Promise.resolve(Result.err("fail"));
+  });
+  const result = await pipe(task, TaskResult.retry({ attempts: 3 }))(controller.signal);
+  assertEquals(result, { kind: "Error", error: "fail" });
+  assertStrictEquals(calls, 1);
+});
+
+// ---------------------------------------------------------------------------
+// gen
+// ---------------------------------------------------------------------------
+
+Deno.test("TaskResult.gen unwraps TaskResults and plain Results", async () => {
+  const task = TaskResult.gen(function* ($) {
+    const a = yield* $(TaskResult.ok<string, number>(2));
+    const b = yield* $(Result.ok(3));
+    return a * b;
+  });
+  assertEquals(await task(), Result.ok(6));
+});
+
+Deno.test("TaskResult.gen stops at the first Err with the union error type", async () => {
+  let reached = false;
+  const load = (): TaskResult<"NotFound", number> => TaskResult.err("NotFound");
+  const check = (n: number): Result<"Invalid", number> =>
+    n > 0 ? Result.ok(n) : Result.err("Invalid");
+
+  const task: TaskResult<"NotFound" | "Invalid", number> = TaskResult.gen(function* ($) {
+    const n = yield* $(load());
+    reached = true;
+    return yield* $(check(n));
+  });
+  assertEquals(await task(), Result.err("NotFound"));
+  assertStrictEquals(reached, false);
+});
+
+Deno.test("TaskResult.gen stops on a plain Err without running later steps", async () => {
+  let ran = false;
+  const later = Task.from(() => {
+    ran = true;
+    return Promise.resolve(Result.ok(1));
+  });
+  const task = TaskResult.gen(function* ($) {
+    yield* $(Result.err("early"));
+    return yield* $(later);
+  });
+  assertEquals(await task(), Result.err("early"));
+  assertStrictEquals(ran, false);
+});
+
+Deno.test("TaskResult.gen is lazy until run", async () => {
+  let started = false;
+  const task = TaskResult.gen(function* ($) {
+    started = true;
+    return yield* $(TaskResult.ok(1));
+  });
+  assertStrictEquals(started, false);
+  assertEquals(await task(), Result.ok(1));
+  assertStrictEquals(started, true);
+});
+
+// ---------------------------------------------------------------------------
+// cached
+// ---------------------------------------------------------------------------
+
+// Fails with "down" while `failing` is set, and counts every call.
+const flaky = () => {
+  const state = { calls: 0, failing: false };
+  const f = (id: string): TaskResult<string, string> => {
+    state.calls++;
+    return state.failing ? TaskResult.err("down") : TaskResult.ok(`${id}#${state.calls}`);
+  };
+  return { state, f };
+};
+
+Deno.test("TaskResult.cached caches Ok results", async () => {
+  const { state, f } = flaky();
+  const cachedF = TaskResult.cached(f);
+
+  assertEquals(await cachedF("a")(), Result.ok("a#1"));
+  assertEquals(await cachedF("a")(), Result.ok("a#1"));
+  assertStrictEquals(state.calls, 1);
+});
+
+Deno.test("TaskResult.cached does not cache Err results by default", async () => {
+  const { state, f } = flaky();
+  const cachedF = TaskResult.cached(f);
+
+  state.failing = true;
+  assertEquals(await cachedF("a")(), Result.err("down"));
+  state.failing = false;
+  assertEquals(await cachedF("a")(), Result.ok("a#2"));
+});
+
+Deno.test("TaskResult.cached caches Err results with cacheErrors", async () => {
+  const { state, f } = flaky();
+  const cachedF = TaskResult.cached(f, { cacheErrors: true });
+
+  state.failing = true;
+  await cachedF("a")();
+  state.failing = false;
+  assertEquals(await cachedF("a")(), Result.err("down"));
+  assertStrictEquals(state.calls, 1);
+});
+
+Deno.test("TaskResult.cached keeps serving a stale Ok when revalidation fails", async () => {
+  let time = 0;
+  const { state, f } = flaky();
+  const cachedF = TaskResult.cached(f, { ttl: 100, staleWhileRevalidate: 100, now: () => time });
+
+  await cachedF("a")();
+  state.failing = true;
+  time = 150;
+  assertEquals(await cachedF("a")(), Result.ok("a#1"));
+  assertEquals(await cachedF("a")(), Result.ok("a#1"));
+  assertStrictEquals(state.calls, 3);
+});
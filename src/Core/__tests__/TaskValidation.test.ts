@@ -1,5 +1,6 @@
 import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { Validation } from "../Validation.ts";
+import { Task } from "../Task.ts";
 import { TaskValidation } from "../TaskValidation.ts";
 import { pipe } from "../../Composition/pipe.ts";
 
@@ -414,3 +415,102 @@ Deno.test("TaskValidation.productAll with single element returns singleton array
   ])();
   assertEquals(result, { kind: "Valid", value: [42] });
 });
+
+// ---------------------------------------------------------------------------
+// gen
+// ---------------------------------------------------------------------------
+
+Deno.test("TaskValidation.gen unwraps TaskValidations and plain Validations", async () => {
+  const task = TaskValidation.gen(function* ($) {
+    const name = yield* $(TaskValidation.valid<string, string>("alice"));
+    const age = yield* $(Validation.valid<string, number>(30));
+    return { name, age };
+  });
+  assertEquals(await task(), Validation.valid({ name: "alice", age: 30 }));
+});
+
+Deno.test("TaskValidation.gen stops at the first Invalid", async () => {
+  let reached = false;
+  const task = TaskValidation.gen(function* ($) {
+    yield* $(TaskValidation.invalid<string, string>("bad name"));
+    reached = true;
+    return yield* $(Validation.invalid("bad age"));
+  });
+  assertEquals(await task(), Validation.invalid("bad name"));
+  assertStrictEquals(reached, false);
+});
+
+// ---------------------------------------------------------------------------
+// lift2 / lift3 / all / struct
+// ---------------------------------------------------------------------------
+
+Deno.test("TaskValidation.lift2 applies the function when both are Valid", async () => {
+  const makeUser = TaskValidation.lift2((name: string, age: number) => ({ name, age }));
+  assertEquals(
+    await makeUser(TaskValidation.valid("alice"), TaskValidation.valid(30))(),
+    Validation.valid({ name: "alice", age: 30 }),
+  );
+});
+
+Deno.test("TaskValidation.lift2 accumulates errors from both and runs in parallel", async () => {
+  const started: string[] = [];
+  const slow = <A>(name: string, value: A) =>
+    Task.from(() => {
+      started.push(name);
+      return new Promise<A>((resolve) => setTimeout(() => resolve(value), 20));
+    });
+  const makeUser = TaskValidation.lift2((name: string, age: number) => ({ name, age }));
+  const pending = makeUser(
+    slow("name", Validation.invalid<string>("bad name")),
+    slow("age", Validation.invalid<string>("bad age")),
+  )();
+  assertEquals(started, ["name", "age"]);
+  assertEquals(await pending, Validation.invalidAll(["bad name", "bad age"]));
+});
+
+Deno.test("TaskValidation.lift3 accumulates errors from all arguments", async () => {
+  const sum = TaskValidation.lift3((a: number, b: number, c: number) => a + b + c);
+  assertEquals(
+    await sum(TaskValidation.valid(1), TaskValidation.valid(2), TaskValidation.valid(3))(),
+    Validation.valid(6),
+  );
+  assertEquals(
+    await sum(TaskValidation.invalid("a"), TaskValidation.valid(2), TaskValidation.invalid("c"))(),
+    Validation.invalidAll(["a", "c"]),
+  );
+});
+
+Deno.test("TaskValidation.all collects a tuple of Valids", async () => {
+  const result = await TaskValidation.all(
+    [TaskValidation.valid("alice"), TaskValidation.valid(30)] as const,
+  )();
+  assertEquals(result, Validation.valid(["alice", 30] as const));
+});
+
+Deno.test("TaskValidation.all accumulates every error in order", async () => {
+  const result = await TaskValidation.all(
+    [
+      TaskValidation.invalid("a"),
+      TaskValidation.valid(2),
+      TaskValidation.invalidAll(["c1", "c2"]),
+    ] as const,
+  )();
+  assertEquals(result, Validation.invalidAll(["a", "c1", "c2"]));
+});
+
+Deno.test("TaskValidation.struct accumulates errors from every Invalid field", async () => {
+  const result = await TaskValidation.struct({
+    name: TaskValidation.invalid("Name required"),
+    email: TaskValidation.valid("a@b.c"),
+    age: TaskValidation.invalid("Age must be >= 0"),
+  })();
+  assertEquals(result, Validation.invalidAll(["Name required", "Age must be >= 0"]));
+});
+
+Deno.test("TaskValidation.struct collects a record of Valids", async () => {
+  const result = await TaskValidation.struct({
+    name: TaskValidation.valid("alice"),
+    age: TaskValidation.valid(30),
+  })();
+  assertEquals(result, Validation.valid({ name: "alice", age: 30 }));
+});
@@ -0,0 +1,229 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Combinable } from "../Combinable.ts";
+import { Iso } from "../Iso.ts";
+import { Lens } from "../Lens.ts";
+import { Optional } from "../Optional.ts";
+import { Prism } from "../Prism.ts";
+import { Result } from "../Result.ts";
+import { Task } from "../Task.ts";
+import { Traversal } from "../Traversal.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+type Item = { name: string; price: number; note?: string };
+type Order = { id: string; items: readonly Item[] };
+
+const order: Order = {
+  id: "o1",
+  items: [
+    { name: "pen", price: 10 },
+    { name: "ink", price: 25, note: "blue" },
+  ],
+};
+
+const prices = pipe(
+  Lens.prop<Order>()("items"),
+  Lens.andThen(Traversal.each<Item>()),
+  Traversal.andThenLens(Lens.prop<Item>()("price")),
+);
+
+// ---------------------------------------------------------------------------
+// each / eachValue
+// ---------------------------------------------------------------------------
+
+Deno.test("Traversal.each focuses on every element of an array", () => {
+  const each = Traversal.each<number>();
+  assertEquals(pipe([1, 2, 3], Traversal.getAll(each)), [1, 2, 3]);
+  assertEquals(pipe([1, 2, 3], Traversal.modify(each)((n) => n * 10)), [10, 20, 30]);
+});
+
+Deno.test("Traversal.each on an empty array has no foci", () => {
+  const each = Traversal.each<number>();
+  assertEquals(pipe([], Traversal.getAll(each)), []);
+  assertEquals(pipe([], Traversal.set(each)(1)), []);
+});
+
+Deno.test("Traversal.eachValue focuses on every value of a record", () => {
+  const values = Traversal.eachValue<number>();
+  assertEquals(pipe({ a: 1, b: 2 }, Traversal.getAll(values)), [1, 2]);
+  assertEquals(pipe({ a: 1, b: 2 }, Traversal.modify(values)((n) => n + 1)), { a: 2, b: 3 });
+});
+
+Deno.test("Traversal.each and eachValue return the input when nothing changes", () => {
+  const array: readonly number[] = [];
+  assertStrictEquals(pipe(array, Traversal.modify(Traversal.each<number>())((n) => n)), array);
+  const items = [1, 2, 3];
+  assertStrictEquals(pipe(items, Traversal.modify(Traversal.each<number>())((n) => n)), items);
+  const record = { a: 1, b: 2 };
+  assertStrictEquals(
+    pipe(record, Traversal.modify(Traversal.eachValue<number>())((n) => n)),
+    record,
+  );
+});
+
+// ---------------------------------------------------------------------------
+// filtered
+// ---------------------------------------------------------------------------
+
+Deno.test("Traversal.filtered focuses only on values passing the predicate", () => {
+  const evens = pipe(
+    Traversal.each<number>(),
+    Traversal.andThen(Traversal.filtered((n: number) => n % 2 === 0)),
+  );
+  assertEquals(pipe([1, 2, 3, 4], Traversal.getAll(evens)), [2, 4]);
+  assertEquals(pipe([1, 2, 3, 4], Traversal.modify(evens)((n) => n * 10)), [1, 20, 3, 40]);
+});
+
+Deno.test("Traversal.filtered with a Refinement narrows the focus", () => {
+  const strings: Traversal<readonly (string | number)[], string> = pipe(
+    Traversal.each<string | number>(),
+    Traversal.andThen(
+      Traversal.filtered((u: string | number): u is string => typeof u === "string"),
+    ),
+  );
+  assertEquals(pipe([1, "a", 2, "b"], Traversal.modify(strings)((s) => s.toUpperCase())), [
+    1,
+    "A",
+    2,
+    "B",
+  ]);
+});
+
+// ---------------------------------------------------------------------------
+// modify / set / getAll
+// ---------------------------------------------------------------------------
+
+Deno.test("Traversal.getAll reads every nested focus in order", () => {
+  assertEquals(pipe(order, Traversal.getAll(prices)), [10, 25]);
+});
+
+Deno.test("Traversal.modify updates every nested focus without mutating", () => {
+  const updated = pipe(order, Traversal.modify(prices)((p) => p * 2));
+  assertEquals(updated.items.map((i) => i.price), [20, 50]);
+  assertEquals(updated.items[1].note, "blue");
+  assertEquals(order.items[0].price, 10);
+});
+
+Deno.test("Traversal.set replaces every focus with the same value", () => {
+  const updated = pipe(order, Traversal.set(prices)(0));
+  assertEquals(updated.items.map((i) => i.price), [0, 0]);
+  assertStrictEquals(updated.id, "o1");
+});
+
+// ---------------------------------------------------------------------------
+// foldMap
+// ---------------------------------------------------------------------------
+
+Deno.test("Traversal.foldMap combines every focus", () => {
+  assertStrictEquals(pipe(order, Traversal.foldMap(prices)(Combinable.sum)((p) => p)), 35);
+  assertStrictEquals(pipe(order, Traversal.foldMap(prices)(Combinable.any)((p) => p > 20)), true);
+});
+
+Deno.test("Traversal.foldMap returns the empty value when there are no foci", () => {
+  const empty: Order = { id: "o2", items: [] };
+  assertStrictEquals(pipe(empty, Traversal.foldMap(prices)(Combinable.sum)((p) => p)), 0);
+});
+
+// ---------------------------------------------------------------------------
+// traverseResult / traverseTask
+// ---------------------------------------------------------------------------
+
+Deno.test("Traversal.traverseResult returns Ok with every focus updated", () => {
+  const result = pipe(
+    order,
+    Traversal.traverseResult(prices)((p) => (p >= 0 ? Result.ok(p + 1) : Result.err("negative"))),
+  );
+  assertEquals(
+    Result.map((o: Order) => o.items.map((i) => i.price))(result),
+    Result.ok([11, 26]),
+  );
+});
+
+Deno.test("Traversal.traverseResult returns the first Err", () => {
+  const seen: number[] = [];
+  const result = pipe(
+    order,
+    Traversal.traverseResult(prices)((p) => {
+      seen.push(p);
+      return Result.err(`bad ${p}`);
+    }),
+  );
+  assertEquals(result, Result.err("bad 10"));
+  assertEquals(seen, [10]);
+});
+
+Deno.test("Traversal.traverseTask updates every focus with the resolved values", async () => {
+  const updated = await pipe(
+    order,
+    Traversal.traverseTask(prices)((p) => Task.resolve(p * 100)),
+  )();
+  assertEquals(updated.items.map((i) => i.price), [1000, 2500]);
+  assertStrictEquals(updated.items[0].name, "pen");
+});
+
+Deno.test("Traversal.traverseTask runs the tasks in parallel", async () => {
+  const started: number[] = [];
+  let release: () => void = () => {};
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  const run = pipe(
+    order,
+    Traversal.traverseTask(prices)((p) =>
+      Task.from(async () => {
+        started.push(p);
+        await gate;
+        return p;
+      })
+    ),
+  )();
+  await Promise.resolve();
+  assertEquals(started, [10, 25]);
+  release();
+  assertEquals((await run).items.map((i) => i.price), [10, 25]);
+});
+
+// ---------------------------------------------------------------------------
+// Composition
+// ---------------------------------------------------------------------------
+
+Deno.test("Traversal.andThenOptional skips foci where the Optional finds nothing", () => {
+  const notes = pipe(
+    Traversal.each<Item>(),
+    Traversal.andThenOptional(Optional.prop<Item>()("note")),
+  );
+  assertEquals(pipe(order.items, Traversal.getAll(notes)), ["blue"]);
+  assertEquals(
+    pipe(order.items, Traversal.modify(notes)((n) => n.toUpperCase())),
+    [{ name: "pen", price: 10 }, { name: "ink", price: 25, note: "BLUE" }],
+  );
+});
+
+Deno.test("Traversal.andThen with a Prism focuses on the matching case", () => {
+  const oks = pipe(Traversal.each<Result<string, number>>(), Traversal.andThen(Prism.ok()));
+  const results = [Result.ok(1), Result.err("e"), Result.ok(3)];
+  assertEquals(pipe(results, Traversal.getAll(oks)), [1, 3]);
+  assertEquals(
+    pipe(results, Traversal.modify(oks)((n: number) => n * 2)),
+    [Result.ok(2), Result.err("e"), Result.ok(6)],
+  );
+});
+
+Deno.test("Traversal.andThen with an Iso converts every focus", () => {
+  const cents = Iso.make((n: number) => n * 100, (c: number) => c / 100);
+  const allCents = pipe(Traversal.each<number>(), Traversal.andThen(cents));
+  assertEquals(pipe([1, 2.5], Traversal.getAll(allCents)), [100, 250]);
+  assertEquals(pipe([1, 2.5], Traversal.modify(allCents)((c) => c + 50)), [1.5, 3]);
+});
+
+Deno.test("Optional.andThen with a Traversal has no foci when the outer focus is absent", () => {
+  type Basket = { items?: readonly number[] };
+  const all = pipe(Optional.prop<Basket>()("items"), Optional.andThen(Traversal.each<number>()));
+  assertEquals(pipe({ items: [1, 2] }, Traversal.getAll(all)), [1, 2]);
+  assertEquals(pipe({}, Traversal.getAll(all)), []);
+  assertEquals(pipe({ items: [1, 2] }, Traversal.set(all)(0)), { items: [0, 0] });
+  assertEquals(pipe({}, Traversal.set(all)(0)), {});
+});
+
+Deno.test("Traversal.fromPrism has one focus in the matching case and none otherwise", () => {
+  const t = Traversal.fromPrism(Prism.some<number>());
+  assertEquals(t.getAll({ kind: "Some", value: 1 }), [1]);
+  assertEquals(t.getAll({ kind: "None" }), []);
+});
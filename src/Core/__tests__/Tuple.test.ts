@@ -0,0 +1,156 @@
+import { assertEquals, assertStrictEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Tuple } from "../Tuple.ts";
+import { Option } from "../Option.ts";
+import { Result } from "../Result.ts";
+import { Task } from "../Task.ts";
+import { pipe } from "../../Composition/pipe.ts";
+
+const parseNumber = (s: string): Option<number> => {
+  const n = Number(s);
+  return Number.isNaN(n) ? Option.none() : Option.some(n);
+};
+
+const parseResult = (s: string): Result<string, number> => {
+  const n = Number(s);
+  return Number.isNaN(n) ? Result.err(`not a number: ${s}`) : Result.ok(n);
+};
+
+// ---------------------------------------------------------------------------
+// make / fst / snd
+// ---------------------------------------------------------------------------
+
+Deno.test("Tuple.make creates a pair", () => {
+  assertEquals(Tuple.make("alice", 42), ["alice", 42]);
+});
+
+Deno.test("Tuple.fst and Tuple.snd return each side", () => {
+  const pair = Tuple.make("alice", 42);
+  assertStrictEquals(Tuple.fst(pair), "alice");
+  assertStrictEquals(Tuple.snd(pair), 42);
+});
+
+// ---------------------------------------------------------------------------
+// mapFst / mapSnd / bimap / swap / toArray
+// ---------------------------------------------------------------------------
+
+Deno.test("Tuple.mapFst transforms only the first value", () => {
+  assertEquals(pipe(Tuple.make("alice", 42), Tuple.mapFst((s: string) => s.length)), [5, 42]);
+});
+
+Deno.test("Tuple.mapSnd transforms only the second value", () => {
+  assertEquals(pipe(Tuple.make("alice", 42), Tuple.mapSnd((n: number) => n + 1)), ["alice", 43]);
+});
+
+Deno.test("Tuple.bimap transforms both values", () => {
+  assertEquals(
+    pipe(Tuple.make("alice", 42), Tuple.bimap((s: string) => s.length, (n: number) => n > 18)),
+    [5, true],
+  );
+});
+
+Deno.test("Tuple.swap exchanges the two values", () => {
+  assertEquals(Tuple.swap(Tuple.make("alice", 42)), [42, "alice"]);
+});
+
+Deno.test("Tuple.toArray returns both values as an array", () => {
+  assertEquals(Tuple.toArray(Tuple.make(1, "a")), [1, "a"]);
+});
+
+Deno.test("Tuple functions work on plain readonly pairs", () => {
+  const pairs: readonly Tuple<string, number>[] = [["a", 1], ["b", 2]];
+  assertEquals(pairs.map(Tuple.mapSnd((n: number) => n * 10)), [["a", 10], ["b", 20]]);
+});
+
+// ---------------------------------------------------------------------------
+// traverse with Option
+// ---------------------------------------------------------------------------
+
+Deno.test("Tuple.traverseFst returns Some with the new first value", () => {
+  assertEquals(
+    pipe(Tuple.make("42", "id"), Tuple.traverseFst(parseNumber)),
+    Option.some(Tuple.make(42, "id")),
+  );
+});
+
+Deno.test("Tuple.traverseFst returns None when the function does", () => {
+  assertEquals(pipe(Tuple.make("x", "id"), Tuple.traverseFst(parseNumber)), Option.none());
+});
+
+Deno.test("Tuple.traverseSnd returns Some with the new second value", () => {
+  assertEquals(
+    pipe(Tuple.make("id", "42"), Tuple.traverseSnd(parseNumber)),
+    Option.some(Tuple.make("id", 42)),
+  );
+});
+
+Deno.test("Tuple.traverseSnd returns None when the function does", () => {
+  assertEquals(pipe(Tuple.make("id", "x"), Tuple.traverseSnd(parseNumber)), Option.none());
+});
+
+// ---------------------------------------------------------------------------
+// traverse with Result
+// ---------------------------------------------------------------------------
+
+Deno.test("Tuple.traverseFstResult returns Ok with the new first value", () => {
+  assertEquals(
+    pipe(Tuple.make("42", true), Tuple.traverseFstResult(parseResult)),
+    Result.ok(Tuple.make(42, true)),
+  );
+});
+
+Deno.test("Tuple.traverseFstResult returns the Err from the function", () => {
+  assertEquals(
+    pipe(Tuple.make("x", true), Tuple.traverseFstResult(parseResult)),
+    Result.err("not a number: x"),
+  );
+});
+
+Deno.test("Tuple.traverseSndResult returns Ok with the new second value", () => {
+  assertEquals(
+    pipe(Tuple.make(true, "42"), Tuple.traverseSndResult(parseResult)),
+    Result.ok(Tuple.make(true, 42)),
+  );
+});
+
+Deno.test("Tuple.traverseSndResult returns the Err from the function", () => {
+  assertEquals(
+    pipe(Tuple.make(true, "x"), Tuple.traverseSndResult(parseResult)),
+    Result.err("not a number: x"),
+  );
+});
+
+// ---------------------------------------------------------------------------
+// traverse with Task
+// ---------------------------------------------------------------------------
+
+Deno.test("Tuple.traverseFstTask runs the Task on the first value", async () => {
+  const task = pipe(
+    Tuple.make(2, "req-1"),
+    Tuple.traverseFstTask((n: number) => Task.resolve(n * 10)),
+  );
+  assertEquals(await task(), [20, "req-1"]);
+});
+
+Deno.test("Tuple.traverseSndTask runs the Task on the second value", async () => {
+  const task = pipe(
+    Tuple.make("req-1", 2),
+    Tuple.traverseSndTask((n: number) => Task.resolve(n * 10)),
+  );
+  assertEquals(await task(), ["req-1", 20]);
+});
+
+Deno.test("Tuple.traverseFstTask is lazy", async () => {
+  let runs = 0;
+  const task = pipe(
+    Tuple.make(1, "x"),
+    Tuple.traverseFstTask((n: number) =>
+      Task.from(() => {
+        runs++;
+        return Promise.resolve(n);
+      })
+    ),
+  );
+  assertStrictEquals(runs, 0);
+  await task();
+  assertStrictEquals(runs, 1);
+});
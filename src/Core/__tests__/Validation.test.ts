@@ -543,3 +543,64 @@ Deno.test("Validation composes well in a pipe chain", () => {
   assertStrictEquals(result, "Alice");
 });
 
+// ---------------------------------------------------------------------------
+// lift2 / lift3 / all / struct
+// ---------------------------------------------------------------------------
+
+Deno.test("Validation.lift2 applies the function when both are Valid", () => {
+  const makeUser = Validation.lift2((name: string, age: number) => ({ name, age }));
+  assertEquals(
+    makeUser(Validation.valid("alice"), Validation.valid(30)),
+    Validation.valid({ name: "alice", age: 30 }),
+  );
+});
+
+Deno.test("Validation.lift2 accumulates errors from both arguments", () => {
+  const makeUser = Validation.lift2((name: string, age: number) => ({ name, age }));
+  assertEquals(
+    makeUser(Validation.invalid("bad name"), Validation.invalid("bad age")),
+    Validation.invalidAll(["bad name", "bad age"]),
+  );
+});
+
+Deno.test("Validation.lift3 accumulates errors from all arguments", () => {
+  const sum = Validation.lift3((a: number, b: number, c: number) => a + b + c);
+  assertEquals(
+    sum(Validation.valid(1), Validation.valid(2), Validation.valid(3)),
+    Validation.valid(6),
+  );
+  assertEquals(
+    sum(Validation.invalid("a"), Validation.valid(2), Validation.invalid("c")),
+    Validation.invalidAll(["a", "c"]),
+  );
+});
+
+Deno.test("Validation.all collects a tuple of Valids", () => {
+  const result = Validation.all([Validation.valid("alice"), Validation.valid(30)] as const);
+  assertEquals(result, Validation.valid(["alice", 30] as const));
+});
+
+Deno.test("Validation.all accumulates every error in order", () => {
+  const result = Validation.all(
+    [
+      Validation.invalidAll(["a1", "a2"]),
+      Validation.valid(2),
+      Validation.invalid("c"),
+    ] as const,
+  );
+  assertEquals(result, Validation.invalidAll(["a1", "a2", "c"]));
+});
+
+Deno.test("Validation.struct collects a record of Valids", () => {
+  const result = Validation.struct({ name: Validation.valid("alice"), age: Validation.valid(30) });
+  assertEquals(result, Validation.valid({ name: "alice", age: 30 }));
+});
+
+Deno.test("Validation.struct accumulates errors from every Invalid field", () => {
+  const result = Validation.struct({
+    name: Validation.invalid("Name required"),
+    email: Validation.valid("a@b.c"),
+    age: Validation.invalid("Age must be >= 0"),
+  });
+  assertEquals(result, Validation.invalidAll(["Name required", "Age must be >= 0"]));
+});
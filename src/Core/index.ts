@@ -1,19 +1,39 @@
 export * from "./Arr.ts";
+export * from "./AsyncIter.ts";
+export * from "./CircuitBreaker.ts";
+export * from "./Combinable.ts";
 export * from "./Logged.ts";
 export * from "./Deferred.ts";
+export * from "./Decoder.ts";
+export * from "./Equality.ts";
+export * from "./Iso.ts";
+export * from "./Iter.ts";
+export * from "./Lazy.ts";
 export * from "./Lens.ts";
+export * from "./Map.ts";
 export * from "./Option.ts";
 export * from "./Reader.ts";
+export * from "./ReaderTask.ts";
+export * from "./ReaderTaskResult.ts";
 export * from "./Optional.ts";
+export * from "./Ordering.ts";
 export * from "./Rec.ts";
 export * from "./Predicate.ts";
+export * from "./Prism.ts";
+export * from "./RateLimiter.ts";
 export * from "./Refinement.ts";
 export * from "./RemoteData.ts";
+export * from "./Resource.ts";
+export * from "./Schedule.ts";
+export * from "./Set.ts";
 export * from "./State.ts";
+export * from "./Struct.ts";
 export * from "./Result.ts";
 export * from "./Task.ts";
 export * from "./TaskOption.ts";
 export * from "./TaskResult.ts";
 export * from "./TaskValidation.ts";
 export * from "./These.ts";
+export * from "./Traversal.ts";
+export * from "./Tuple.ts";
 export * from "./Validation.ts";